@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { generateContent, imageResponse } from './test/fakeGenAI';
+
+vi.mock('@google/genai', () => import('./test/fakeGenAI'));
+
+const photo = (name: string) => new File(['fake image bytes'], name, { type: 'image/jpeg' });
+
+/** Uploads a photo into the uploader with the given title and accepts the crop editor as-is. */
+const uploadInto = async (user: ReturnType<typeof userEvent.setup>, title: string, file: File) => {
+  const uploader = screen.getByRole('heading', { name: title }).closest('.flex-col') as HTMLElement;
+  await user.upload(uploader.querySelector('input[type="file"]') as HTMLInputElement, file);
+  await user.click(await screen.findByRole('button', { name: 'Apply Crop' }));
+};
+
+describe('App', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEY', 'test-key');
+    vi.stubEnv('API_PROXY_URL', '');
+    vi.stubEnv('IMAGE_PROVIDER', 'gemini');
+    generateContent.mockReset();
+  });
+
+  it('uploads, selects a scene, generates and downloads', async () => {
+    generateContent.mockResolvedValue(imageResponse('Z2VuZXJhdGVk', 'image/png'));
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const { default: App } = await import('./App');
+    const user = userEvent.setup();
+    render(<App />);
+
+    const generate = screen.getByRole('button', { name: /Generate Content/ });
+    expect(generate).toBeDisabled();
+
+    await uploadInto(user, 'Model / Person', photo('person.jpg'));
+    await uploadInto(user, 'Product', photo('product.jpg'));
+    expect(screen.getByText(/2 images ·/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Kitchen' }));
+    expect(generate).toBeEnabled();
+    await user.click(generate);
+
+    const result = await screen.findByAltText('Kitchen variation 1');
+    expect(result).toHaveAttribute('src', 'data:image/png;base64,Z2VuZXJhdGVk');
+    expect(generateContent).toHaveBeenCalledTimes(1);
+    const { contents } = generateContent.mock.calls[0][0];
+    expect(contents.parts).toHaveLength(3);
+
+    const card = result.closest('.group') as HTMLElement;
+    await user.click(within(card).getByRole('button', { name: /Download/ }));
+    await waitFor(() => expect(click).toHaveBeenCalled());
+    const link = click.mock.contexts[0] as HTMLAnchorElement;
+    expect(link.href).toBe('blob:test-object-url');
+    expect(link.download).toMatch(/^ugc-gen-\d+\.png$/);
+  });
+});
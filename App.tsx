@@ -1,161 +1,669 @@
 
-import React, { useState, useCallback } from 'react';
-import { ImageUploader } from './components/ImageUploader';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { SubjectList, createSubjectSlot } from './components/SubjectList';
 import { Spinner } from './components/Spinner';
-import { SparklesIcon, DownloadIcon } from './components/Icons';
-import type { ImageState } from './types';
-import { generateUGCImage } from './services/geminiService';
-
-const CATEGORIES = [
-  {
-    id: "lifestyle",
-    label: "Lifestyle & Daily Routine",
-    icon: "🏠",
-    subOptions: [
-      "Home",
-      "Living Room",
-      "Bedroom",
-      "Kitchen",
-      "Balcony",
-      "Office desk setup / workspace",
-      "Co-working space",
-      "Study table / college library",
-      "Gym or fitness studio",
-      "Morning routine bathroom setup",
-      "Kitchen countertop"
-    ]
-  },
-  {
-    id: "outdoor",
-    label: "Outdoor & Public Spaces",
-    icon: "🏙️",
-    subOptions: [
-      "Café / Coffee shop",
-      "Street style shots",
-      "Shopping mall / storefronts",
-      "Park or garden",
-      "Beach / lake side",
-      "Rooftop terrace",
-      "Outdoor market",
-      "Metro station aesthetics"
-    ]
-  },
-  {
-    id: "creative",
-    label: "Creative & Aesthetic Spots",
-    icon: "🎨",
-    subOptions: [
-      "Neon light rooms",
-      "Art gallery or museum",
-      "Vintage/retro-themed cafés",
-      "Bookstore or reading corner",
-      "Graffiti walls",
-      "Minimal clean white wall",
-      "Wooden textured background",
-      "Aesthetic curtains with natural light"
-    ]
-  },
-  {
-    id: "social",
-    label: "Social & Event Spaces",
-    icon: "🎉",
-    subOptions: [
-      "Night club environment",
-      "College campus",
-      "Event stalls",
-      "Music concert ambience",
-      "Friends’ hangout spaces",
-      "Restaurant table setup"
-    ]
-  },
-  {
-    id: "nature",
-    label: "Nature & Travel Themes",
-    icon: "🌿",
-    subOptions: [
-      "Forest trail",
-      "Hill station viewpoint",
-      "Waterfall spot",
-      "Bicycle ride background",
-      "Car interior shots",
-      "Travel suitcase / airport lounge"
-    ]
-  },
-  {
-    id: "product",
-    label: "Product-Focused",
-    icon: "📸",
-    subOptions: [
-      "Flat-lay studio setup",
-      "Solid color backdrop",
-      "Minimal aesthetic shelf styling",
-      "Marble/stone textured surface",
-      "Wooden tabletop",
-      "Soft fabric textures",
-      "LED-lit product table"
-    ]
-  }
-];
+import { ResultsGallery } from './components/ResultsGallery';
+import { HistoryView } from './components/HistoryView';
+import { PromptBuilder } from './components/PromptBuilder';
+import { RefineStudio } from './components/RefineStudio';
+import { SceneCatalogManager } from './components/SceneCatalogManager';
+import { BrandKitManager } from './components/BrandKitManager';
+import { PersonaLibrary } from './components/PersonaLibrary';
+import { ProductCatalog } from './components/ProductCatalog';
+import { StoryBuilder } from './components/StoryBuilder';
+import { UsageDashboard } from './components/UsageDashboard';
+import { SparklesIcon } from './components/Icons';
+import { EMPTY_IMAGE_STATE, type BrandKit, type CaptionLength, type CaptionTone, type CatalogProduct, type ExportFit, type ExportSettings, type GenerationJob, type GenerationRecord, type ImageState, type InlineImage, type Persona, type PlatformPreset, type PostCopy, type PromptSettings, type ReferenceImage, type RefinementSession, type SceneCategory, type StoryFrame, type Storyline, type SubjectSlot, type UsageAttempt, type UsageEntry, type UsageSettings } from './types';
+import { getImageProvider } from './services/imageProvider';
+import { saveGeneration, updateGeneration } from './services/historyService';
+import { DEFAULT_PROMPT_SETTINGS, buildPromptTemplate } from './services/promptService';
+import { createJobs, type JobScene } from './services/batchService';
+import { createJobQueue, discardPendingJobs, loadPendingJobs } from './services/jobQueue';
+import { BudgetExceededError, toGenerationError } from './services/generationErrors';
+import { DEFAULT_PLATFORM, PLATFORM_PRESETS, getPlatformPreset } from './services/platformService';
+import { exportImage, exportZip, loadExportSettings, saveExportSettings, type ExportSource } from './services/exportService';
+import { loadCatalog, saveCatalog, getSceneDescription } from './services/sceneCatalog';
+import { deleteProduct, listProducts, saveProducts, toProductReference } from './services/productCatalogService';
+import { createFrames, generateFrames, loadStoryline, moveItem, saveStoryline } from './services/storyService';
+import { deletePersona, getConsentIssue, listPersonas, personaRole, savePersona } from './services/personaService';
+import { applyBrandKit, buildBrandGuidelines, filterCatalogForKit, loadActiveBrandKitId, loadBrandKits, saveActiveBrandKitId, saveBrandKits } from './services/brandKitService';
+import { createUsageEntry, dayKey, getBudgetIssue, listUsage, loadUsageSettings, saveUsageEntry, saveUsageSettings, toUsageCsv } from './services/usageService';
+import { addVersion, createSession, dataUrlToInlineImage, getVersion } from './services/refinementService';
+import { MAX_PAYLOAD_BYTES, MAX_REFERENCE_IMAGES, estimatePayloadBytes, formatBytes, validatePayload } from './services/payloadService';
+
+const VARIATION_OPTIONS = [1, 2, 3, 4];
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+/** Persona edits arrive per keystroke; each persona, photos included, is written once typing pauses this long. */
+const PERSONA_SAVE_DELAY_MS = 600;
+
+const imageProvider = getImageProvider();
+
+/** Restores a stored inline image into uploader state so it can be re-cropped or reused. */
+const toImageState = (image: InlineImage): ImageState => {
+  const dataUrl = `data:${image.mimeType};base64,${image.base64}`;
+  return { ...EMPTY_IMAGE_STATE, preview: dataUrl, croppedBase64: image.base64, source: dataUrl };
+};
+
+// The ImageUploader resizes and converts to image/jpeg,
+// so we use 'image/jpeg' as the explicit MIME type for best compatibility.
+// Product cutouts are PNG so they keep their transparency.
+const toReferenceImages = (slots: SubjectSlot[]): ReferenceImage[] =>
+  slots.flatMap(({ image, role }) => {
+    if (image.useCutout && image.cutout) {
+      return [{ base64: image.cutout.split(',')[1], mimeType: 'image/png', role }];
+    }
+    return image.croppedBase64 ? [{ base64: image.croppedBase64, mimeType: 'image/jpeg', role }] : [];
+  });
+
+type View = 'studio' | 'carousel' | 'history' | 'catalog' | 'brands' | 'people' | 'products' | 'usage';
 
 const App: React.FC = () => {
-  const [personImage, setPersonImage] = useState<ImageState>({ file: null, preview: null, croppedBase64: null });
-  const [productImage, setProductImage] = useState<ImageState>({ file: null, preview: null, croppedBase64: null });
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [peopleSlots, setPeopleSlots] = useState<SubjectSlot[]>(() => [createSubjectSlot()]);
+  const [productSlots, setProductSlots] = useState<SubjectSlot[]>(() => [createSubjectSlot()]);
+  const people = useMemo(() => toReferenceImages(peopleSlots), [peopleSlots]);
+  const products = useMemo(() => toReferenceImages(productSlots), [productSlots]);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<View>('studio');
   
-  // Selection State
-  const [activeCategory, setActiveCategory] = useState<string>("lifestyle");
-  const [selectedSubScene, setSelectedSubScene] = useState<string | null>(null);
+  // Scene Catalog & Selection State
+  const [categories, setCategories] = useState<SceneCategory[]>(loadCatalog);
+  const [activeCategory, setActiveCategory] = useState<string>(() => categories[0]?.id ?? "");
+  const [selectedSceneIds, setSelectedSceneIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    try {
+      saveCatalog(categories);
+    } catch (err) {
+      console.error("Failed to save scene catalog:", err);
+    }
+  }, [categories]);
+
+  // Brand Kit State
+  const [brandKits, setBrandKits] = useState<BrandKit[]>(loadBrandKits);
+  const [activeBrandKitId, setActiveBrandKitId] = useState<string | null>(loadActiveBrandKitId);
+  const activeBrandKit = brandKits.find(kit => kit.id === activeBrandKitId) ?? null;
+
+  useEffect(() => {
+    try {
+      saveBrandKits(brandKits);
+      saveActiveBrandKitId(activeBrandKitId);
+    } catch (err) {
+      console.error("Failed to save brand kits:", err);
+    }
+  }, [brandKits, activeBrandKitId]);
+
+  // Persona Library State
+  const [personas, setPersonas] = useState<Persona[]>([]);
+
+  useEffect(() => {
+    listPersonas()
+      .then(setPersonas)
+      .catch(err => console.error("Failed to load personas:", err));
+  }, []);
+
+  const pendingPersonaSaves = useRef(new Map<string, { persona: Persona; timer: ReturnType<typeof setTimeout> }>());
+
+  const flushPersonaSave = useCallback((id: string) => {
+    const pending = pendingPersonaSaves.current.get(id);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pendingPersonaSaves.current.delete(id);
+    savePersona(pending.persona).catch(err => console.error("Failed to save persona:", err));
+  }, []);
+
+  // Edits still waiting to be written are saved when the page is left.
+  useEffect(() => {
+    const flushAll = () => [...pendingPersonaSaves.current.keys()].forEach(flushPersonaSave);
+    window.addEventListener('pagehide', flushAll);
+    return () => {
+      window.removeEventListener('pagehide', flushAll);
+      flushAll();
+    };
+  }, [flushPersonaSave]);
+
+  const handleSavePersona = useCallback((persona: Persona) => {
+    setPersonas(prev => prev.some(p => p.id === persona.id) ? prev.map(p => p.id === persona.id ? persona : p) : [...prev, persona]);
+    clearTimeout(pendingPersonaSaves.current.get(persona.id)?.timer);
+    const timer = setTimeout(() => flushPersonaSave(persona.id), PERSONA_SAVE_DELAY_MS);
+    pendingPersonaSaves.current.set(persona.id, { persona, timer });
+  }, [flushPersonaSave]);
+
+  const handleDeletePersona = useCallback((id: string) => {
+    // A pending save would bring the persona back after it is deleted.
+    clearTimeout(pendingPersonaSaves.current.get(id)?.timer);
+    pendingPersonaSaves.current.delete(id);
+    setPersonas(prev => prev.filter(p => p.id !== id));
+    deletePersona(id).catch(err => console.error("Failed to delete persona:", err));
+  }, []);
+
+  // Product Catalog State
+  const [catalogProducts, setCatalogProducts] = useState<CatalogProduct[]>([]);
+
+  useEffect(() => {
+    listProducts()
+      .then(setCatalogProducts)
+      .catch(err => console.error("Failed to load product catalog:", err));
+  }, []);
+
+  const handleImportProducts = useCallback((imported: CatalogProduct[]) => {
+    setCatalogProducts(prev => {
+      const skus = new Set(imported.map(p => p.sku));
+      return [...prev.filter(p => !skus.has(p.sku)), ...imported].sort((a, b) => a.title.localeCompare(b.title));
+    });
+    saveProducts(imported).catch(err => console.error("Failed to save products:", err));
+  }, []);
+
+  const handleDeleteProducts = useCallback((skus: string[]) => {
+    setCatalogProducts(prev => prev.filter(p => !skus.includes(p.sku)));
+    Promise.all(skus.map(deleteProduct)).catch(err => console.error("Failed to delete products:", err));
+  }, []);
+
+  // The scene picker only offers what the active brand kit allows.
+  const visibleCategories = useMemo(() => filterCatalogForKit(categories, activeBrandKit), [categories, activeBrandKit]);
+
+  // Selections are resolved against the live catalog so renamed scenes update and deleted or disallowed ones drop out.
+  const selectedScenes = useMemo<(JobScene & { id: string })[]>(() => selectedSceneIds.flatMap(id => {
+    for (const category of visibleCategories) {
+      const option = category.subOptions.find(o => o.id === id);
+      if (option) return [{ id, label: option.label, description: getSceneDescription(option), categoryId: category.id }];
+    }
+    return [];
+  }), [selectedSceneIds, visibleCategories]);
+
+  // Batch Settings
+  const [variations, setVariations] = useState<number>(1);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [platformId, setPlatformId] = useState<string>(() => activeBrandKit?.defaultPlatformId ?? DEFAULT_PLATFORM.id);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+
+  useEffect(() => {
+    try {
+      saveExportSettings(exportSettings);
+    } catch (err) {
+      console.error("Failed to save export settings:", err);
+    }
+  }, [exportSettings]);
+
+  // Prompt State
+  const [promptSettings, setPromptSettings] = useState<PromptSettings>(DEFAULT_PROMPT_SETTINGS);
+  const [promptOverride, setPromptOverride] = useState<string | null>(null);
+  const promptTemplate = useMemo(
+    () => promptOverride ?? buildPromptTemplate(promptSettings),
+    [promptOverride, promptSettings]
+  );
+
+  // Refinement State
+  const [refineSessions, setRefineSessions] = useState<Record<string, RefinementSession>>({});
+  const [refiningJobId, setRefiningJobId] = useState<string | null>(null);
+  const [isRefining, setIsRefining] = useState<boolean>(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
+
+  // Usage Ledger State
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [usageEntries, setUsageEntries] = useState<UsageEntry[]>([]);
+  const [isLedgerLoaded, setIsLedgerLoaded] = useState(false);
+  const [sessionStartedAt] = useState(() => Date.now());
+  const project = activeBrandKit?.name ?? "";
+  const budgetIssue = getBudgetIssue(usageEntries, usageSettings, project, sessionStartedAt);
+
+  // Mirrors usageEntries without waiting for a render, so a job starting right after another finishes sees its cost.
+  const usageLedger = useRef<UsageEntry[]>([]);
+
+  useEffect(() => {
+    listUsage()
+      .then(entries => {
+        usageLedger.current = [...entries.filter(entry => !usageLedger.current.some(p => p.id === entry.id)), ...usageLedger.current];
+        setUsageEntries(usageLedger.current);
+      })
+      .catch(err => console.error("Failed to load usage:", err))
+      .finally(() => setIsLedgerLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    try {
+      saveUsageSettings(usageSettings);
+    } catch (err) {
+      console.error("Failed to save usage settings:", err);
+    }
+  }, [usageSettings]);
+
+  // The queue is created once, so attempts read the current project and settings through a ref.
+  const usageContext = useRef({ project, settings: usageSettings });
+  usageContext.current = { project, settings: usageSettings };
+
+  const recordAttempt = useCallback((attempt: UsageAttempt) => {
+    const entry = createUsageEntry(attempt, usageContext.current.project, usageContext.current.settings.prices);
+    usageLedger.current = [...usageLedger.current, entry];
+    setUsageEntries(usageLedger.current);
+    saveUsageEntry(entry).catch(err => console.error("Failed to save usage:", err));
+  }, []);
 
-  const handleGenerate = useCallback(async () => {
-    if (!personImage.croppedBase64 || !productImage.croppedBase64) {
-      setError("Please upload both a person and a product image.");
+  /** The budget issue as of now, for code that runs outside a render. */
+  const checkBudget = useCallback(
+    () => getBudgetIssue(usageLedger.current, usageContext.current.settings, usageContext.current.project, sessionStartedAt),
+    [sessionStartedAt]
+  );
+
+  const handleExportUsage = () => {
+    saveBlob(new Blob([toUsageCsv(usageEntries)], { type: 'text/csv' }), `ugc-usage-${dayKey(Date.now())}.csv`);
+  };
+
+  const updateJob = useCallback((id: string, patch: Partial<GenerationJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+  }, []);
+
+  const [queue] = useState(() => createJobQueue({
+    run: async (job, signal) => {
+      // Jobs already waiting when a budget is reached fail here instead of being sent.
+      const issue = checkBudget();
+      if (issue) throw new BudgetExceededError(issue);
+      const { image, model, prompt } = await imageProvider.generate({
+        people: job.people,
+        products: job.products,
+        sceneDescription: job.sceneDescription,
+        platform: getPlatformPreset(job.platformId),
+        promptTemplate: job.promptTemplate,
+      }, { signal, onAttempt: recordAttempt });
+      return { image: `data:${image.mimeType};base64,${image.base64}`, model, prompt };
+    },
+    onUpdate: updateJob,
+    onSuccess: (job) => {
+      saveGeneration({
+        id: job.id,
+        createdAt: Date.now(),
+        image: job.image!,
+        people: job.people,
+        products: job.products,
+        scene: job.scene,
+        categoryId: job.categoryId,
+        platformId: job.platformId,
+        prompt: job.prompt!,
+        model: job.model!,
+        rating: job.rating,
+        isWinner: job.isWinner,
+        copy: job.copy,
+      }).catch(err => console.error("Failed to save generation to history:", err));
+    },
+    concurrency,
+  }));
+
+  useEffect(() => {
+    queue.setConcurrency(concurrency);
+  }, [queue, concurrency]);
+
+  // Resume jobs that were still queued when the page was last closed, once the ledger can tell whether a budget allows it.
+  useEffect(() => {
+    if (!isLedgerLoaded) return;
+    loadPendingJobs()
+      .then(pending => {
+        if (pending.length === 0) return;
+        const issue = checkBudget();
+        const restored = issue
+          ? pending.map(job => ({ ...job, status: 'failed' as const, error: issue, errorCode: 'budget' as const }))
+          : pending;
+        setJobs(prev => [...restored.filter(job => !prev.some(p => p.id === job.id)), ...prev]);
+        if (issue) discardPendingJobs(pending.map(job => job.id));
+        else queue.enqueue(pending);
+      })
+      .catch(err => console.error("Failed to restore queued jobs:", err));
+  }, [queue, isLedgerLoaded, checkBudget]);
+
+  const isLoading = jobs.some(job => job.status === 'queued' || job.status === 'running');
+
+  const runBatch = useCallback((newJobs: GenerationJob[]) => {
+    setError(null);
+    setJobs(prev => [...newJobs, ...prev]);
+    queue.enqueue(newJobs);
+  }, [queue]);
+
+  const handleGenerate = useCallback(() => {
+    if (budgetIssue) {
+      setError(budgetIssue);
       return;
     }
 
-    if (!selectedSubScene) {
-      setError("Please select a specific scene atmosphere.");
+    const payloadProblem = validatePayload({ people, products });
+    if (payloadProblem) {
+      setError(payloadProblem);
       return;
     }
 
-    setIsLoading(true);
-    setError(null);
-    setGeneratedImage(null);
+    if (selectedScenes.length === 0) {
+      setError("Please select at least one scene atmosphere.");
+      return;
+    }
+
+    runBatch(createJobs({
+      scenes: selectedScenes,
+      variations,
+      platformId,
+      promptTemplate: applyBrandKit(promptTemplate, activeBrandKit),
+      people,
+      products,
+    }));
+  }, [people, products, selectedScenes, variations, platformId, promptTemplate, activeBrandKit, runBatch, budgetIssue]);
+
+  /** Runs the studio's people, scenes and settings once per catalog product, each product on its own. */
+  const handleGenerateForProducts = useCallback((selected: CatalogProduct[]) => {
+    const skipped: string[] = [];
+    const batch = selected.flatMap(product => {
+      const reference = toProductReference(product);
+      const problem = reference ? validatePayload({ people, products: [reference] }) : "no image";
+      if (!reference || problem) {
+        skipped.push(`${product.sku} (${problem})`);
+        return [];
+      }
+      return createJobs({
+        scenes: selectedScenes.map(scene => ({ ...scene, label: `${scene.label} · ${product.title}` })),
+        variations,
+        platformId,
+        promptTemplate: applyBrandKit(promptTemplate, activeBrandKit),
+        people,
+        products: [reference],
+      });
+    });
+    if (batch.length > 0) runBatch(batch);
+    if (skipped.length > 0) setError(`Skipped ${skipped.length} of ${selected.length} products: ${skipped.join('; ')}`);
+    if (batch.length > 0 || skipped.length > 0) setView('studio');
+  }, [people, selectedScenes, variations, platformId, promptTemplate, activeBrandKit, runBatch]);
+
+  // Carousel State
+  const [storyline, setStoryline] = useState<Storyline>(loadStoryline);
+  const [storyFrames, setStoryFrames] = useState<StoryFrame[]>([]);
+  const [storyController, setStoryController] = useState<AbortController | null>(null);
+
+  useEffect(() => {
+    try {
+      saveStoryline(storyline);
+    } catch (err) {
+      console.error("Failed to save storyline:", err);
+    }
+  }, [storyline]);
+
+  const updateStoryFrame = useCallback((id: string, patch: Partial<StoryFrame>) => {
+    setStoryFrames(prev => prev.map(frame => frame.id === id ? { ...frame, ...patch } : frame));
+  }, []);
+
+  /** Generates the given frames in order; the carousel does not use the job queue because each frame waits for the ones before it. */
+  const runStory = useCallback(async (frames: StoryFrame[], indexes: number[]) => {
+    const controller = new AbortController();
+    setStoryController(controller);
+    setStoryFrames(frames);
+    try {
+      await generateFrames(frames, indexes, {
+        // Like queued jobs, frames after a budget is reached fail instead of being sent.
+        generate: async (request, options) => {
+          const issue = checkBudget();
+          if (issue) throw new BudgetExceededError(issue);
+          return imageProvider.generate(request, { ...options, onAttempt: recordAttempt });
+        },
+        request: {
+          people,
+          products,
+          platform: getPlatformPreset(platformId),
+          promptTemplate: applyBrandKit(promptTemplate, activeBrandKit),
+        },
+        setting: storyline.setting,
+        onUpdate: updateStoryFrame,
+        signal: controller.signal,
+      });
+    } finally {
+      setStoryController(null);
+    }
+  }, [people, products, platformId, promptTemplate, activeBrandKit, storyline.setting, updateStoryFrame, recordAttempt, checkBudget]);
+
+  const handleGenerateStory = useCallback(() => {
+    const frames = createFrames(storyline);
+    runStory(frames, frames.map((_, index) => index));
+  }, [storyline, runStory]);
+
+  const handleRegenerate = useCallback((record: GenerationRecord) => {
+    setPeopleSlots(record.people.map(image => createSubjectSlot(toImageState(image), image.role)));
+    setProductSlots(record.products.map(image => createSubjectSlot(toImageState(image), image.role)));
+    const option = categories.flatMap(c => c.subOptions).find(o => o.label === record.scene);
+    setSelectedSceneIds(option ? [option.id] : []);
+    setPlatformId(record.platformId);
+    setView('studio');
+    if (budgetIssue) {
+      setError(budgetIssue);
+      return;
+    }
+
+    runBatch(createJobs({
+      scenes: [{ label: record.scene, description: record.scene, categoryId: record.categoryId }],
+      variations: 1,
+      platformId: record.platformId,
+      // The stored prompt is already filled in, so it is reused verbatim.
+      promptTemplate: record.prompt,
+      people: record.people,
+      products: record.products,
+    }));
+  }, [categories, runBatch, budgetIssue]);
+
+  const handleRetryJob = useCallback((jobId: string) => {
+    const job = jobs.find(j => j.id === jobId);
+    if (budgetIssue) {
+      setError(budgetIssue);
+      return;
+    }
+    if (job) queue.enqueue([job]);
+  }, [jobs, queue, budgetIssue]);
+
+  const handleDiscardJob = useCallback((jobId: string) => {
+    setJobs(prev => prev.filter(job => job.id !== jobId));
+  }, []);
+
+  const handleOpenRefine = useCallback((jobId: string) => {
+    const job = jobs.find(j => j.id === jobId);
+    if (!job?.image) return;
+    const root = { image: job.image, prompt: job.prompt ?? "", model: job.model ?? "" };
+    setRefineSessions(prev => prev[jobId] ? prev : { ...prev, [jobId]: createSession(jobId, root) });
+    setRefineError(null);
+    setRefiningJobId(jobId);
+  }, [jobs]);
+
+  const updateRefineSession = useCallback((jobId: string, update: (session: RefinementSession) => RefinementSession) => {
+    setRefineSessions(prev => prev[jobId] ? { ...prev, [jobId]: update(prev[jobId]) } : prev);
+  }, []);
+
+  const handleRefine = useCallback(async (parentVersionId: string, instruction: string) => {
+    const job = jobs.find(j => j.id === refiningJobId);
+    const parent = job && refineSessions[job.id] && getVersion(refineSessions[job.id], parentVersionId);
+    if (!job || !parent) return;
+    if (budgetIssue) {
+      setRefineError(budgetIssue);
+      return;
+    }
+
+    const request = {
+      image: dataUrlToInlineImage(parent.image),
+      instruction,
+      people: job.people,
+      products: job.products,
+      platform: getPlatformPreset(job.platformId),
+      brandGuidelines: activeBrandKit ? buildBrandGuidelines(activeBrandKit) : undefined,
+    };
+    const payloadProblem = validatePayload(request);
+    if (payloadProblem) {
+      setRefineError(payloadProblem);
+      return;
+    }
 
+    setIsRefining(true);
+    setRefineError(null);
     try {
-      // The ImageUploader now resizes and converts to image/jpeg, 
-      // so we use 'image/jpeg' as the explicit MIME type for best compatibility.
-      const resultBase64 = await generateUGCImage(
-        personImage.croppedBase64,
-        'image/jpeg',
-        productImage.croppedBase64,
-        'image/jpeg',
-        selectedSubScene
-      );
-
-      setGeneratedImage(`data:image/png;base64,${resultBase64}`);
-    } catch (err: any) {
+      const { image, model, prompt } = await imageProvider.refine(request, { onAttempt: recordAttempt });
+      updateRefineSession(job.id, session => addVersion(session, parentVersionId, {
+        image: `data:${image.mimeType};base64,${image.base64}`,
+        instruction,
+        prompt,
+        model,
+      }));
+    } catch (err) {
       console.error(err);
-      setError(err.message || "An unexpected error occurred. Please check your connection and try again.");
+      setRefineError(toGenerationError(err).message);
     } finally {
-      setIsLoading(false);
+      setIsRefining(false);
     }
-  }, [personImage, productImage, selectedSubScene]);
+  }, [jobs, refiningJobId, refineSessions, updateRefineSession, budgetIssue, recordAttempt, activeBrandKit]);
+
+  const handleApplyVersion = useCallback((versionId: string) => {
+    if (!refiningJobId) return;
+    const version = getVersion(refineSessions[refiningJobId], versionId);
+    if (version) {
+      const applied = { image: version.image, model: version.model, prompt: version.prompt };
+      updateJob(refiningJobId, applied);
+      updateGeneration(refiningJobId, applied).catch(err => console.error("Failed to save refined image:", err));
+    }
+    setRefiningJobId(null);
+  }, [refiningJobId, refineSessions, updateJob]);
+
+  const toggleScene = (sceneId: string) => {
+    setSelectedSceneIds(prev => prev.includes(sceneId) ? prev.filter(id => id !== sceneId) : [...prev, sceneId]);
+  };
   
-  const handleDownload = () => {
-    if (!generatedImage) return;
+  const saveBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
-    link.href = generatedImage;
-    link.download = `ugc-gen-${Date.now()}.png`;
+    link.href = url;
+    link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const jobExportSource = (job: GenerationJob): ExportSource => ({
+    image: job.image!,
+    scene: job.scene,
+    prompt: job.prompt ?? "",
+    model: job.model ?? "",
+    createdAt: Date.now(),
+  });
+
+  const handleDownload = async (job: GenerationJob) => {
+    if (!job.image) return;
+    try {
+      const { blob, extension } = await exportImage(jobExportSource(job), exportSettings);
+      saveBlob(blob, `ugc-gen-${Date.now()}.${extension}`);
+    } catch (err) {
+      console.error("Download failed:", err);
+    }
+  };
+
+  const handleDownloadRecord = async (record: GenerationRecord) => {
+    try {
+      const { blob, extension } = await exportImage(record, exportSettings);
+      saveBlob(blob, `ugc-gen-${record.createdAt}.${extension}`);
+    } catch (err) {
+      console.error("Download failed:", err);
+    }
+  };
+
+  const handleExport = async (job: GenerationJob, preset: PlatformPreset, fit: ExportFit) => {
+    if (!job.image) return;
+    try {
+      const { blob, extension } = await exportImage(jobExportSource(job), exportSettings, { preset, fit });
+      saveBlob(blob, `ugc-${preset.id}-${preset.width}x${preset.height}-${Date.now()}.${extension}`);
+    } catch (err) {
+      console.error("Export failed:", err);
+    }
   };
 
-  const isButtonDisabled = !personImage.croppedBase64 || !productImage.croppedBase64 || !selectedSubScene || isLoading;
+  const handleRateJob = useCallback((jobId: string, rating: number | null) => {
+    updateJob(jobId, { rating });
+    updateGeneration(jobId, { rating }).catch(err => console.error("Failed to save rating:", err));
+  }, [updateJob]);
+
+  /** A batch keeps one winner, so picking one clears any other in its batch as well as in the compared set. */
+  const handlePickWinner = useCallback((winnerId: string, comparedIds: string[]) => {
+    const winner = jobs.find(job => job.id === winnerId);
+    const replaced = jobs.filter(job =>
+      job.isWinner && job.id !== winnerId && (comparedIds.includes(job.id) || job.batchId === winner?.batchId)
+    );
+    const setWinner = (id: string, isWinner: boolean) => {
+      updateJob(id, { isWinner });
+      updateGeneration(id, { isWinner }).catch(err => console.error("Failed to save winner:", err));
+    };
+    setWinner(winnerId, true);
+    replaced.forEach(job => setWinner(job.id, false));
+  }, [jobs, updateJob]);
+
+  const handleExportStory = async () => {
+    const finished = storyFrames.filter(frame => frame.status === 'succeeded' && frame.image);
+    try {
+      const zip = await exportZip(finished.map(frame => ({
+        id: frame.id,
+        image: frame.image!,
+        scene: frame.beat.label,
+        prompt: frame.prompt ?? "",
+        model: frame.model ?? "",
+        platformId,
+        createdAt: Date.now(),
+      })), exportSettings);
+      saveBlob(zip, `ugc-carousel-${Date.now()}.zip`);
+    } catch (err) {
+      console.error("Carousel export failed:", err);
+    }
+  };
 
-  const currentCategoryData = CATEGORIES.find(c => c.id === activeCategory);
+  const handleWriteCopy = useCallback(async (jobId: string, tone: CaptionTone, length: CaptionLength) => {
+    const job = jobs.find(j => j.id === jobId);
+    if (!job?.image) return;
+    // The copy panel shows what is thrown, as it does for failed requests.
+    if (budgetIssue) throw new BudgetExceededError(budgetIssue);
+    const { caption, hashtags, altText } = await imageProvider.writeCopy({
+      image: dataUrlToInlineImage(job.image),
+      scene: job.sceneDescription,
+      products: job.products,
+      platform: getPlatformPreset(job.platformId),
+      tone,
+      length,
+    }, { onAttempt: recordAttempt });
+    const copy = { caption, hashtags, altText, tone, length };
+    updateJob(jobId, { copy });
+    updateGeneration(jobId, { copy }).catch(err => console.error("Failed to save post copy:", err));
+  }, [jobs, updateJob, recordAttempt, budgetIssue]);
+
+  const handleCopyChange = useCallback((jobId: string, copy: PostCopy) => {
+    updateJob(jobId, { copy });
+    updateGeneration(jobId, { copy }).catch(err => console.error("Failed to save post copy:", err));
+  }, [updateJob]);
+
+  const handleDownloadAll = async () => {
+    const finished = jobs.filter(job => job.status === 'succeeded' && job.image);
+    try {
+      const zip = await exportZip(finished.map(job => ({ ...jobExportSource(job), id: job.id, platformId: job.platformId, copy: job.copy })), exportSettings);
+      saveBlob(zip, `ugc-batch-${Date.now()}.zip`);
+    } catch (err) {
+      console.error("ZIP export failed:", err);
+    }
+  };
+
+  const isButtonDisabled = people.length === 0 || products.length === 0 || selectedScenes.length === 0 || isLoading || budgetIssue !== null;
+  const payloadBytes = estimatePayloadBytes({ people, products });
+
+  /** Puts a persona's primary photo into the first empty person slot, or a new one if there is room. */
+  const handleUsePersona = (id: string) => {
+    const persona = personas.find(p => p.id === id);
+    if (!persona?.photos[0] || getConsentIssue(persona)) return;
+    const slot = createSubjectSlot(toImageState(persona.photos[0]), personaRole(persona));
+    setPeopleSlots(prev => {
+      const empty = prev.findIndex(s => !s.image.croppedBase64);
+      if (empty !== -1) return prev.map((s, i) => i === empty ? { ...slot, id: s.id } : s);
+      return prev.length + productSlots.length < MAX_REFERENCE_IMAGES ? [...prev, slot] : prev;
+    });
+  };
+
+  const handleActivateBrandKit = (id: string | null) => {
+    setActiveBrandKitId(id);
+    const kit = brandKits.find(k => k.id === id);
+    if (kit) setPlatformId(kit.defaultPlatformId);
+  };
+
+  const currentCategoryData = visibleCategories.find(c => c.id === activeCategory) ?? visibleCategories[0];
+  const totalImages = selectedScenes.length * variations;
 
   return (
     <div className="min-h-screen relative overflow-x-hidden bg-slate-50 selection:bg-indigo-500 selection:text-white pb-20 w-full">
@@ -176,171 +684,389 @@ const App: React.FC = () => {
           <p className="text-base md:text-xl text-slate-600 max-w-2xl mx-auto leading-relaxed px-2">
             Generate authentic social media content in seconds. Blend your product with any model in any vibe.
           </p>
+          {imageProvider.id !== 'gemini' && (
+            <span className="inline-block px-3 py-1 rounded-full bg-amber-100 text-amber-700 text-xs font-bold uppercase tracking-wider">
+              {imageProvider.label} provider
+            </span>
+          )}
         </header>
 
+        {/* View Switcher */}
+        <nav className="flex flex-wrap justify-center gap-2 mb-8">
+          {(['studio', 'carousel', 'history', 'catalog', 'products', 'brands', 'people', 'usage'] as const).map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-5 py-2 rounded-xl text-sm font-bold capitalize transition-all duration-200
+                ${view === v
+                  ? 'bg-slate-800 text-white shadow-md'
+                  : 'bg-white text-slate-600 border border-slate-200 hover:border-indigo-300'
+                }`}
+            >
+              {v}
+            </button>
+          ))}
+        </nav>
+
         {/* Main Work Surface */}
         <main className="space-y-6 md:space-y-8">
-          
-          {/* Step 1: Uploads */}
-          <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10">
-            <div className="flex items-center gap-3 mb-6 md:mb-8 border-b border-slate-200/60 pb-4 md:pb-6">
-              <div className="flex items-center justify-center w-8 h-8 rounded-full bg-slate-900 text-white font-bold text-sm shrink-0">1</div>
-              <h2 className="text-lg md:text-xl font-bold text-slate-800">Upload Assets</h2>
-            </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
-              <ImageUploader
-                id="person-uploader"
-                title="Model / Person"
-                description="Upload a clear photo of the person."
-                imageState={personImage}
-                setImageState={setPersonImage}
-              />
-              <ImageUploader
-                id="product-uploader"
-                title="Product"
-                description="Upload the product image."
-                imageState={productImage}
-                setImageState={setProductImage}
-              />
-            </div>
-          </section>
-
-          {/* Step 2: Scene Selection */}
-          <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10 transition-all duration-300">
-             <div className="flex items-center gap-3 mb-6">
-              <div className="flex items-center justify-center w-8 h-8 rounded-full bg-slate-900 text-white font-bold text-sm shrink-0">2</div>
-              <h2 className="text-lg md:text-xl font-bold text-slate-800">Select Atmosphere</h2>
-            </div>
-
-            <div className="space-y-6">
-              {/* Main Categories */}
-              <div className="flex flex-wrap gap-2 md:gap-3 pb-4 border-b border-slate-200/50">
-                {CATEGORIES.map((category) => (
-                  <button
-                    key={category.id}
-                    onClick={() => setActiveCategory(category.id)}
-                    className={`flex items-center gap-2 px-3 py-2 md:px-4 md:py-2.5 rounded-xl transition-all duration-200 text-xs md:text-sm font-semibold
-                      ${activeCategory === category.id
-                        ? 'bg-slate-800 text-white shadow-md transform scale-[1.02]'
-                        : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 hover:border-indigo-300'
-                      }`}
+          {view === 'history' ? (
+            <HistoryView
+              categories={categories}
+              onDownload={handleDownloadRecord}
+              onRegenerate={handleRegenerate}
+            />
+          ) : view === 'brands' ? (
+            <BrandKitManager
+              kits={brandKits}
+              onChange={setBrandKits}
+              categories={categories}
+              activeKitId={activeBrandKitId}
+              onActivate={handleActivateBrandKit}
+            />
+          ) : view === 'people' ? (
+            <PersonaLibrary
+              personas={personas}
+              onSave={handleSavePersona}
+              onDelete={handleDeletePersona}
+            />
+          ) : view === 'products' ? (
+            <ProductCatalog
+              products={catalogProducts}
+              onImport={handleImportProducts}
+              onDelete={handleDeleteProducts}
+              onGenerate={handleGenerateForProducts}
+              generateBlocker={
+                budgetIssue ? budgetIssue
+                  : people.length === 0 ? "Add a person in the studio first."
+                  : selectedScenes.length === 0 ? "Pick at least one scene in the studio first."
+                  : null
+              }
+              imagesPerProduct={selectedScenes.length * variations}
+            />
+          ) : view === 'carousel' ? (
+            <StoryBuilder
+              storyline={storyline}
+              onStorylineChange={setStoryline}
+              frames={storyFrames}
+              isGenerating={storyController !== null}
+              onGenerate={handleGenerateStory}
+              onCancel={() => storyController?.abort()}
+              onRetryFrame={(index) => runStory(storyFrames, [index])}
+              onMoveFrame={(from, to) => setStoryFrames(prev => moveItem(prev, from, to))}
+              onExport={handleExportStory}
+              generateBlocker={budgetIssue ?? validatePayload({ people, products })}
+            />
+          ) : view === 'usage' ? (
+            <UsageDashboard
+              entries={usageEntries}
+              settings={usageSettings}
+              onSettingsChange={setUsageSettings}
+              projects={brandKits.map(kit => kit.name)}
+              sessionStartedAt={sessionStartedAt}
+              onExport={handleExportUsage}
+            />
+          ) : view === 'catalog' ? (
+            <SceneCatalogManager
+              categories={categories}
+              onChange={setCategories}
+            />
+          ) : (
+            <>
+              {/* Brand Kit */}
+              <div className="flex flex-wrap items-center justify-center gap-3 text-sm">
+                <label className="flex items-center gap-2 font-semibold text-slate-600">
+                  Brand kit
+                  <select
+                    value={activeBrandKitId ?? ""}
+                    onChange={(e) => handleActivateBrandKit(e.target.value || null)}
+                    className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white"
                   >
-                    <span>{category.icon}</span>
-                    <span>{category.label}</span>
-                  </button>
-                ))}
+                    <option value="">None</option>
+                    {brandKits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+                  </select>
+                </label>
+                <button onClick={() => setView('brands')} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+                  Manage kits
+                </button>
               </div>
 
-              {/* Sub Options */}
-              <div>
-                <h3 className="text-xs md:text-sm font-bold text-slate-500 uppercase tracking-wide mb-3 px-1">
-                  {currentCategoryData?.label} Options
-                </h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
-                  {currentCategoryData?.subOptions.map((subOption) => (
-                    <button
-                      key={subOption}
-                      onClick={() => setSelectedSubScene(subOption)}
-                      className={`text-left px-4 py-3 rounded-xl border transition-all duration-200 text-sm
-                        ${selectedSubScene === subOption
-                          ? 'bg-indigo-50 border-indigo-500 text-indigo-700 shadow-sm ring-1 ring-indigo-500 font-medium'
-                          : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300 hover:shadow-sm'
-                        }`}
+              {/* Step 1: Uploads */}
+              <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10">
+                <div className="flex items-center gap-3 mb-6 md:mb-8 border-b border-slate-200/60 pb-4 md:pb-6">
+                  <div className="flex items-center justify-center w-8 h-8 rounded-full bg-slate-900 text-white font-bold text-sm shrink-0">1</div>
+                  <h2 className="text-lg md:text-xl font-bold text-slate-800">Upload Assets</h2>
+                  <div className="ml-auto flex items-center gap-3 text-sm">
+                    <select
+                      value=""
+                      onChange={(e) => handleUsePersona(e.target.value)}
+                      className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white font-semibold text-slate-600 max-w-48"
+                      aria-label="Add person from persona library"
                     >
-                      {subOption}
+                      <option value="">Add from personas...</option>
+                      {personas.map(persona => {
+                        const issue = persona.photos.length === 0 ? "No photos" : getConsentIssue(persona);
+                        return (
+                          <option key={persona.id} value={persona.id} disabled={!!issue}>
+                            {persona.name}{issue ? ` (${issue})` : ''}
+                          </option>
+                        );
+                      })}
+                    </select>
+                    <button onClick={() => setView('people')} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+                      Manage people
                     </button>
-                  ))}
+                  </div>
                 </div>
-              </div>
-            </div>
-          </section>
-
-          {/* Action Area */}
-          <div className="flex flex-col items-center justify-center pt-8 pb-12">
-             <button
-              onClick={handleGenerate}
-              disabled={isButtonDisabled}
-              className={`group relative inline-flex items-center justify-center gap-3 px-10 py-5 text-lg font-bold text-white rounded-2xl transition-all duration-300 w-full md:w-auto
-                ${isButtonDisabled
-                  ? 'bg-slate-300 text-slate-500 cursor-not-allowed'
-                  : 'bg-gradient-to-br from-indigo-600 via-purple-600 to-indigo-700 shadow-xl shadow-indigo-200 hover:shadow-2xl hover:shadow-indigo-300 hover:-translate-y-1 active:scale-[0.98]'
-                }`}
-            >
-              {isLoading ? (
-                <>
-                  <Spinner /> <span>Creating magic...</span>
-                </>
-              ) : (
-                <>
-                  <SparklesIcon /> <span>Generate Content</span>
-                </>
-              )}
-            </button>
             
-            {error && (
-              <div className="mt-6 px-6 py-4 bg-red-50 text-red-600 text-sm font-medium rounded-2xl border border-red-100 flex flex-col items-center gap-2 animate-fade-in w-full max-w-xl text-center">
-                <div className="flex items-center gap-2">
-                  <svg className="w-5 h-5 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-                  <span className="font-bold uppercase tracking-wider text-xs">Generation Failed</span>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
+                  <SubjectList
+                    kind="person"
+                    title="Model / Person"
+                    description="Upload a clear photo of the person."
+                    slots={peopleSlots}
+                    onChange={setPeopleSlots}
+                    maxSlots={MAX_REFERENCE_IMAGES - productSlots.length}
+                  />
+                  <SubjectList
+                    kind="product"
+                    title="Product"
+                    description="Upload the product image."
+                    slots={productSlots}
+                    onChange={setProductSlots}
+                    maxSlots={MAX_REFERENCE_IMAGES - peopleSlots.length}
+                  />
                 </div>
-                <p className="opacity-90">{error}</p>
-                <button 
-                  onClick={handleGenerate}
-                  className="mt-2 text-xs font-bold underline hover:no-underline"
-                >
-                  Try again
-                </button>
-              </div>
-            )}
-          </div>
-
-          {/* Step 3: Results */}
-          {generatedImage && (
-            <section className="bg-white rounded-3xl shadow-2xl shadow-slate-200/50 overflow-hidden border border-slate-100">
-               <div className="bg-slate-50 border-b border-slate-100 p-6 flex items-center justify-between">
-                 <div className="flex items-center gap-3">
-                    <div className="flex items-center justify-center w-8 h-8 rounded-full bg-green-500 text-white font-bold text-sm shrink-0">✓</div>
-                    <h2 className="text-xl font-bold text-slate-900">UGC Content Ready</h2>
-                 </div>
-                 <button 
-                  onClick={handleDownload}
-                  className="hidden sm:flex items-center gap-2 text-sm font-bold text-indigo-600 hover:text-indigo-700 px-4 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
-                 >
-                   <DownloadIcon /> Download
-                 </button>
-               </div>
-               
-               <div className="p-8 flex flex-col items-center">
-                 <div className="relative group rounded-xl overflow-hidden shadow-lg ring-1 ring-slate-200">
-                    <img 
-                      src={generatedImage} 
-                      alt="Generated UGC" 
-                      className="max-h-[700px] w-full object-contain block"
-                    />
-                    
-                    {/* Hover Overlay */}
-                    <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-[2px] opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center">
-                       <button
-                          onClick={handleDownload}
-                          className="bg-white text-slate-900 font-bold py-3 px-6 rounded-full shadow-xl transform scale-90 group-hover:scale-100 transition-transform duration-200 flex items-center gap-2"
+
+                {people.length + products.length > 0 && (
+                  <p className={`mt-6 text-xs font-semibold text-right ${payloadBytes > MAX_PAYLOAD_BYTES ? 'text-red-600' : 'text-slate-400'}`}>
+                    {people.length + products.length} images · {formatBytes(payloadBytes)} of {formatBytes(MAX_PAYLOAD_BYTES)} request limit
+                  </p>
+                )}
+              </section>
+
+              {/* Step 2: Scene Selection */}
+              <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10 transition-all duration-300">
+                 <div className="flex items-center gap-3 mb-6">
+                  <div className="flex items-center justify-center w-8 h-8 rounded-full bg-slate-900 text-white font-bold text-sm shrink-0">2</div>
+                  <h2 className="text-lg md:text-xl font-bold text-slate-800">Select Atmosphere</h2>
+                </div>
+
+                <div className="space-y-6">
+                  {/* Main Categories */}
+                  <div className="flex flex-wrap gap-2 md:gap-3 pb-4 border-b border-slate-200/50">
+                    {visibleCategories.map((category) => {
+                      const selectedCount = category.subOptions.filter(o => selectedSceneIds.includes(o.id)).length;
+                      return (
+                      <button
+                        key={category.id}
+                        onClick={() => setActiveCategory(category.id)}
+                        className={`flex items-center gap-2 px-3 py-2 md:px-4 md:py-2.5 rounded-xl transition-all duration-200 text-xs md:text-sm font-semibold
+                          ${currentCategoryData?.id === category.id
+                            ? 'bg-slate-800 text-white shadow-md transform scale-[1.02]'
+                            : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 hover:border-indigo-300'
+                          }`}
+                      >
+                        <span>{category.icon}</span>
+                        <span>{category.label}</span>
+                        {selectedCount > 0 && (
+                          <span className="ml-1 px-1.5 py-0.5 rounded-md bg-indigo-500 text-white text-[10px] leading-none">{selectedCount}</span>
+                        )}
+                      </button>
+                      );
+                    })}
+                  </div>
+
+                  {/* Sub Options */}
+                  <div>
+                    <h3 className="text-xs md:text-sm font-bold text-slate-500 uppercase tracking-wide mb-3 px-1">
+                      {currentCategoryData?.label} Options
+                    </h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+                      {currentCategoryData?.subOptions.map((subOption) => (
+                        <button
+                          key={subOption.id}
+                          onClick={() => toggleScene(subOption.id)}
+                          title={subOption.prompt || undefined}
+                          className={`text-left px-4 py-3 rounded-xl border transition-all duration-200 text-sm
+                            ${selectedSceneIds.includes(subOption.id)
+                              ? 'bg-indigo-50 border-indigo-500 text-indigo-700 shadow-sm ring-1 ring-indigo-500 font-medium'
+                              : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300 hover:shadow-sm'
+                            }`}
+                        >
+                          {subOption.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {selectedScenes.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-slate-200/50">
+                      <span className="text-xs font-bold text-slate-500 uppercase tracking-wide mr-1">Selected</span>
+                      {selectedScenes.map((scene) => (
+                        <button
+                          key={scene.id}
+                          onClick={() => toggleScene(scene.id)}
+                          className="px-3 py-1 rounded-lg bg-indigo-50 text-indigo-700 text-xs font-medium border border-indigo-200 hover:bg-indigo-100"
+                          title="Remove from selection"
+                        >
+                          {scene.label} ×
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => setSelectedSceneIds([])}
+                        className="text-xs font-semibold text-slate-400 hover:text-slate-600 ml-1"
                       >
-                          <DownloadIcon /> Download Image
+                        Clear
                       </button>
                     </div>
+                  )}
+                </div>
+              </section>
+
+              {/* Step 3: Prompt */}
+              <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="flex items-center justify-center w-8 h-8 rounded-full bg-slate-900 text-white font-bold text-sm shrink-0">3</div>
+                  <h2 className="text-lg md:text-xl font-bold text-slate-800">Fine-tune Prompt</h2>
+                </div>
+                <PromptBuilder
+                  settings={promptSettings}
+                  onSettingsChange={setPromptSettings}
+                  template={promptTemplate}
+                  isTemplateEdited={promptOverride !== null}
+                  onTemplateChange={setPromptOverride}
+                  onTemplateReset={() => setPromptOverride(null)}
+                  brandGuidelines={activeBrandKit ? buildBrandGuidelines(activeBrandKit) : ""}
+                />
+              </section>
+
+              {/* Action Area */}
+              <div className="flex flex-col items-center justify-center pt-8 pb-12">
+                 <div className="w-full mb-6">
+                  <h3 className="text-xs md:text-sm font-bold text-slate-500 uppercase tracking-wide mb-3 text-center">Output Format</h3>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {PLATFORM_PRESETS.map((preset) => (
+                      <button
+                        key={preset.id}
+                        onClick={() => setPlatformId(preset.id)}
+                        className={`px-3 py-2 rounded-xl transition-all duration-200 text-xs md:text-sm font-semibold
+                          ${platformId === preset.id
+                            ? 'bg-slate-800 text-white shadow-md'
+                            : 'bg-white text-slate-600 border border-slate-200 hover:border-indigo-300'
+                          }`}
+                      >
+                        {preset.label} <span className="opacity-60 font-medium">{preset.aspectRatio}</span>
+                      </button>
+                    ))}
+                  </div>
                  </div>
-                 <button 
-                  onClick={handleDownload}
-                  className="mt-6 flex sm:hidden items-center gap-2 text-sm font-bold text-white bg-indigo-600 px-6 py-3 rounded-xl shadow-lg w-full justify-center"
-                 >
-                   <DownloadIcon /> Download Image
-                 </button>
-               </div>
-            </section>
-          )}
 
+                 <div className="flex flex-wrap items-center justify-center gap-4 mb-6 text-sm">
+                  <label className="flex items-center gap-2 font-semibold text-slate-600">
+                    Variations per scene
+                    <select
+                      value={variations}
+                      onChange={(e) => setVariations(Number(e.target.value))}
+                      className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white"
+                    >
+                      {VARIATION_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 font-semibold text-slate-600">
+                    Parallel jobs
+                    <select
+                      value={concurrency}
+                      onChange={(e) => setConcurrency(Number(e.target.value))}
+                      className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white"
+                    >
+                      {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </label>
+                 </div>
+
+                 <button
+                  onClick={handleGenerate}
+                  disabled={isButtonDisabled}
+                  className={`group relative inline-flex items-center justify-center gap-3 px-10 py-5 text-lg font-bold text-white rounded-2xl transition-all duration-300 w-full md:w-auto
+                    ${isButtonDisabled
+                      ? 'bg-slate-300 text-slate-500 cursor-not-allowed'
+                      : 'bg-gradient-to-br from-indigo-600 via-purple-600 to-indigo-700 shadow-xl shadow-indigo-200 hover:shadow-2xl hover:shadow-indigo-300 hover:-translate-y-1 active:scale-[0.98]'
+                    }`}
+                >
+                  {isLoading ? (
+                    <>
+                      <Spinner /> <span>Creating magic...</span>
+                    </>
+                  ) : (
+                    <>
+                      <SparklesIcon /> <span>{totalImages > 1 ? `Generate ${totalImages} Images` : 'Generate Content'}</span>
+                    </>
+                  )}
+                </button>
+                {budgetIssue && !isLoading && (
+                  <p className="mt-3 text-sm font-medium text-amber-700 text-center max-w-xl">
+                    {budgetIssue}{' '}
+                    <button onClick={() => setView('usage')} className="font-semibold text-indigo-600 hover:text-indigo-700">Open usage</button>
+                  </p>
+                )}
+                {isLoading && (
+                  <button
+                    onClick={queue.cancelAll}
+                    className="mt-3 px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:text-red-600 hover:bg-red-50"
+                  >
+                    Cancel all
+                  </button>
+                )}
+            
+                {error && (
+                  <div className="mt-6 px-6 py-4 bg-red-50 text-red-600 text-sm font-medium rounded-2xl border border-red-100 flex flex-col items-center gap-2 animate-fade-in w-full max-w-xl text-center">
+                    <div className="flex items-center gap-2">
+                      <svg className="w-5 h-5 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                      <span className="font-bold uppercase tracking-wider text-xs">Generation Failed</span>
+                    </div>
+                    <p className="opacity-90">{error}</p>
+                  </div>
+                )}
+              </div>
+
+              {/* Step 4: Results */}
+              {jobs.length > 0 && (
+                <ResultsGallery
+                  jobs={jobs}
+                  onDownload={handleDownload}
+                  onDiscard={handleDiscardJob}
+                  onRetry={handleRetryJob}
+                  onCancel={queue.cancel}
+                  onDownloadAll={handleDownloadAll}
+                  onRate={handleRateJob}
+                  onPickWinner={handlePickWinner}
+                  onWriteCopy={handleWriteCopy}
+                  onCopyChange={handleCopyChange}
+                  exportSettings={exportSettings}
+                  onExportSettingsChange={setExportSettings}
+                  brandName={activeBrandKit?.name}
+                  onExport={handleExport}
+                  onRefine={handleOpenRefine}
+                />
+              )}
+            </>
+          )}
         </main>
       </div>
+
+      {refiningJobId && refineSessions[refiningJobId] && (
+        <RefineStudio
+          title={jobs.find(j => j.id === refiningJobId)?.scene ?? ""}
+          session={refineSessions[refiningJobId]}
+          isRefining={isRefining}
+          error={refineError}
+          onRefine={handleRefine}
+          onSelectVersion={(versionId) => updateRefineSession(refiningJobId, session => ({ ...session, activeVersionId: versionId }))}
+          onApply={handleApplyVersion}
+          onClose={() => setRefiningJobId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { ReferenceImage } from '../types';
+import { BriefError, parseBrief, planRenders } from './brief';
+
+const brief = `
+people:
+  - path: refs/ana.jpg
+    role: Ana
+products: refs/serum.png
+variations: 2
+scenes:
+  - Sunny bathroom
+  - label: Gym
+    description: Post-workout in a locker room
+    variations: 1
+formats: [tiktok, "1:1"]
+`;
+
+const reference: ReferenceImage = { base64: 'cA==', mimeType: 'image/jpeg', role: "" };
+
+describe('parseBrief', () => {
+  it('reads subjects, scenes with their variations, and formats by id or aspect ratio', () => {
+    const parsed = parseBrief(brief);
+    expect(parsed.people).toEqual([{ path: 'refs/ana.jpg', role: "Ana", description: undefined }]);
+    expect(parsed.products).toEqual([{ path: 'refs/serum.png', role: "" }]);
+    expect(parsed.scenes).toEqual([
+      { label: "Sunny bathroom", description: "Sunny bathroom", variations: 2 },
+      { label: "Gym", description: "Post-workout in a locker room", variations: 1 },
+    ]);
+    expect(parsed.formats.map(format => format.id)).toEqual(['tiktok', 'instagram-square']);
+  });
+
+  it('reads JSON briefs and defaults to the first platform', () => {
+    const parsed = parseBrief('{"people": ["a.jpg"], "products": ["b.jpg"], "scenes": ["Kitchen"]}');
+    expect(parsed.formats.map(format => format.id)).toEqual(['instagram-square']);
+    expect(parsed.scenes[0].variations).toBe(1);
+  });
+
+  it('names the field to fix', () => {
+    expect(() => parseBrief('people: [a.jpg]\nscenes: [Kitchen]')).toThrow(new BriefError("products needs at least one photo."));
+    expect(() => parseBrief(brief.replace('variations: 2', 'variations: 0'))).toThrow(/variations must be a whole number/);
+    expect(() => parseBrief(brief.replace('tiktok', 'myspace'))).toThrow(/formats\[0\] "myspace" is not a platform/);
+    expect(() => parseBrief('people: [a.jpg\n')).toThrow(/not valid YAML/);
+  });
+});
+
+describe('planRenders', () => {
+  it('makes one render per scene, format and variation with unique names', () => {
+    const parsed = parseBrief(brief.replace('label: Gym', 'label: Sunny bathroom'));
+    const renders = planRenders(parsed, [reference], [reference]);
+    expect(renders.map(render => render.name)).toEqual([
+      'sunny-bathroom-tiktok-1',
+      'sunny-bathroom-tiktok-2',
+      'sunny-bathroom-instagram-square-1',
+      'sunny-bathroom-instagram-square-2',
+      '2-sunny-bathroom-tiktok-1',
+      '2-sunny-bathroom-instagram-square-1',
+    ]);
+    expect(renders[4].request).toMatchObject({ sceneDescription: "Post-workout in a locker room", platform: { aspectRatio: '9:16' } });
+  });
+});
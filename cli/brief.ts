@@ -0,0 +1,175 @@
+import { parse } from 'yaml';
+import type { ImageGenerationRequest, PlatformPreset, ReferenceImage } from '../types';
+import { MAX_REFERENCE_IMAGES } from '../services/payloadService';
+import { PLATFORM_PRESETS } from '../services/platformService';
+
+/** A person or product photo named in a brief. Paths are relative to the brief file. */
+export interface BriefSubject {
+  path: string;
+  role: string;
+  description?: string;
+}
+
+export interface BriefScene {
+  label: string;
+  description: string;
+  /** Overrides the brief's `variations` for this scene. */
+  variations: number;
+}
+
+export interface Brief {
+  people: BriefSubject[];
+  products: BriefSubject[];
+  scenes: BriefScene[];
+  /** One render set per format, each a platform preset. */
+  formats: PlatformPreset[];
+  /** Template with {scene}, {subjects}, {platform} and {format} placeholders; the studio's default when absent. */
+  promptTemplate?: string;
+}
+
+/** One image the CLI will generate. */
+export interface Render {
+  /** Output file name without extension, unique within the run. */
+  name: string;
+  scene: string;
+  variation: number;
+  platform: PlatformPreset;
+  request: ImageGenerationRequest;
+}
+
+export const MAX_VARIATIONS = 10;
+
+/** A brief that cannot be run, with a message that says which field to fix. */
+export class BriefError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BriefError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown, field: string, required: boolean): string | undefined => {
+  if (value === undefined || value === null || value === '') {
+    if (required) throw new BriefError(`${field} is required.`);
+    return undefined;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') throw new BriefError(`${field} must be text.`);
+  return String(value).trim();
+};
+
+const readVariations = (value: unknown, field: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > MAX_VARIATIONS) {
+    throw new BriefError(`${field} must be a whole number from 1 to ${MAX_VARIATIONS}.`);
+  }
+  return value as number;
+};
+
+const readList = (value: unknown): unknown[] => {
+  if (value === undefined) return [];
+  // A single entry may be written without the list.
+  return Array.isArray(value) ? value : [value];
+};
+
+/** A bare string is a path; otherwise `path`, with an optional `role` and `description`. */
+const readSubject = (value: unknown, field: string): BriefSubject => {
+  if (typeof value === 'string') return { path: value.trim(), role: "" };
+  if (!isRecord(value)) throw new BriefError(`${field} must be a path or have a path.`);
+  return {
+    path: readString(value.path, `${field}.path`, true)!,
+    role: readString(value.role ?? value.name, `${field}.role`, false) ?? "",
+    description: readString(value.description, `${field}.description`, false),
+  };
+};
+
+/** A bare string is both the label and the description. */
+const readScene = (value: unknown, field: string, variations: number): BriefScene => {
+  if (typeof value === 'string') return { label: value.trim(), description: value.trim(), variations };
+  if (!isRecord(value)) throw new BriefError(`${field} must be text or have a description.`);
+  const description = readString(value.description, `${field}.description`, true)!;
+  return {
+    label: readString(value.label, `${field}.label`, false) ?? description,
+    description,
+    variations: readVariations(value.variations, `${field}.variations`, variations),
+  };
+};
+
+/** Accepts a platform preset id ("tiktok") or an aspect ratio ("9:16"), which picks the first preset with that ratio. */
+export const resolveFormat = (value: string): PlatformPreset | undefined =>
+  PLATFORM_PRESETS.find(preset => preset.id === value) ?? PLATFORM_PRESETS.find(preset => preset.aspectRatio === value);
+
+/**
+ * Reads a YAML or JSON brief. Throws a BriefError naming the first field that is
+ * missing or invalid, so an overnight run fails before any image is paid for.
+ */
+export const parseBrief = (text: string): Brief => {
+  let data: unknown;
+  try {
+    data = parse(text);
+  } catch (err) {
+    throw new BriefError(`The brief is not valid YAML or JSON: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!isRecord(data)) throw new BriefError("The brief must be a map with people, products and scenes.");
+
+  const people = readList(data.people).map((value, i) => readSubject(value, `people[${i}]`));
+  const products = readList(data.products).map((value, i) => readSubject(value, `products[${i}]`));
+  if (people.length === 0) throw new BriefError("people needs at least one photo.");
+  if (products.length === 0) throw new BriefError("products needs at least one photo.");
+  if (people.length + products.length > MAX_REFERENCE_IMAGES) {
+    throw new BriefError(`At most ${MAX_REFERENCE_IMAGES} people and products can be sent together.`);
+  }
+
+  const variations = readVariations(data.variations, 'variations', 1);
+  const scenes = readList(data.scenes).map((value, i) => readScene(value, `scenes[${i}]`, variations));
+  if (scenes.length === 0) throw new BriefError("scenes needs at least one scene.");
+
+  const formatValues = readList(data.formats ?? data.aspectRatios ?? data.platforms);
+  const formats = formatValues.map((value, i) => {
+    const format = resolveFormat(readString(value, `formats[${i}]`, true)!);
+    if (!format) {
+      throw new BriefError(`formats[${i}] "${value}" is not a platform (${PLATFORM_PRESETS.map(p => p.id).join(', ')}) or one of their aspect ratios.`);
+    }
+    return format;
+  });
+
+  return {
+    people,
+    products,
+    scenes,
+    formats: formats.length > 0 ? [...new Set(formats)] : [PLATFORM_PRESETS[0]],
+    promptTemplate: readString(data.promptTemplate, 'promptTemplate', false),
+  };
+};
+
+const slugify = (text: string): string =>
+  text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'scene';
+
+/** Expands a brief into one render per scene, variation and format, with stable file names. */
+export const planRenders = (brief: Brief, people: ReferenceImage[], products: ReferenceImage[]): Render[] => {
+  const names = new Set<string>();
+  return brief.scenes.flatMap((scene, sceneIndex) =>
+    brief.formats.flatMap(platform =>
+      Array.from({ length: scene.variations }, (_, i) => {
+        // Scenes with the same label are numbered so their files do not overwrite each other.
+        let name = `${slugify(scene.label)}-${platform.id}-${i + 1}`;
+        if (names.has(name)) name = `${sceneIndex + 1}-${name}`;
+        names.add(name);
+        return {
+          name,
+          scene: scene.label,
+          variation: i + 1,
+          platform,
+          request: {
+            people,
+            products,
+            sceneDescription: scene.description,
+            platform,
+            promptTemplate: brief.promptTemplate,
+          },
+        };
+      })
+    )
+  );
+};
@@ -0,0 +1,232 @@
+/**
+ * Headless batch generation for scheduled jobs, without the studio UI:
+ *
+ *   npm run ugc -- generate --brief brief.yaml --out ./renders [--concurrency 2] [--dry-run]
+ *
+ * Uses the studio's prompt building, payload checks, retries and response parsing through
+ * `generateWithGemini`. The key is read from GEMINI_API_KEY, in the environment or `.env.local`.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import sharp from 'sharp';
+import { loadEnv } from 'vite';
+import type { GenerationErrorCode, ReferenceImage, UsageAttempt } from '../types';
+import { BriefError, parseBrief, planRenders, type BriefSubject, type Render } from './brief';
+import { runWithConcurrency } from '../services/batchService';
+import { GEMINI_IMAGE_MODEL, generateWithGemini } from '../services/geminiService';
+import { toGenerationError } from '../services/generationErrors';
+import { MAX_DIMENSION, RESIZE_QUALITY, fitWithin } from '../services/imageResize';
+import { estimatePayloadBytes, formatBytes, validatePayload } from '../services/payloadService';
+import { buildUGCPrompt } from '../services/promptService';
+import { DEFAULT_PRICES, estimateCost, formatUsd } from '../services/usageService';
+
+const USAGE = `Usage: ugc generate --brief <brief.yaml> --out <dir> [options]
+
+Options:
+  --brief <file>        YAML or JSON brief with people, products, scenes, variations and formats
+  --out <dir>           Where images and report.json are written (created if missing)
+  --concurrency <n>     Images generated at once (default 1)
+  --dry-run             Print the prompts without calling the API
+  -h, --help            Show this help`;
+
+const MAX_CONCURRENCY = 4;
+
+/** Exit codes, so schedulers can tell a partial run from a misconfigured one. */
+const EXIT_OK = 0;
+const EXIT_FAILED_RENDERS = 1;
+const EXIT_USAGE = 2;
+
+interface RenderResult {
+  file: string | null;
+  scene: string;
+  variation: number;
+  platform: string;
+  aspectRatio: string;
+  status: 'succeeded' | 'failed' | 'cancelled';
+  model: string | null;
+  prompt: string;
+  error: string | null;
+  errorCode: GenerationErrorCode | null;
+  latencyMs: number;
+}
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+/**
+ * Reads a reference photo and resizes it the way the studio's `resizeImage` does:
+ * upright, longest side at most 1024px, re-encoded as JPEG.
+ */
+const loadReference = async (subject: BriefSubject, briefDir: string): Promise<ReferenceImage> => {
+  const file = path.resolve(briefDir, subject.path);
+  let input: Buffer;
+  try {
+    input = await readFile(file);
+  } catch {
+    throw new BriefError(`Cannot read ${subject.path} (looked in ${file}).`);
+  }
+  try {
+    const image = sharp(input).autoOrient();
+    const { autoOrient } = await image.metadata();
+    const { width, height } = fitWithin(autoOrient.width, autoOrient.height, MAX_DIMENSION);
+    const resized = await image.resize(width, height).jpeg({ quality: Math.round(RESIZE_QUALITY * 100) }).toBuffer();
+    return { base64: resized.toString('base64'), mimeType: 'image/jpeg', role: subject.role, description: subject.description };
+  } catch {
+    throw new BriefError(`${subject.path} is not an image that can be read.`);
+  }
+};
+
+const printDryRun = (renders: Render[]) => {
+  const request = renders[0].request;
+  console.log(`${renders.length} image${renders.length === 1 ? '' : 's'}, ${request.people.length + request.products.length} references (${formatBytes(estimatePayloadBytes(request))} per request).\n`);
+  for (const render of renders) {
+    console.log(`── ${render.name} · ${render.platform.label} ${render.platform.aspectRatio}`);
+    console.log(buildUGCPrompt(render.request));
+    console.log();
+  }
+};
+
+const generate = async (renders: Render[], outDir: string, apiKey: string | undefined, concurrency: number, signal: AbortSignal) => {
+  const attempts: UsageAttempt[] = [];
+  const results: RenderResult[] = new Array(renders.length);
+  let done = 0;
+
+  await runWithConcurrency(renders.map((render, index) => async () => {
+    const prompt = buildUGCPrompt(render.request);
+    const base = { scene: render.scene, variation: render.variation, platform: render.platform.id, aspectRatio: render.platform.aspectRatio, prompt };
+    const startedAt = Date.now();
+    try {
+      const { image, model } = await generateWithGemini(render.request, apiKey, { signal, onAttempt: attempt => attempts.push(attempt) });
+      const file = `${render.name}.${EXTENSIONS[image.mimeType] ?? 'png'}`;
+      await writeFile(path.join(outDir, file), Buffer.from(image.base64, 'base64'));
+      results[index] = { ...base, file, status: 'succeeded', model, error: null, errorCode: null, latencyMs: Date.now() - startedAt };
+    } catch (err) {
+      const error = toGenerationError(err);
+      results[index] = {
+        ...base,
+        file: null,
+        status: error.code === 'cancelled' ? 'cancelled' : 'failed',
+        model: null,
+        error: error.message,
+        errorCode: error.code,
+        latencyMs: Date.now() - startedAt,
+      };
+    }
+    done++;
+    const result = results[index];
+    console.log(`[${done}/${renders.length}] ${render.name}: ${result.status === 'succeeded' ? result.file : `${result.status} (${result.error})`}`);
+  }), concurrency);
+
+  return { results, attempts };
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  let args;
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        brief: { type: 'string' },
+        out: { type: 'string' },
+        concurrency: { type: 'string', default: '1' },
+        'dry-run': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (err) {
+    console.error(`${err instanceof Error ? err.message : err}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = args;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  const dryRun = values['dry-run'];
+  const concurrency = Number(values.concurrency);
+  if (positionals[0] !== 'generate' || !values.brief || (!values.out && !dryRun)) {
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    console.error(`--concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}.`);
+    return EXIT_USAGE;
+  }
+
+  const briefPath = path.resolve(values.brief);
+  let renders: Render[];
+  try {
+    const brief = parseBrief(await readFile(briefPath, 'utf8').catch(() => {
+      throw new BriefError(`Cannot read the brief at ${briefPath}.`);
+    }));
+    const briefDir = path.dirname(briefPath);
+    const people = await Promise.all(brief.people.map(subject => loadReference(subject, briefDir)));
+    const products = await Promise.all(brief.products.map(subject => loadReference(subject, briefDir)));
+    const payloadProblem = validatePayload({ people, products });
+    if (payloadProblem) throw new BriefError(payloadProblem);
+    renders = planRenders(brief, people, products);
+  } catch (err) {
+    if (!(err instanceof BriefError)) throw err;
+    console.error(err.message);
+    return EXIT_USAGE;
+  }
+
+  if (dryRun) {
+    printDryRun(renders);
+    return EXIT_OK;
+  }
+
+  const env = loadEnv('production', process.cwd(), '');
+  const apiKey = process.env.GEMINI_API_KEY || env.GEMINI_API_KEY;
+  if (!apiKey) {
+    console.error("GEMINI_API_KEY is not set. Add it to the environment or .env.local, or use --dry-run.");
+    return EXIT_USAGE;
+  }
+
+  const outDir = path.resolve(values.out!);
+  await mkdir(outDir, { recursive: true });
+
+  // Ctrl+C stops new requests and cancels running ones; the report is still written.
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.error("Cancelling...");
+    controller.abort();
+  });
+
+  const startedAt = new Date();
+  console.log(`Generating ${renders.length} image${renders.length === 1 ? '' : 's'} into ${outDir}`);
+  const { results, attempts } = await generate(renders, outDir, apiKey, concurrency, controller.signal);
+  const count = (status: RenderResult['status']) => results.filter(result => result.status === status).length;
+  const cost = attempts.reduce((sum, attempt) => sum + estimateCost(attempt, DEFAULT_PRICES), 0);
+
+  const report = {
+    brief: briefPath,
+    model: GEMINI_IMAGE_MODEL,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    summary: {
+      total: results.length,
+      succeeded: count('succeeded'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      attempts: attempts.length,
+      estimatedCostUsd: Number(cost.toFixed(6)),
+    },
+    renders: results,
+  };
+  await writeFile(path.join(outDir, 'report.json'), `${JSON.stringify(report, null, 2)}\n`);
+
+  const { succeeded, failed, cancelled } = report.summary;
+  console.log(`Done: ${succeeded} succeeded, ${failed} failed, ${cancelled} cancelled, ${attempts.length} API attempts (~${formatUsd(cost)}). Report: ${path.join(outDir, 'report.json')}`);
+  return succeeded === results.length ? EXIT_OK : EXIT_FAILED_RENDERS;
+};
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  err => {
+    console.error(err);
+    process.exit(EXIT_FAILED_RENDERS);
+  }
+);
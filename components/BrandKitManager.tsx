@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import type { BrandKit, SceneCategory } from '../types';
+import { createBrandKit } from '../services/brandKitService';
+import { PLATFORM_PRESETS } from '../services/platformService';
+import { XCircleIcon } from './Icons';
+import { ListInput } from './ListInput';
+
+interface BrandKitManagerProps {
+  kits: BrandKit[];
+  onChange: (kits: BrandKit[]) => void;
+  categories: SceneCategory[];
+  activeKitId: string | null;
+  onActivate: (id: string | null) => void;
+}
+
+export const BrandKitManager: React.FC<BrandKitManagerProps> = ({ kits, onChange, categories, activeKitId, onActivate }) => {
+  const [editingId, setEditingId] = useState<string | null>(activeKitId ?? kits[0]?.id ?? null);
+  const editing = kits.find(k => k.id === editingId) ?? null;
+
+  const updateKit = (patch: Partial<BrandKit>) => {
+    if (!editing) return;
+    onChange(kits.map(k => k.id === editing.id ? { ...k, ...patch } : k));
+  };
+
+  const handleAdd = () => {
+    const kit = createBrandKit();
+    onChange([...kits, kit]);
+    setEditingId(kit.id);
+  };
+
+  const handleDelete = (kit: BrandKit) => {
+    if (!window.confirm(`Delete brand kit "${kit.name}"?`)) return;
+    onChange(kits.filter(k => k.id !== kit.id));
+    if (activeKitId === kit.id) onActivate(null);
+    if (editingId === kit.id) setEditingId(null);
+  };
+
+  const toggleScene = (sceneId: string) => {
+    if (!editing) return;
+    const allowed = editing.allowedSceneIds;
+    updateKit({ allowedSceneIds: allowed.includes(sceneId) ? allowed.filter(id => id !== sceneId) : [...allowed, sceneId] });
+  };
+
+  return (
+    <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10">
+      <div className="flex items-center justify-between gap-4 mb-6 border-b border-slate-200/60 pb-4 md:pb-6">
+        <h2 className="text-lg md:text-xl font-bold text-slate-800">Brand Kits</h2>
+        <button onClick={handleAdd} className="px-4 py-2 rounded-xl text-sm font-semibold bg-slate-800 text-white hover:bg-slate-700">
+          + New kit
+        </button>
+      </div>
+
+      {kits.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-12">
+          No brand kits yet. Create one to keep every generation on-brand.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-6">
+          {/* Kit List */}
+          <ul className="space-y-1">
+            {kits.map(kit => (
+              <li key={kit.id}>
+                <button
+                  onClick={() => setEditingId(kit.id)}
+                  className={`w-full flex items-center gap-2 px-3 py-2 rounded-xl text-left text-sm font-semibold
+                    ${kit.id === editingId ? 'bg-slate-800 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+                >
+                  <span className="flex -space-x-1 shrink-0">
+                    {kit.colors.slice(0, 3).map(color => (
+                      <span key={color} className="w-3 h-3 rounded-full ring-1 ring-white" style={{ backgroundColor: color }} />
+                    ))}
+                  </span>
+                  <span className="truncate flex-1">{kit.name}</span>
+                  {kit.id === activeKitId && <span className="text-[10px] uppercase tracking-wider opacity-70">Active</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Kit Editor */}
+          {editing ? (
+            <div className="space-y-5">
+              <div className="flex items-center gap-2">
+                <input
+                  value={editing.name}
+                  onChange={(e) => updateKit({ name: e.target.value })}
+                  className="flex-1 px-3 py-2 rounded-lg border border-slate-200 bg-white text-base font-bold text-slate-800"
+                  aria-label="Brand kit name"
+                />
+                <button
+                  onClick={() => onActivate(editing.id === activeKitId ? null : editing.id)}
+                  className={`px-4 py-2 rounded-xl text-sm font-bold ${editing.id === activeKitId ? 'bg-indigo-50 text-indigo-700 ring-1 ring-indigo-500' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
+                >
+                  {editing.id === activeKitId ? 'Active' : 'Use this kit'}
+                </button>
+                <button onClick={() => handleDelete(editing)} className="text-slate-400 hover:text-red-500" title="Delete kit">
+                  <XCircleIcon />
+                </button>
+              </div>
+
+              <div>
+                <span className="text-xs font-semibold text-slate-500">Colors</span>
+                <div className="mt-1 flex flex-wrap items-center gap-2">
+                  {editing.colors.map((color, i) => (
+                    <span key={i} className="flex items-center gap-1 pl-1 pr-2 py-1 rounded-lg border border-slate-200 bg-white">
+                      <input
+                        type="color"
+                        value={color}
+                        onChange={(e) => updateKit({ colors: editing.colors.map((c, j) => j === i ? e.target.value : c) })}
+                        className="w-7 h-7 rounded cursor-pointer"
+                        aria-label={`Color ${i + 1}`}
+                      />
+                      <span className="text-xs font-mono text-slate-500">{color}</span>
+                      <button
+                        onClick={() => updateKit({ colors: editing.colors.filter((_, j) => j !== i) })}
+                        className="text-slate-300 hover:text-red-500 text-sm ml-1"
+                        title="Remove color"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  <button
+                    onClick={() => updateKit({ colors: [...editing.colors, '#6366f1'] })}
+                    className="px-3 py-2 rounded-lg text-xs font-semibold text-indigo-600 hover:bg-indigo-50"
+                  >
+                    + Add color
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <ListInput
+                  label="Tone keywords"
+                  values={editing.toneKeywords}
+                  placeholder="e.g. playful, clean, sunlit"
+                  onChange={(toneKeywords) => updateKit({ toneKeywords })}
+                />
+                <ListInput
+                  label="Forbidden elements"
+                  values={editing.forbiddenElements}
+                  placeholder="e.g. alcohol, competitor logos, nightlife"
+                  onChange={(forbiddenElements) => updateKit({ forbiddenElements })}
+                />
+              </div>
+
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-500">Required wording</span>
+                <textarea
+                  value={editing.requiredWording}
+                  onChange={(e) => updateKit({ requiredWording: e.target.value })}
+                  placeholder="Text added verbatim to every prompt, e.g. The product label must always face the camera."
+                  rows={2}
+                  className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </label>
+
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-500">Default output format</span>
+                <select
+                  value={editing.defaultPlatformId}
+                  onChange={(e) => updateKit({ defaultPlatformId: e.target.value })}
+                  className="mt-1 w-full sm:w-64 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm"
+                >
+                  {PLATFORM_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label} ({p.aspectRatio})</option>)}
+                </select>
+              </label>
+
+              <div>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold text-slate-500">
+                    Allowed scenes {editing.allowedSceneIds.length === 0 ? '(all)' : `(${editing.allowedSceneIds.length})`}
+                  </span>
+                  {editing.allowedSceneIds.length > 0 && (
+                    <button onClick={() => updateKit({ allowedSceneIds: [] })} className="text-xs font-semibold text-slate-400 hover:text-slate-600">
+                      Allow all
+                    </button>
+                  )}
+                </div>
+                <div className="mt-2 space-y-3 max-h-80 overflow-y-auto pr-1">
+                  {categories.map(category => (
+                    <div key={category.id}>
+                      <p className="text-xs font-bold text-slate-600 mb-1">{category.icon} {category.label}</p>
+                      <div className="flex flex-wrap gap-1.5">
+                        {category.subOptions.map(option => (
+                          <button
+                            key={option.id}
+                            onClick={() => toggleScene(option.id)}
+                            className={`px-2.5 py-1 rounded-lg text-xs border transition-colors
+                              ${editing.allowedSceneIds.includes(option.id)
+                                ? 'bg-indigo-50 border-indigo-500 text-indigo-700'
+                                : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-300'}`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">Select a kit to edit it.</p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraIcon } from './Icons';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+}
+
+type Facing = 'user' | 'environment';
+
+const cameraErrorMessage = (err: unknown): string => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return "Camera access was blocked. Allow it in the browser's site settings and try again.";
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return "No camera was found on this device.";
+  if (name === 'NotReadableError') return "The camera is in use by another app.";
+  return "The camera could not be started.";
+};
+
+/** Takes a photo with the webcam or phone camera, as a JPEG file like any other upload. */
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facing, setFacing] = useState<Facing>('user');
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser cannot use the camera. Use the file picker instead.");
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsReady(false);
+    setError(null);
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: facing, width: { ideal: 1920 }, height: { ideal: 1920 } } })
+      .then(s => {
+        stream = s;
+        // The cleanup may already have run, so nothing else will stop this stream.
+        if (cancelled || !videoRef.current) {
+          s.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = s;
+        return videoRef.current.play().then(() => { if (!cancelled) setIsReady(true); });
+      })
+      .catch(err => {
+        console.error("Camera failed:", err);
+        if (!cancelled) setError(cameraErrorMessage(err));
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facing]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video?.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return setError("The photo could not be taken.");
+    // The front camera preview is mirrored; the photo is not, so text on products reads correctly.
+    ctx.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (blob) onCapture(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+      else setError("The photo could not be taken.");
+    }, 'image/jpeg', 0.92);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex items-center gap-3 p-5 border-b border-slate-100">
+          <CameraIcon />
+          <h3 className="text-lg font-bold text-slate-800">Take a Photo</h3>
+        </div>
+
+        <div className="p-5">
+          <div className="bg-slate-900 rounded-2xl flex items-center justify-center overflow-hidden min-h-64">
+            {error ? (
+              <p className="text-sm text-red-300 text-center p-6">{error}</p>
+            ) : (
+              <video
+                ref={videoRef}
+                muted
+                playsInline
+                aria-label="Camera preview"
+                className={`max-h-[60vh] w-full object-contain ${facing === 'user' ? '-scale-x-100' : ''}`}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-5 border-t border-slate-100 bg-slate-50">
+          <button
+            onClick={() => setFacing(facing === 'user' ? 'environment' : 'user')}
+            className="text-xs font-semibold text-slate-500 hover:text-slate-700"
+          >
+            Switch camera
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-600 hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCapture}
+              disabled={!isReady}
+              className="px-5 py-2 rounded-xl text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 shadow-md disabled:opacity-50"
+            >
+              Take Photo
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
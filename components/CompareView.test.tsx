@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { GenerationJob } from '../types';
+import { CompareView } from './CompareView';
+
+const job = (variation: number, patch: Partial<GenerationJob> = {}): GenerationJob => ({
+  id: `job-${variation}`,
+  batchId: 'batch',
+  scene: "Kitchen",
+  sceneDescription: "A bright kitchen",
+  categoryId: null,
+  variation,
+  platformId: 'instagram-feed',
+  promptTemplate: "",
+  people: [{ base64: 'cA==', mimeType: 'image/jpeg', role: "Model" }],
+  products: [{ base64: 'cQ==', mimeType: 'image/png', role: "" }],
+  status: 'succeeded',
+  image: `data:image/png;base64,v${variation}`,
+  model: 'test-model',
+  prompt: "prompt",
+  error: null,
+  errorCode: null,
+  retryAt: null,
+  rating: null,
+  isWinner: false,
+  copy: null,
+  ...patch,
+});
+
+const renderCompare = (jobs: GenerationJob[]) => {
+  const handlers = { onRate: vi.fn(), onPickWinner: vi.fn(), onClose: vi.fn() };
+  render(<CompareView jobs={jobs} {...handlers} />);
+  return handlers;
+};
+
+describe('CompareView', () => {
+  it('rates and picks a winner from the grid', async () => {
+    const user = userEvent.setup();
+    const { onRate, onPickWinner } = renderCompare([job(1, { rating: 4 }), job(2, { isWinner: true })]);
+
+    const firstPane = within(screen.getByRole('radiogroup', { name: "Rate Kitchen variation 1" }));
+    expect(firstPane.getByRole('radio', { name: "4 stars" })).toHaveAttribute('aria-checked', 'true');
+
+    await user.click(firstPane.getByRole('radio', { name: "2 stars" }));
+    await user.click(firstPane.getByRole('radio', { name: "4 stars" }));
+    expect(onRate.mock.calls).toEqual([['job-1', 2], ['job-1', null]]);
+
+    // Only the current winner lacks the button.
+    await user.click(screen.getByRole('button', { name: "Pick as winner" }));
+    expect(onPickWinner).toHaveBeenCalledWith('job-1');
+  });
+
+  it('zooms every pane together', async () => {
+    const user = userEvent.setup();
+    renderCompare([job(1), job(2), job(3)]);
+
+    await user.click(screen.getByRole('button', { name: "Zoom in" }));
+    const transforms = screen.getAllByRole('img', { name: /variation/ }).map(img => img.style.transform);
+    expect(transforms).toEqual(Array(3).fill('translate(0px, 0px) scale(1.5)'));
+
+    await user.click(screen.getByRole('button', { name: "Reset" }));
+    expect(screen.getByText("100%")).toBeInTheDocument();
+  });
+
+  it('slides between a result and its source photo', async () => {
+    const user = userEvent.setup();
+    renderCompare([job(1), job(2)]);
+
+    await user.click(screen.getByRole('button', { name: "slider" }));
+    await user.selectOptions(screen.getByRole('combobox', { name: "Right image" }), 'Source: Model');
+    expect(screen.getByRole('img', { name: "Source: Model" })).toHaveAttribute('src', 'data:image/jpeg;base64,cA==');
+
+    fireEvent.change(screen.getByRole('slider', { name: "Slider position" }), { target: { value: '30' } });
+    const leftImage = screen.getByRole('img', { name: "Kitchen · variation 1" });
+    expect(leftImage.parentElement).toHaveStyle({ clipPath: 'inset(0 70% 0 0)' });
+  });
+
+  it('offers the source photos of every compared job, each once', async () => {
+    const user = userEvent.setup();
+    const other = { base64: 'cg==', mimeType: 'image/jpeg', role: "Friend" };
+    renderCompare([job(1), job(2), job(3, { people: [other] })]);
+
+    await user.click(screen.getByRole('button', { name: "slider" }));
+    const options = within(screen.getByRole('combobox', { name: "Right image" })).getAllByRole('option').map(option => option.textContent);
+    expect(options.filter(label => label?.startsWith('Source'))).toEqual(['Source: Model', 'Source: Friend', 'Source: product 1']);
+  });
+});
@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import type { GenerationJob } from '../types';
+import { StarRating } from './StarRating';
+
+interface CompareViewProps {
+  /** Two to four finished results to compare. */
+  jobs: GenerationJob[];
+  onRate: (jobId: string, rating: number | null) => void;
+  onPickWinner: (jobId: string) => void;
+  onClose: () => void;
+}
+
+interface CompareItem {
+  id: string;
+  label: string;
+  src: string;
+  job: GenerationJob | null;
+}
+
+type Mode = 'grid' | 'slider';
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'grid-cols-2',
+  3: 'grid-cols-2 lg:grid-cols-3',
+  4: 'grid-cols-2 lg:grid-cols-4',
+};
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/** The source photos of every compared job; jobs from one batch share theirs, so each photo is listed once. */
+const toSourceItems = (jobs: GenerationJob[], kind: 'person' | 'product'): CompareItem[] => {
+  const seen = new Set<string>();
+  return jobs
+    .flatMap(job => kind === 'person' ? job.people : job.products)
+    .filter(image => {
+      if (seen.has(image.base64)) return false;
+      seen.add(image.base64);
+      return true;
+    })
+    .map((image, i) => ({
+      id: `${kind}-${i}`,
+      label: `Source: ${image.role || `${kind} ${i + 1}`}`,
+      src: `data:${image.mimeType};base64,${image.base64}`,
+      job: null,
+    }));
+};
+
+const toCompareItems = (jobs: GenerationJob[]): CompareItem[] => [
+  ...jobs.map(job => ({ id: job.id, label: `${job.scene} · variation ${job.variation}`, src: job.image!, job })),
+  ...toSourceItems(jobs, 'person'),
+  ...toSourceItems(jobs, 'product'),
+];
+
+export const CompareView: React.FC<CompareViewProps> = ({ jobs, onRate, onPickWinner, onClose }) => {
+  const items = toCompareItems(jobs);
+  const [mode, setMode] = useState<Mode>('grid');
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const [leftId, setLeftId] = useState(items[0].id);
+  const [rightId, setRightId] = useState(items[1].id);
+  const [position, setPosition] = useState(50);
+  const dragRef = useRef<{ startX: number; startY: number; x: number; y: number } | null>(null);
+
+  const left = items.find(item => item.id === leftId) ?? items[0];
+  const right = items.find(item => item.id === rightId) ?? items[1];
+
+  // Every pane shares one transform, so zooming or panning any of them moves all of them.
+  const zoomBy = (factor: number) => {
+    setView(prev => {
+      const scale = clampScale(prev.scale * factor);
+      return scale === MIN_SCALE ? IDENTITY : { ...prev, scale };
+    });
+  };
+
+  const panHandlers = {
+    onWheel: (e: React.WheelEvent) => zoomBy(e.deltaY < 0 ? 1.15 : 1 / 1.15),
+    onPointerDown: (e: React.PointerEvent) => {
+      dragRef.current = { startX: e.clientX, startY: e.clientY, x: view.x, y: view.y };
+      e.currentTarget.setPointerCapture?.(e.pointerId);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || view.scale === MIN_SCALE) return;
+      setView(prev => ({ ...prev, x: drag.x + e.clientX - drag.startX, y: drag.y + e.clientY - drag.startY }));
+    },
+    onPointerUp: () => { dragRef.current = null; },
+    onPointerLeave: () => { dragRef.current = null; },
+  };
+
+  const imageStyle: React.CSSProperties = {
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+  };
+
+  const paneFooter = (job: GenerationJob) => (
+    <div className="flex items-center justify-between gap-2 px-3 py-2 bg-white">
+      <StarRating value={job.rating} onChange={(rating) => onRate(job.id, rating)} label={`Rate ${job.scene} variation ${job.variation}`} />
+      {job.isWinner ? (
+        <span className="text-xs font-bold text-emerald-600">Winner</span>
+      ) : (
+        <button onClick={() => onPickWinner(job.id)} className="text-xs font-bold text-indigo-600 hover:text-indigo-700">
+          Pick as winner
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-6xl max-h-full overflow-y-auto">
+        <div className="flex flex-wrap items-center gap-3 p-5 border-b border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800">Compare {jobs.length} results</h3>
+          <div className="flex gap-1 text-xs font-semibold">
+            {(['grid', 'slider'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1.5 rounded-lg capitalize ${mode === m ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1 text-xs font-semibold text-slate-500">
+            <button onClick={() => zoomBy(1 / 1.5)} className="px-2 py-1 rounded-lg hover:bg-slate-100" aria-label="Zoom out">−</button>
+            <span className="w-12 text-center">{Math.round(view.scale * 100)}%</span>
+            <button onClick={() => zoomBy(1.5)} className="px-2 py-1 rounded-lg hover:bg-slate-100" aria-label="Zoom in">+</button>
+            <button onClick={() => setView(IDENTITY)} className="px-2 py-1 rounded-lg hover:bg-slate-100">Reset</button>
+          </div>
+          <button onClick={onClose} className="ml-auto px-4 py-2 rounded-xl text-sm font-semibold text-slate-600 hover:bg-slate-100">
+            Done
+          </button>
+        </div>
+
+        {mode === 'grid' ? (
+          <div className={`p-5 grid gap-4 ${GRID_COLUMNS[jobs.length] ?? GRID_COLUMNS[4]}`}>
+            {jobs.map(job => (
+              <div key={job.id} className={`rounded-xl overflow-hidden ring-2 ${job.isWinner ? 'ring-emerald-500' : 'ring-slate-200'}`}>
+                <div className="aspect-square bg-slate-100 overflow-hidden cursor-grab touch-none" {...panHandlers}>
+                  <img
+                    src={job.image!}
+                    alt={`${job.scene} variation ${job.variation}`}
+                    className="w-full h-full object-contain select-none pointer-events-none"
+                    style={imageStyle}
+                    draggable={false}
+                  />
+                </div>
+                {paneFooter(job)}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="p-5 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {([[leftId, setLeftId, "Left"], [rightId, setRightId, "Right"]] as const).map(([value, setValue, label]) => (
+                <select
+                  key={label}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm"
+                  aria-label={`${label} image`}
+                >
+                  {items.map(item => <option key={item.id} value={item.id}>{item.label}</option>)}
+                </select>
+              ))}
+            </div>
+            <div className="relative max-w-2xl mx-auto aspect-square bg-slate-100 rounded-xl overflow-hidden cursor-grab touch-none" {...panHandlers}>
+              <img src={right.src} alt={right.label} className="absolute inset-0 w-full h-full object-contain select-none pointer-events-none" style={imageStyle} draggable={false} />
+              <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+                <img src={left.src} alt={left.label} className="absolute inset-0 w-full h-full object-contain select-none pointer-events-none" style={imageStyle} draggable={false} />
+              </div>
+              <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }} />
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={position}
+              onChange={(e) => setPosition(Number(e.target.value))}
+              className="block w-full max-w-2xl mx-auto accent-indigo-600"
+              aria-label="Slider position"
+            />
+            <div className="grid grid-cols-2 gap-4 max-w-2xl mx-auto">
+              {[left, right].map((item, i) => (
+                <div key={i} className="rounded-xl ring-1 ring-slate-200 overflow-hidden">
+                  {item.job ? paneFooter(item.job) : <p className="px-3 py-2 text-xs text-slate-400">{item.label}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import type { CaptionLength, CaptionTone, PlatformPreset, PostCopy } from '../types';
+import {
+  ALT_TEXT_LIMIT,
+  CAPTION_LENGTHS,
+  CAPTION_TONES,
+  DEFAULT_LENGTH,
+  DEFAULT_TONE,
+  countCharacters,
+  formatPostText,
+  getCopyIssues,
+  parseHashtags,
+} from '../services/copyService';
+import { toGenerationError } from '../services/generationErrors';
+
+interface CopyPanelProps {
+  copy: PostCopy | null;
+  /** The platform the image was generated for, whose limits the copy is checked against. */
+  platform: PlatformPreset;
+  onWrite: (tone: CaptionTone, length: CaptionLength) => Promise<void>;
+  /** Called with the edited copy when a field loses focus. */
+  onChange: (copy: PostCopy) => void;
+}
+
+interface Draft {
+  caption: string;
+  hashtags: string;
+  altText: string;
+}
+
+const toDraft = (copy: PostCopy | null): Draft => ({
+  caption: copy?.caption ?? "",
+  hashtags: copy?.hashtags.join(' ') ?? "",
+  altText: copy?.altText ?? "",
+});
+
+const fieldClass = "w-full px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const selectClass = "px-2 py-1 rounded-lg border border-slate-200 bg-white text-xs";
+
+export const CopyPanel: React.FC<CopyPanelProps> = ({ copy, platform, onWrite, onChange }) => {
+  const [tone, setTone] = useState<CaptionTone>(copy?.tone ?? DEFAULT_TONE);
+  const [length, setLength] = useState<CaptionLength>(copy?.length ?? DEFAULT_LENGTH);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(copy));
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A freshly written copy replaces whatever was being edited.
+  useEffect(() => {
+    setDraft(toDraft(copy));
+  }, [copy]);
+
+  const edited: PostCopy = { caption: draft.caption, hashtags: parseHashtags(draft.hashtags), altText: draft.altText, tone, length };
+  const issues = copy || draft.caption ? getCopyIssues(edited, platform) : [];
+  const postLength = countCharacters(formatPostText(edited));
+
+  const commit = () => {
+    if (!copy && !draft.caption && !draft.hashtags && !draft.altText) return;
+    if (copy && formatPostText(copy) === formatPostText(edited) && copy.altText === edited.altText) return;
+    onChange(edited);
+  };
+
+  const handleWrite = async () => {
+    setIsWriting(true);
+    setError(null);
+    try {
+      await onWrite(tone, length);
+    } catch (err) {
+      setError(toGenerationError(err).message);
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  return (
+    <div className="px-4 pb-4 space-y-3 border-t border-slate-100 pt-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={tone} onChange={(e) => setTone(e.target.value as CaptionTone)} className={selectClass} aria-label="Tone">
+          {CAPTION_TONES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+        </select>
+        <select value={length} onChange={(e) => setLength(e.target.value as CaptionLength)} className={selectClass} aria-label="Length">
+          {CAPTION_LENGTHS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+        </select>
+        <button
+          onClick={handleWrite}
+          disabled={isWriting}
+          className="ml-auto px-3 py-1 rounded-lg text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isWriting ? "Writing..." : copy ? "Rewrite" : "Write copy"}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <label className="block">
+        <span className="flex justify-between text-[11px] font-semibold text-slate-500 mb-1">
+          Caption
+          <span className={postLength > platform.captionLimit ? 'text-red-600' : ''}>{postLength} / {platform.captionLimit}</span>
+        </span>
+        <textarea
+          value={draft.caption}
+          onChange={(e) => setDraft({ ...draft, caption: e.target.value })}
+          onBlur={commit}
+          rows={3}
+          className={fieldClass}
+        />
+      </label>
+      <label className="block">
+        <span className="block text-[11px] font-semibold text-slate-500 mb-1">Hashtags</span>
+        <input
+          value={draft.hashtags}
+          onChange={(e) => setDraft({ ...draft, hashtags: e.target.value })}
+          onBlur={commit}
+          placeholder={platform.hashtagLimit === 0 ? "Not used on this platform" : "#ugc #skincare"}
+          className={fieldClass}
+        />
+      </label>
+      <label className="block">
+        <span className="flex justify-between text-[11px] font-semibold text-slate-500 mb-1">
+          Alt text
+          <span className={countCharacters(draft.altText) > ALT_TEXT_LIMIT ? 'text-red-600' : ''}>{countCharacters(draft.altText)} / {ALT_TEXT_LIMIT}</span>
+        </span>
+        <textarea
+          value={draft.altText}
+          onChange={(e) => setDraft({ ...draft, altText: e.target.value })}
+          onBlur={commit}
+          rows={2}
+          className={fieldClass}
+        />
+      </label>
+
+      {issues.length > 0 && (
+        <ul className="text-xs text-amber-700 space-y-1">
+          {issues.map(issue => <li key={issue}>{issue}</li>)}
+        </ul>
+      )}
+
+      {draft.caption && (
+        <button
+          onClick={() => navigator.clipboard?.writeText(formatPostText(edited))}
+          className="text-xs font-semibold text-indigo-600 hover:text-indigo-700"
+        >
+          Copy caption and hashtags
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState, useRef, useCallback } from 'react';
+import ReactCrop, { centerCrop, makeAspectCrop, type Crop, type PercentCrop } from 'react-image-crop';
+import type { CropSettings } from '../types';
+import { CropIcon } from './Icons';
+
+interface CropEditorProps {
+  source: string;
+  initial: CropSettings | null;
+  onApply: (settings: CropSettings, croppedDataUrl: string) => void;
+  onCancel: () => void;
+}
+
+const ASPECT_PRESETS: { label: string; value: number | null }[] = [
+  { label: "Free", value: null },
+  { label: "1:1", value: 1 },
+  { label: "4:5", value: 4 / 5 },
+  { label: "3:4", value: 3 / 4 },
+  { label: "9:16", value: 9 / 16 },
+  { label: "16:9", value: 16 / 9 },
+];
+
+const FULL_CROP: PercentCrop = { unit: '%', x: 0, y: 0, width: 100, height: 100 };
+
+const centeredAspectCrop = (aspect: number, width: number, height: number): PercentCrop =>
+  centerCrop(makeAspectCrop({ unit: '%', width: 90 }, aspect, width, height), width, height);
+
+/**
+ * Renders the selected region of the image to a JPEG data URL.
+ * Zoom and rotation are applied around the image centre, matching the CSS transform of the editor preview.
+ */
+const renderCrop = (image: HTMLImageElement, crop: PercentCrop, scale: number, rotate: number): string => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+
+  const { naturalWidth, naturalHeight } = image;
+  const cropX = (crop.x / 100) * naturalWidth;
+  const cropY = (crop.y / 100) * naturalHeight;
+
+  canvas.width = Math.max(1, Math.round((crop.width / 100) * naturalWidth));
+  canvas.height = Math.max(1, Math.round((crop.height / 100) * naturalHeight));
+  ctx.imageSmoothingQuality = 'high';
+
+  const centerX = naturalWidth / 2;
+  const centerY = naturalHeight / 2;
+
+  ctx.save();
+  ctx.translate(-cropX, -cropY);
+  ctx.translate(centerX, centerY);
+  ctx.rotate((rotate * Math.PI) / 180);
+  ctx.scale(scale, scale);
+  ctx.translate(-centerX, -centerY);
+  ctx.drawImage(image, 0, 0, naturalWidth, naturalHeight);
+  ctx.restore();
+
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
+
+export const CropEditor: React.FC<CropEditorProps> = ({ source, initial, onApply, onCancel }) => {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const [crop, setCrop] = useState<Crop>(initial ? { unit: '%', ...initial.crop } : FULL_CROP);
+  const [aspect, setAspect] = useState<number | null>(initial?.aspect ?? null);
+  const [scale, setScale] = useState<number>(initial?.scale ?? 1);
+  const [rotate, setRotate] = useState<number>(initial?.rotate ?? 0);
+
+  const handleAspectChange = useCallback((value: number | null) => {
+    setAspect(value);
+    const img = imgRef.current;
+    if (!img) return;
+    setCrop(value ? centeredAspectCrop(value, img.width, img.height) : FULL_CROP);
+  }, []);
+
+  const handleReset = () => {
+    setAspect(null);
+    setScale(1);
+    setRotate(0);
+    setCrop(FULL_CROP);
+  };
+
+  const handleApply = () => {
+    const img = imgRef.current;
+    if (!img || !crop.width || !crop.height) return;
+    const percentCrop = crop as PercentCrop;
+    const settings: CropSettings = {
+      crop: { x: percentCrop.x, y: percentCrop.y, width: percentCrop.width, height: percentCrop.height },
+      aspect,
+      scale,
+      rotate,
+    };
+    onApply(settings, renderCrop(img, percentCrop, scale, rotate));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-full overflow-y-auto">
+        <div className="flex items-center gap-3 p-5 border-b border-slate-100">
+          <CropIcon />
+          <h3 className="text-lg font-bold text-slate-800">Crop & Frame</h3>
+        </div>
+
+        <div className="p-5 space-y-5">
+          {/* Aspect Presets */}
+          <div className="flex flex-wrap gap-2">
+            {ASPECT_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                onClick={() => handleAspectChange(preset.value)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors
+                  ${aspect === preset.value
+                    ? 'bg-slate-800 text-white'
+                    : 'bg-white text-slate-600 border border-slate-200 hover:border-indigo-300'
+                  }`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Crop Surface */}
+          <div className="bg-slate-900 rounded-2xl flex items-center justify-center overflow-hidden p-2">
+            <ReactCrop
+              crop={crop}
+              aspect={aspect ?? undefined}
+              onChange={(_, percentCrop) => setCrop(percentCrop)}
+              keepSelection
+            >
+              <img
+                ref={imgRef}
+                src={source}
+                alt="Crop source"
+                className="max-h-[50vh] object-contain"
+                style={{ transform: `scale(${scale}) rotate(${rotate}deg)` }}
+              />
+            </ReactCrop>
+          </div>
+
+          {/* Zoom & Rotate */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="text-xs font-semibold text-slate-500 space-y-1">
+              <span>Zoom ({scale.toFixed(2)}x)</span>
+              <input
+                type="range"
+                min={1}
+                max={3}
+                step={0.01}
+                value={scale}
+                onChange={(e) => setScale(Number(e.target.value))}
+                className="w-full accent-indigo-600"
+              />
+            </label>
+            <label className="text-xs font-semibold text-slate-500 space-y-1">
+              <span>Rotate ({rotate}°)</span>
+              <input
+                type="range"
+                min={-180}
+                max={180}
+                step={1}
+                value={rotate}
+                onChange={(e) => setRotate(Number(e.target.value))}
+                className="w-full accent-indigo-600"
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-5 border-t border-slate-100 bg-slate-50">
+          <button onClick={handleReset} className="text-xs font-semibold text-slate-500 hover:text-slate-700">
+            Reset
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-600 hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              className="px-5 py-2 rounded-xl text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 shadow-md"
+            >
+              Apply Crop
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
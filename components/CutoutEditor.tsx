@@ -0,0 +1,195 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { ScissorsIcon } from './Icons';
+import type { Pixels } from '../services/imageQualityService';
+import {
+  DEFAULT_TOLERANCE,
+  applyMask,
+  computeCutoutMask,
+  paintMask,
+  readImagePixels,
+  renderCutout,
+} from '../services/backgroundRemoval';
+
+interface CutoutEditorProps {
+  /** The cropped product image the cutout is made from. */
+  source: string;
+  onApply: (cutoutDataUrl: string) => void;
+  onCancel: () => void;
+}
+
+type BrushMode = 'erase' | 'restore';
+
+const CHECKERBOARD = "bg-[conic-gradient(#e2e8f0_25%,#fff_0_50%,#e2e8f0_0_75%,#fff_0)] bg-[length:20px_20px]";
+
+export const CutoutEditor: React.FC<CutoutEditorProps> = ({ source, onApply, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const maskRef = useRef<Uint8ClampedArray | null>(null);
+  const paintingRef = useRef(false);
+  const [pixels, setPixels] = useState<Pixels | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tolerance, setTolerance] = useState(DEFAULT_TOLERANCE);
+  const [brushMode, setBrushMode] = useState<BrushMode>('erase');
+  const [brushSize, setBrushSize] = useState(20);
+
+  useEffect(() => {
+    let cancelled = false;
+    readImagePixels(source)
+      .then(result => { if (!cancelled) setPixels(result); })
+      .catch(err => {
+        console.error("Cutout source could not be read:", err);
+        if (!cancelled) setError("This image could not be read.");
+      });
+    return () => { cancelled = true; };
+  }, [source]);
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const mask = maskRef.current;
+    if (!canvas || !pixels || !mask) return;
+    const ctx = canvas.getContext('2d');
+    ctx?.putImageData(new ImageData(applyMask(pixels, mask), pixels.width, pixels.height), 0, 0);
+  }, [pixels]);
+
+  // A new tolerance recomputes the key from scratch, discarding brush strokes.
+  useEffect(() => {
+    if (!pixels) return;
+    maskRef.current = computeCutoutMask(pixels, tolerance);
+    redraw();
+  }, [pixels, tolerance, redraw]);
+
+  const paintAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const mask = maskRef.current;
+    if (!canvas || !pixels || !mask) return;
+    const rect = canvas.getBoundingClientRect();
+    const scale = pixels.width / rect.width;
+    const x = (event.clientX - rect.left) * scale;
+    const y = (event.clientY - rect.top) * scale;
+    paintMask(mask, pixels.width, pixels.height, x, y, (brushSize / 2) * scale, brushMode === 'erase' ? 0 : 255);
+    redraw();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    paintingRef.current = true;
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    paintAt(event);
+  };
+
+  const handleReset = () => {
+    setTolerance(DEFAULT_TOLERANCE);
+    if (!pixels) return;
+    maskRef.current = computeCutoutMask(pixels, DEFAULT_TOLERANCE);
+    redraw();
+  };
+
+  const handleApply = () => {
+    if (!pixels || !maskRef.current) return;
+    onApply(renderCutout(pixels, maskRef.current));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-full overflow-y-auto">
+        <div className="flex items-center gap-3 p-5 border-b border-slate-100">
+          <ScissorsIcon />
+          <h3 className="text-lg font-bold text-slate-800">Isolate Product</h3>
+        </div>
+
+        <div className="p-5 space-y-5">
+          <p className="text-xs text-slate-500">
+            The background colour is picked from the image edges and removed. Raise the tolerance for uneven
+            backdrops, then brush over anything that was missed or cut away by mistake.
+          </p>
+
+          {/* Cutout Surface */}
+          <div className={`rounded-2xl flex items-center justify-center overflow-hidden p-2 min-h-48 ${CHECKERBOARD}`}>
+            {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+            {!pixels && !error && (
+              <div className="w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+            )}
+            {pixels && (
+              <canvas
+                ref={canvasRef}
+                width={pixels.width}
+                height={pixels.height}
+                aria-label="Cutout preview"
+                className="max-h-[50vh] max-w-full object-contain cursor-crosshair touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={(e) => paintingRef.current && paintAt(e)}
+                onPointerUp={() => { paintingRef.current = false; }}
+                onPointerLeave={() => { paintingRef.current = false; }}
+              />
+            )}
+          </div>
+
+          {/* Key & Brush */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <label className="text-xs font-semibold text-slate-500 space-y-1">
+              <span>Tolerance ({tolerance})</span>
+              <input
+                type="range"
+                min={5}
+                max={160}
+                step={1}
+                value={tolerance}
+                onChange={(e) => setTolerance(Number(e.target.value))}
+                className="w-full accent-indigo-600"
+              />
+            </label>
+            <div className="text-xs font-semibold text-slate-500 space-y-1">
+              <span>Brush</span>
+              <div className="flex gap-2">
+                {(['erase', 'restore'] as BrushMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setBrushMode(mode)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors
+                      ${brushMode === mode
+                        ? 'bg-slate-800 text-white'
+                        : 'bg-white text-slate-600 border border-slate-200 hover:border-indigo-300'
+                      }`}
+                  >
+                    {mode === 'erase' ? "Erase" : "Restore"}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="text-xs font-semibold text-slate-500 space-y-1">
+              <span>Brush size ({brushSize}px)</span>
+              <input
+                type="range"
+                min={4}
+                max={80}
+                step={1}
+                value={brushSize}
+                onChange={(e) => setBrushSize(Number(e.target.value))}
+                className="w-full accent-indigo-600"
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-5 border-t border-slate-100 bg-slate-50">
+          <button onClick={handleReset} className="text-xs font-semibold text-slate-500 hover:text-slate-700">
+            Reset
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-600 hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!pixels}
+              className="px-5 py-2 rounded-xl text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 shadow-md disabled:opacity-50"
+            >
+              Use Cutout
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useRef } from 'react';
+import type { ExportSettings, WatermarkPosition, WatermarkSettings } from '../types';
+import { EXPORT_FORMATS, EXPORT_SCALES, prepareLogo } from '../services/exportService';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  /** Suggested watermark text, e.g. the active brand kit's name. */
+  brandName?: string;
+}
+
+const POSITIONS: { id: WatermarkPosition; label: string }[] = [
+  { id: 'top-left', label: "Top left" },
+  { id: 'top-right', label: "Top right" },
+  { id: 'bottom-left', label: "Bottom left" },
+  { id: 'bottom-right', label: "Bottom right" },
+];
+
+const fieldClass = "w-full px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm";
+
+export const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, onChange, brandName }) => {
+  const logoRef = useRef<HTMLInputElement>(null);
+  const { watermark } = settings;
+
+  const setWatermark = (patch: Partial<WatermarkSettings>) => {
+    onChange({ ...settings, watermark: { ...watermark, ...patch } });
+  };
+
+  const handleLogo = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setWatermark({ logo: await prepareLogo(file), enabled: true });
+    } catch (err) {
+      console.error("Logo could not be read:", err);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-6 bg-slate-50 border-b border-slate-100">
+      {/* Encoding */}
+      <div className="grid grid-cols-3 gap-3 content-start">
+        <label className="block">
+          <span className="text-xs font-semibold text-slate-500">Format</span>
+          <select
+            value={settings.format}
+            onChange={(e) => onChange({ ...settings, format: e.target.value as ExportSettings['format'] })}
+            className={`mt-1 ${fieldClass}`}
+          >
+            {EXPORT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-semibold text-slate-500">Upscale</span>
+          <select
+            value={settings.scale}
+            onChange={(e) => onChange({ ...settings, scale: Number(e.target.value) })}
+            className={`mt-1 ${fieldClass}`}
+          >
+            {EXPORT_SCALES.map(s => <option key={s} value={s}>{s}×</option>)}
+          </select>
+        </label>
+        <label className={`block ${settings.format === 'png' ? 'opacity-40' : ''}`}>
+          <span className="text-xs font-semibold text-slate-500">Quality ({Math.round(settings.quality * 100)})</span>
+          <input
+            type="range"
+            min={0.5}
+            max={1}
+            step={0.01}
+            value={settings.quality}
+            disabled={settings.format === 'png'}
+            onChange={(e) => onChange({ ...settings, quality: Number(e.target.value) })}
+            className="mt-3 w-full accent-indigo-600"
+          />
+        </label>
+        <p className="col-span-3 text-[11px] text-slate-400">
+          Prompt, scene and model are written into the file's EXIF and XMP metadata.
+        </p>
+      </div>
+
+      {/* Watermark */}
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+          <input
+            type="checkbox"
+            checked={watermark.enabled}
+            onChange={(e) => setWatermark({ enabled: e.target.checked })}
+            className="accent-indigo-600"
+          />
+          Watermark
+        </label>
+        <div className={`grid grid-cols-2 gap-3 ${watermark.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+          <input
+            value={watermark.text}
+            onChange={(e) => setWatermark({ text: e.target.value })}
+            placeholder={brandName ? `e.g. ${brandName}` : "Watermark text"}
+            className={fieldClass}
+            aria-label="Watermark text"
+          />
+          <select
+            value={watermark.position}
+            onChange={(e) => setWatermark({ position: e.target.value as WatermarkPosition })}
+            className={fieldClass}
+            aria-label="Watermark position"
+          >
+            {POSITIONS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <div className="flex items-center gap-2">
+            {watermark.logo && <img src={watermark.logo} alt="Logo" className="h-8 w-8 object-contain rounded bg-white border border-slate-200" />}
+            <button onClick={() => logoRef.current?.click()} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+              {watermark.logo ? 'Change logo' : 'Add logo'}
+            </button>
+            {watermark.logo && (
+              <button onClick={() => setWatermark({ logo: null })} className="text-xs font-semibold text-slate-400 hover:text-red-500">
+                Remove
+              </button>
+            )}
+            <input ref={logoRef} type="file" accept="image/png, image/svg+xml, image/webp, image/jpeg" className="hidden" onChange={handleLogo} />
+          </div>
+          <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+            Opacity
+            <input
+              type="range"
+              min={0.2}
+              max={1}
+              step={0.05}
+              value={watermark.opacity}
+              onChange={(e) => setWatermark({ opacity: Number(e.target.value) })}
+              className="flex-1 accent-indigo-600"
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
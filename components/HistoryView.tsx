@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import type { GenerationRecord, SceneCategory } from '../types';
+import { listGenerations, deleteGeneration } from '../services/historyService';
+import { getPlatformPreset } from '../services/platformService';
+import { formatPostText } from '../services/copyService';
+import { DownloadIcon, SparklesIcon, XCircleIcon } from './Icons';
+import { StarRating } from './StarRating';
+
+interface HistoryViewProps {
+  categories: SceneCategory[];
+  onDownload: (record: GenerationRecord) => void;
+  onRegenerate: (record: GenerationRecord) => void;
+}
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ categories, onDownload, onRegenerate }) => {
+  const [records, setRecords] = useState<GenerationRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+
+  useEffect(() => {
+    listGenerations()
+      .then(setRecords)
+      .catch((err) => {
+        console.error("Failed to load history:", err);
+        setError("Could not load your saved generations.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = useCallback(async (id: string) => {
+    try {
+      await deleteGeneration(id);
+      setRecords(prev => prev.filter(r => r.id !== id));
+    } catch (err) {
+      console.error("Failed to delete generation:", err);
+    }
+  }, []);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return records.filter(record =>
+      (!categoryFilter || record.categoryId === categoryFilter) &&
+      (!needle || [record.scene, record.prompt, record.copy?.caption ?? ""].some(text => text.toLowerCase().includes(needle)))
+    );
+  }, [records, query, categoryFilter]);
+
+  return (
+    <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 border-b border-slate-200/60 pb-4 md:pb-6">
+        <h2 className="text-lg md:text-xl font-bold text-slate-800">History</h2>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search scenes and prompts..."
+          className="w-full md:w-72 px-4 py-2 rounded-xl border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        <button
+          onClick={() => setCategoryFilter(null)}
+          className={`px-3 py-1.5 rounded-xl text-xs font-semibold transition-colors
+            ${categoryFilter === null ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:border-indigo-300'}`}
+        >
+          All
+        </button>
+        {categories.map((category) => (
+          <button
+            key={category.id}
+            onClick={() => setCategoryFilter(category.id)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-semibold transition-colors
+              ${categoryFilter === category.id ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:border-indigo-300'}`}
+          >
+            <span>{category.icon}</span>
+            <span>{category.label}</span>
+          </button>
+        ))}
+      </div>
+
+      {isLoading && <p className="text-sm text-slate-500 text-center py-12">Loading history...</p>}
+      {error && <p className="text-sm text-red-600 text-center py-12">{error}</p>}
+      {!isLoading && !error && filtered.length === 0 && (
+        <p className="text-sm text-slate-500 text-center py-12">
+          {records.length === 0 ? "Nothing generated yet. Your results will be saved here." : "No generations match your filters."}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {filtered.map((record) => (
+          <div key={record.id} className="flex flex-col rounded-xl overflow-hidden shadow-lg ring-1 ring-slate-200 bg-white">
+            <div className="relative aspect-square bg-slate-100">
+              <img src={record.image} alt={record.copy?.altText || record.scene} className="w-full h-full object-contain block" />
+              {record.isWinner && (
+                <span className="absolute top-3 right-3 px-2 py-1 rounded-full bg-emerald-500 text-white text-[10px] font-bold uppercase tracking-wider">
+                  Winner
+                </span>
+              )}
+            </div>
+            <div className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <div className="flex -space-x-2 shrink-0">
+                  {[...record.peopleThumbnails, ...record.productThumbnails].map((thumbnail, i) => (
+                    <img key={i} src={thumbnail} alt="Input" className="w-9 h-9 rounded-lg object-cover ring-2 ring-white" />
+                  ))}
+                </div>
+                <div className="min-w-0 ml-1">
+                  <p className="text-sm font-semibold text-slate-800 truncate">{record.scene}</p>
+                  <p className="text-xs text-slate-400 truncate">
+                    {new Date(record.createdAt).toLocaleString()} · {getPlatformPreset(record.platformId).label}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-[11px] text-slate-400 truncate" title={record.model}>{record.model}</p>
+                {record.rating !== null && <StarRating value={record.rating} label="Rating" />}
+              </div>
+              {record.copy && (
+                <p className="text-xs text-slate-600 line-clamp-3 whitespace-pre-line" title={formatPostText(record.copy)}>
+                  {formatPostText(record.copy)}
+                </p>
+              )}
+              <div className="flex items-center justify-between gap-2 pt-2 border-t border-slate-100">
+                <button
+                  onClick={() => onRegenerate(record)}
+                  className="flex items-center gap-1.5 text-xs font-bold text-indigo-600 hover:text-indigo-700 [&_svg]:h-4 [&_svg]:w-4"
+                >
+                  <SparklesIcon /> Regenerate
+                </button>
+                <div className="flex items-center gap-3">
+                  <button onClick={() => onDownload(record)} className="text-slate-400 hover:text-indigo-600" title="Download">
+                    <DownloadIcon />
+                  </button>
+                  <button onClick={() => handleDelete(record.id)} className="text-slate-400 hover:text-red-500" title="Delete">
+                    <XCircleIcon />
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
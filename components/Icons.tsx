@@ -51,3 +51,16 @@ export const CropIcon: React.FC = () => (
         <path strokeLinecap="round" strokeLinejoin="round" d="M14.121 5.879A3 3 0 0112 5H5a2 2 0 00-2 2v7a3 3 0 01-3 3V7a5 5 0 015-5h7.121zM18 12a2 2 0 012 2v5a2 2 0 01-2 2h-7a2 2 0 01-2-2v-5a2 2 0 012-2h7z" />
     </svg>
 );
+
+export const ScissorsIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M6 9a3 3 0 100-6 3 3 0 000 6zm0 0l12 12M6 15a3 3 0 100 6 3 3 0 000-6zm0 0L18 3" />
+    </svg>
+);
+
+export const CameraIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+    </svg>
+);
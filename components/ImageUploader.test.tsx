@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import React, { useState } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { EMPTY_IMAGE_STATE, type ImageState, type SubjectKind } from '../types';
+import { testImageSize } from '../test/setup';
+import { ImageUploader } from './ImageUploader';
+
+interface HarnessProps {
+  onChange: (state: ImageState) => void;
+  kind?: SubjectKind;
+  onExtraImages?: (images: ImageState[]) => void;
+}
+
+const Harness: React.FC<HarnessProps> = ({ onChange, kind, onExtraImages }) => {
+  const [state, setState] = useState<ImageState>(EMPTY_IMAGE_STATE);
+  return (
+    <ImageUploader
+      id="uploader"
+      title="Product"
+      kind={kind}
+      onExtraImages={onExtraImages}
+      maxExtraImages={1}
+      imageState={state}
+      setImageState={(action) => setState(prev => {
+        const next = typeof action === 'function' ? action(prev) : action;
+        onChange(next);
+        return next;
+      })}
+    />
+  );
+};
+
+const uploadedCanvasSizes = (toDataURL: ReturnType<typeof vi.spyOn>) =>
+  toDataURL.mock.contexts.map(canvas => {
+    const { width, height } = canvas as HTMLCanvasElement;
+    return [width, height];
+  });
+
+describe('ImageUploader', () => {
+  afterEach(() => {
+    Object.assign(testImageSize, { width: 800, height: 600 });
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    [{ width: 2048, height: 1024 }, [1024, 512]],
+    [{ width: 1000, height: 3000 }, [341, 1024]],
+    [{ width: 640, height: 480 }, [640, 480]],
+  ])('resizes a %o upload to fit 1024px', async (size, expected) => {
+    Object.assign(testImageSize, size);
+    const toDataURL = vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL');
+    const onChange = vi.fn();
+    render(<Harness onChange={onChange} />);
+
+    await userEvent.upload(document.getElementById('uploader') as HTMLInputElement, new File(['x'], 'p.jpg', { type: 'image/jpeg' }));
+    await screen.findByRole('button', { name: 'Apply Crop' });
+
+    expect(uploadedCanvasSizes(toDataURL)[0]).toEqual(expected);
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ croppedBase64: 'dGVzdA==', crop: null }));
+  });
+
+  it('explains why a file that is not an image cannot be used', async () => {
+    const onChange = vi.fn();
+    render(<Harness onChange={onChange} />);
+
+    await userEvent.upload(
+      document.getElementById('uploader') as HTMLInputElement,
+      new File(['x'], 'notes.txt', { type: 'text/plain' }),
+      { applyAccept: false }
+    );
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.getByText('Click to Upload')).toBeInTheDocument();
+    expect(await screen.findByRole('alert')).toHaveTextContent("notes.txt is not a supported image. Use JPG, PNG, WEBP, HEIC or AVIF.");
+  });
+
+  it('rejects oversized files with their size and the limit', async () => {
+    const onChange = vi.fn();
+    render(<Harness onChange={onChange} />);
+    const file = new File(['x'], 'huge.jpg', { type: 'image/jpeg' });
+    Object.defineProperty(file, 'size', { value: 40 * 1024 * 1024 });
+
+    await userEvent.upload(document.getElementById('uploader') as HTMLInputElement, file);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent("huge.jpg is 40.0MB; the limit is 30.0MB.");
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('takes a pasted screenshot', async () => {
+    const onChange = vi.fn();
+    render(<Harness onChange={onChange} />);
+
+    fireEvent.paste(screen.getByRole('button', { name: /paste an image/ }), {
+      clipboardData: { files: [new File(['x'], 'image.png', { type: 'image/png' })], getData: () => '' },
+    });
+
+    await screen.findByRole('button', { name: 'Apply Crop' });
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ croppedBase64: 'dGVzdA==' }));
+  });
+
+  it('imports an image from a URL', async () => {
+    const fetchMock = vi.fn(async () => ({ ok: true, status: 200, headers: new Headers(), blob: async () => new Blob(['x'], { type: 'image/jpeg' }) }));
+    vi.stubGlobal('fetch', fetchMock);
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<Harness onChange={onChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'From URL' }));
+    await user.type(screen.getByLabelText('Product image URL'), 'https://cdn.example.com/serum.jpg?w=800');
+    await user.click(screen.getByRole('button', { name: 'Import' }));
+
+    await screen.findByRole('button', { name: 'Apply Crop' });
+    expect(fetchMock).toHaveBeenCalledWith(new URL('https://cdn.example.com/serum.jpg?w=800'), expect.anything());
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ file: expect.objectContaining({ name: 'serum.jpg' }) }));
+  });
+
+  it('explains when a site blocks loading its images', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const user = userEvent.setup();
+    render(<Harness onChange={() => {}} />);
+
+    await user.click(screen.getByRole('button', { name: 'From URL' }));
+    await user.type(screen.getByLabelText('Product image URL'), 'https://example.com/a.jpg{Enter}');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/does not allow its images to be loaded here/);
+  });
+
+  it('hands the rest of a multi-file drop on, up to the room left', async () => {
+    const onExtraImages = vi.fn();
+    render(<Harness onChange={() => {}} onExtraImages={onExtraImages} />);
+    const files = ['a.jpg', 'b.jpg', 'c.jpg'].map(name => new File(['x'], name, { type: 'image/jpeg' }));
+
+    fireEvent.drop(screen.getByRole('button', { name: /paste an image/ }), { dataTransfer: { files, getData: () => '' } });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent("Only 1 more image fit; 1 skipped.");
+    expect(onExtraImages).toHaveBeenCalledWith([expect.objectContaining({ file: files[1] })]);
+  });
+
+  it('shows a quality score with tips for the uploaded photo', async () => {
+    Object.assign(testImageSize, { width: 300, height: 300 });
+    render(<Harness onChange={() => {}} kind="product" />);
+
+    await userEvent.upload(document.getElementById('uploader') as HTMLInputElement, new File(['x'], 'p.jpg', { type: 'image/jpeg' }));
+
+    // The canvas stub reads back a blank image: too small and featureless.
+    expect(await screen.findByText('50/100')).toBeInTheDocument();
+    expect(screen.getByText(/Only 300×300px/)).toBeInTheDocument();
+    expect(screen.getByText(/looks blurry/)).toBeInTheDocument();
+  });
+
+  it('says when the face check cannot run instead of passing the photo', async () => {
+    render(<Harness onChange={() => {}} kind="person" />);
+
+    await userEvent.upload(document.getElementById('uploader') as HTMLInputElement, new File(['x'], 'me.jpg', { type: 'image/jpeg' }));
+
+    expect(await screen.findByText(/Face check unavailable/)).toBeInTheDocument();
+    expect(screen.queryByText('Looks good.')).not.toBeInTheDocument();
+  });
+
+  it('isolates a product and switches between cutout and original', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<Harness onChange={onChange} kind="product" />);
+
+    await user.upload(document.getElementById('uploader') as HTMLInputElement, new File(['x'], 'p.jpg', { type: 'image/jpeg' }));
+    await user.click(await screen.findByRole('button', { name: 'Apply Crop' }));
+    await user.click(screen.getByRole('button', { name: 'Isolate product' }));
+    await user.click(await screen.findByRole('button', { name: 'Use Cutout' }));
+
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ cutout: 'data:image/jpeg;base64,dGVzdA==', useCutout: true }));
+    expect(screen.getByAltText('Cutout preview')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Original' }));
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ useCutout: false }));
+    expect(screen.getByAltText('Preview')).toBeInTheDocument();
+  });
+});
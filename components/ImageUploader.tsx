@@ -1,7 +1,12 @@
 
-import React, { useState, useRef, useCallback } from 'react';
-import type { ImageState } from '../types';
-import { UploadIcon, XCircleIcon } from './Icons';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { EMPTY_IMAGE_STATE, type CropSettings, type ImageQualityReport, type ImageState, type SubjectKind } from '../types';
+import { UploadIcon, XCircleIcon, CropIcon, ScissorsIcon } from './Icons';
+import { CameraCapture } from './CameraCapture';
+import { CropEditor } from './CropEditor';
+import { CutoutEditor } from './CutoutEditor';
+import { analyzeImage, measureOriginalSize } from '../services/imageQualityService';
+import { ACCEPTED_IMAGE_TYPES, fetchImageFile, importImageFile, readTransfer, toImportMessage } from '../services/imageImport';
 
 interface ImageUploaderProps {
   id: string;
@@ -9,89 +14,164 @@ interface ImageUploaderProps {
   description?: string;
   imageState: ImageState;
   setImageState: React.Dispatch<React.SetStateAction<ImageState>>;
+  /** Shorter drop zone for uploaders shown in a list. */
+  compact?: boolean;
+  /** What the photo should show; enables the matching quality checks. */
+  kind?: SubjectKind;
+  /**
+   * Receives the images after the first when several are dropped, pasted or picked at once,
+   * e.g. to add them as new slots. Without it only the first image is used.
+   */
+  onExtraImages?: (images: ImageState[]) => void;
+  /** How many extra images `onExtraImages` can take. */
+  maxExtraImages?: number;
 }
 
-/**
- * Resizes an image to a maximum dimension while maintaining aspect ratio.
- * This ensures the payload sent to the Gemini API is within safe limits (usually < 4MB total).
- */
-const resizeImage = (file: File, maxDimension: number = 1024): Promise<{ base64: string; preview: string }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        let width = img.width;
-        let height = img.height;
-
-        if (width > height) {
-          if (width > maxDimension) {
-            height *= maxDimension / width;
-            width = maxDimension;
-          }
-        } else {
-          if (height > maxDimension) {
-            width *= maxDimension / height;
-            height = maxDimension;
-          }
-        }
-
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return reject(new Error("Canvas context failed"));
-        
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        // We use JPEG for the optimized version to keep the size small
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
-        const base64 = dataUrl.split(',')[1];
-        resolve({ base64, preview: dataUrl });
-      };
-      img.onerror = reject;
-      img.src = e.target?.result as string;
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
-
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, imageState, setImageState }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, description, imageState, setImageState, compact = false, kind, onExtraImages, maxExtraImages = 0 }) => {
   const inputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  
-  const processFile = useCallback(async (file: File | null) => {
-    if (file && file.type.startsWith("image")) {
-      setIsProcessing(true);
+  const [isCropping, setIsCropping] = useState(false);
+  const [isIsolating, setIsIsolating] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [urlDraft, setUrlDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [quality, setQuality] = useState<ImageQualityReport | null>(null);
+
+  // Re-check whenever the image sent to the model changes (new upload or new crop).
+  // Resolution is judged on the uploaded file, since the preview has already been scaled down.
+  const { preview, file, crop } = imageState;
+  useEffect(() => {
+    setQuality(null);
+    if (!kind || !preview) return;
+    let cancelled = false;
+    (file ? measureOriginalSize(file, crop) : Promise.resolve(undefined))
+      .then(originalSize => analyzeImage(preview, kind, originalSize))
+      .then(report => { if (!cancelled) setQuality(report); })
+      .catch(err => console.error("Image quality check failed:", err));
+    return () => { cancelled = true; };
+  }, [preview, file, crop, kind]);
+
+  /** Uses the first file here and hands the rest to `onExtraImages`; any file that cannot be used is reported. */
+  const processFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsProcessing(true);
+    setError(null);
+    const problems: string[] = [];
+    try {
+      const [first, ...rest] = files;
       try {
-        const { base64, preview } = await resizeImage(file);
-        setImageState({ 
-            file: file, 
-            preview: preview, 
-            croppedBase64: base64 
-        });
+        setImageState(await importImageFile(first));
+        setIsCropping(true);
       } catch (err) {
         console.error("Image processing error:", err);
-      } finally {
-        setIsProcessing(false);
+        problems.push(toImportMessage(err));
+      }
+
+      if (rest.length > 0 && !onExtraImages) {
+        problems.push("Only the first image was used; this uploader holds one photo.");
+      } else if (rest.length > 0 && onExtraImages) {
+        if (rest.length > maxExtraImages) {
+          problems.push(`Only ${maxExtraImages} more image${maxExtraImages === 1 ? '' : 's'} fit; ${rest.length - maxExtraImages} skipped.`);
+        }
+        const extras: ImageState[] = [];
+        for (const file of rest.slice(0, maxExtraImages)) {
+          try {
+            extras.push(await importImageFile(file));
+          } catch (err) {
+            console.error("Image processing error:", err);
+            problems.push(toImportMessage(err));
+          }
+        }
+        if (extras.length > 0) onExtraImages(extras);
       }
+    } finally {
+      setError(problems.length > 0 ? problems.join(' ') : null);
+      setIsProcessing(false);
     }
-  }, [setImageState]);
-  
+  }, [setImageState, onExtraImages, maxExtraImages]);
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    processFile(event.target.files?.[0] ?? null);
+    processFiles(Array.from(event.target.files ?? []));
+    event.target.value = "";
   };
 
+  const importUrl = useCallback(async (url: string) => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const file = await fetchImageFile(url);
+      setUrlDraft(null);
+      await processFiles([file]);
+    } catch (err) {
+      console.error("Image URL import failed:", err);
+      setError(toImportMessage(err));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [processFiles]);
+
+  const handlePaste = useCallback((event: React.ClipboardEvent<HTMLDivElement>) => {
+    const { files, url } = readTransfer(event.clipboardData);
+    if (files.length === 0 && !url) return;
+    event.preventDefault();
+    if (files.length > 0) processFiles(files);
+    else if (url) importUrl(url);
+  }, [processFiles, importUrl]);
+
+  const handleOpenCamera = useCallback(() => {
+    // Without getUserMedia, phones still offer their camera app through the file input.
+    if (navigator.mediaDevices?.getUserMedia) setIsCameraOpen(true);
+    else cameraInputRef.current?.click();
+  }, []);
+
+  const handleCapture = useCallback((file: File) => {
+    setIsCameraOpen(false);
+    processFiles([file]);
+  }, [processFiles]);
+
   const handleRemoveImage = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
-    setImageState({ file: null, preview: null, croppedBase64: null });
+    setImageState(EMPTY_IMAGE_STATE);
+    setError(null);
     if (inputRef.current) {
         inputRef.current.value = "";
     }
   }, [setImageState]);
 
+  const handleOpenCrop = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsCropping(true);
+  }, []);
+
+  const handleApplyCrop = useCallback((settings: CropSettings, croppedDataUrl: string) => {
+    setImageState(prev => ({
+        ...prev,
+        preview: croppedDataUrl,
+        croppedBase64: croppedDataUrl.split(',')[1],
+        crop: settings,
+        // The cutout was made from the previous crop.
+        cutout: null,
+        useCutout: false
+    }));
+    setIsCropping(false);
+  }, [setImageState]);
+
+  const handleOpenIsolate = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsIsolating(true);
+  }, []);
+
+  const handleApplyCutout = useCallback((cutout: string) => {
+    setImageState(prev => ({ ...prev, cutout, useCutout: true }));
+    setIsIsolating(false);
+  }, [setImageState]);
+
+  const setUseCutout = useCallback((useCutout: boolean) => {
+    setImageState(prev => ({ ...prev, useCutout }));
+  }, [setImageState]);
+
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     event.stopPropagation();
@@ -115,13 +195,15 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, descrip
     event.preventDefault();
     event.stopPropagation();
     setIsDragging(false);
-    if (event.dataTransfer.files && event.dataTransfer.files.length > 0) {
-      processFile(event.dataTransfer.files[0]);
-      event.dataTransfer.clearData();
-    }
-  }, [processFile]);
+    const { files, url } = readTransfer(event.dataTransfer);
+    if (files.length > 0) processFiles(files);
+    else if (url) importUrl(url);
+  }, [processFiles, importUrl]);
 
   const hasImage = !!imageState.preview;
+  const isFaceCheckUnavailable = kind === 'person' && quality?.faceCount === null;
+  const canIsolate = kind === 'product';
+  const showCutout = imageState.useCutout && !!imageState.cutout;
 
   return (
     <div className="flex flex-col h-full">
@@ -130,20 +212,77 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, descrip
                 <h4 className="text-lg font-bold text-slate-800">{title}</h4>
                 {description && <p className="text-xs text-slate-500 mt-1">{description}</p>}
              </div>
+             {!hasImage && !isProcessing && (
+                 <div className="flex gap-3">
+                     <button onClick={() => setUrlDraft(urlDraft === null ? "" : null)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+                         From URL
+                     </button>
+                     <button onClick={handleOpenCamera} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+                         Camera
+                     </button>
+                 </div>
+             )}
              {hasImage && !isProcessing && (
-                 <button onClick={handleRemoveImage} className="text-xs font-semibold text-red-500 hover:text-red-600">
-                     Remove
-                 </button>
+                 <div className="flex gap-3">
+                     {canIsolate && (
+                         <button onClick={handleOpenIsolate} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+                             Isolate product
+                         </button>
+                     )}
+                     <button onClick={handleOpenCrop} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+                         Crop
+                     </button>
+                     <button onClick={handleRemoveImage} className="text-xs font-semibold text-red-500 hover:text-red-600">
+                         Remove
+                     </button>
+                 </div>
              )}
         </div>
-     
+
+      {urlDraft !== null && !hasImage && (
+        <form
+          className="mb-3 flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (urlDraft.trim()) importUrl(urlDraft);
+          }}
+        >
+          <input
+            type="url"
+            value={urlDraft}
+            onChange={(e) => setUrlDraft(e.target.value)}
+            placeholder="https://example.com/photo.jpg"
+            aria-label={`${title} image URL`}
+            autoFocus
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={isProcessing || !urlDraft.trim()}
+            className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-50"
+          >
+            Import
+          </button>
+        </form>
+      )}
+
       <div 
-        className={`relative w-full h-64 sm:h-[400px] rounded-2xl flex items-center justify-center transition-all duration-300 overflow-hidden group border-2
+        className={`relative w-full ${compact ? 'h-48 sm:h-56' : 'h-64 sm:h-[400px]'} rounded-2xl flex items-center justify-center transition-all duration-300 overflow-hidden group border-2
         ${hasImage
             ? 'bg-slate-900 border-slate-900' 
             : `bg-slate-50 cursor-pointer ${isDragging ? 'border-indigo-500 bg-indigo-50 shadow-inner' : 'border-dashed border-slate-300 hover:border-indigo-400 hover:bg-slate-100'}` 
         }`}
         onClick={() => !hasImage && !isProcessing && inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if ((e.key === 'Enter' || e.key === ' ') && e.target === e.currentTarget && !hasImage && !isProcessing) {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onPaste={handlePaste}
+        tabIndex={0}
+        role={hasImage ? undefined : 'button'}
+        aria-label={hasImage ? undefined : `${title}: upload, drop or paste an image`}
         onDragEnter={handleDragEnter}
         onDragLeave={handleDragLeave}
         onDragOver={handleDragOver}
@@ -154,7 +293,16 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, descrip
           id={id}
           ref={inputRef}
           className="hidden"
-          accept="image/png, image/jpeg, image/webp"
+          accept={ACCEPTED_IMAGE_TYPES}
+          multiple={!!onExtraImages}
+          onChange={handleFileChange}
+        />
+        <input
+          type="file"
+          ref={cameraInputRef}
+          className="hidden"
+          accept="image/*"
+          capture="environment"
           onChange={handleFileChange}
         />
         
@@ -173,7 +321,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, descrip
                 <UploadIcon />
              </div>
              <p className="font-semibold text-slate-700 text-sm sm:text-base">{isDragging ? 'Drop file here' : 'Click to Upload'}</p>
-             <p className="text-xs text-slate-400 mt-1">JPG, PNG or WEBP</p>
+             <p className="text-xs text-slate-400 mt-1">or drop or paste · JPG, PNG, WEBP, HEIC or AVIF</p>
            </div>
         )}
         
@@ -183,12 +331,30 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, descrip
                 <div className="absolute inset-0 bg-[url('data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAiIGhlaWdodD0iMjAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHBhdGggZD0iTTEgMWgydjJIMUMxeiIgZmlsbD0iIzMzMyIgZmlsbC1ydWxlPSJldmVub2RkIi8+PC9zdmc+')] opacity-20"></div>
                 
                 <img 
-                    src={imageState.preview!} 
-                    alt="Preview" 
+                    src={showCutout ? imageState.cutout! : imageState.preview!} 
+                    alt={showCutout ? "Cutout preview" : "Preview"} 
                     className="w-full h-full object-contain relative z-10 p-2" 
                 />
                 
-                <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-[1px] opacity-0 group-hover:opacity-100 transition-all duration-200 flex items-center justify-center z-20">
+                <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-[1px] opacity-0 group-hover:opacity-100 transition-all duration-200 flex items-center justify-center gap-3 z-20">
+                    <button
+                        onClick={handleOpenCrop}
+                        className="p-3 bg-white text-slate-900 rounded-full shadow-lg hover:bg-slate-100 transform hover:scale-105 transition-all flex items-center gap-2"
+                        title="Crop Image"
+                    >
+                        <CropIcon />
+                        <span className="font-bold text-sm">Crop</span>
+                    </button>
+                    {canIsolate && (
+                        <button
+                            onClick={handleOpenIsolate}
+                            className="p-3 bg-white text-slate-900 rounded-full shadow-lg hover:bg-slate-100 transform hover:scale-105 transition-all flex items-center gap-2"
+                            title="Isolate Product"
+                        >
+                            <ScissorsIcon />
+                            <span className="font-bold text-sm">Isolate</span>
+                        </button>
+                    )}
                     <button
                         onClick={handleRemoveImage}
                         className="p-3 bg-red-500 text-white rounded-full shadow-lg hover:bg-red-600 transform hover:scale-105 transition-all flex items-center gap-2"
@@ -201,6 +367,79 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, title, descrip
             </>
         )}
       </div>
+
+      {error && !isProcessing && (
+        <p role="alert" className="mt-3 text-xs font-medium text-red-600">{error}</p>
+      )}
+
+      {imageState.cutout && hasImage && !isProcessing && (
+        <div className="mt-3 flex items-center gap-2 text-xs font-semibold text-slate-500">
+          Send
+          {[false, true].map(value => (
+            <button
+              key={String(value)}
+              onClick={() => setUseCutout(value)}
+              className={`px-3 py-1.5 rounded-lg transition-colors
+                ${imageState.useCutout === value
+                  ? 'bg-slate-800 text-white'
+                  : 'bg-white text-slate-600 border border-slate-200 hover:border-indigo-300'
+                }`}
+            >
+              {value ? "Cutout" : "Original"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {quality && hasImage && !isProcessing && (
+        <div className="mt-3 rounded-xl border border-slate-200 bg-white p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-slate-500">Input quality</span>
+            <span className={`text-xs font-bold ${quality.score >= 80 ? 'text-emerald-600' : quality.score >= 50 ? 'text-amber-600' : 'text-red-600'}`}>
+              {quality.score}/100
+            </span>
+          </div>
+          {quality.issues.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {quality.issues.map(issue => (
+                <li key={issue.id} className={`text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}`}>
+                  {issue.tip}
+                </li>
+              ))}
+            </ul>
+          )}
+          {/* Most browsers have no face detector; the score then says nothing about the face. */}
+          {isFaceCheckUnavailable && (
+            <p className="mt-1 text-xs text-slate-500">
+              Face check unavailable in this browser. Make sure one face is clearly visible.
+            </p>
+          )}
+          {quality.issues.length === 0 && !isFaceCheckUnavailable && (
+            <p className="mt-1 text-xs text-slate-400">Looks good.</p>
+          )}
+        </div>
+      )}
+
+      {isCropping && imageState.source && (
+        <CropEditor
+          source={imageState.source}
+          initial={imageState.crop}
+          onApply={handleApplyCrop}
+          onCancel={() => setIsCropping(false)}
+        />
+      )}
+
+      {isCameraOpen && (
+        <CameraCapture onCapture={handleCapture} onCancel={() => setIsCameraOpen(false)} />
+      )}
+
+      {isIsolating && imageState.preview && (
+        <CutoutEditor
+          source={imageState.preview}
+          onApply={handleApplyCutout}
+          onCancel={() => setIsIsolating(false)}
+        />
+      )}
     </div>
   );
 };
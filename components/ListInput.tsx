@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from 'react';
+
+interface ListInputProps {
+  label: string;
+  values: string[];
+  placeholder: string;
+  onChange: (values: string[]) => void;
+}
+
+/** Comma-separated list field that only parses on blur, so typing commas and spaces is not interrupted. */
+export const ListInput: React.FC<ListInputProps> = ({ label, values, placeholder, onChange }) => {
+  const [draft, setDraft] = useState(values.join(', '));
+
+  useEffect(() => {
+    setDraft(values.join(', '));
+  }, [values]);
+
+  return (
+    <label className="block">
+      <span className="text-xs font-semibold text-slate-500">{label}</span>
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => onChange(draft.split(',').map(v => v.trim()).filter(Boolean))}
+        placeholder={placeholder}
+        className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+    </label>
+  );
+};
@@ -0,0 +1,245 @@
+import React, { useRef, useState } from 'react';
+import type { Persona, PersonaConsent } from '../types';
+import { createPersona, getConsentIssue } from '../services/personaService';
+import { resizeImage } from '../services/imageResize';
+import { XCircleIcon } from './Icons';
+import { ListInput } from './ListInput';
+
+interface PersonaLibraryProps {
+  personas: Persona[];
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+}
+
+const fieldClass = "w-full px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const PersonaLibrary: React.FC<PersonaLibraryProps> = ({ personas, onSave, onDelete }) => {
+  const photoRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(personas[0]?.id ?? null);
+  const [isAddingPhotos, setIsAddingPhotos] = useState(false);
+  const editing = personas.find(p => p.id === editingId) ?? null;
+  // Read after awaits, so edits made while photos were resizing are kept.
+  const latestPersonas = useRef(personas);
+  latestPersonas.current = personas;
+  const consentIssue = editing ? getConsentIssue(editing) : null;
+
+  const updatePersona = (patch: Partial<Persona>) => {
+    if (!editing) return;
+    onSave({ ...editing, ...patch, updatedAt: Date.now() });
+  };
+
+  const updateConsent = (patch: Partial<PersonaConsent>) => {
+    if (!editing) return;
+    updatePersona({ consent: { ...editing.consent, ...patch } });
+  };
+
+  const handleAdd = () => {
+    const persona = createPersona();
+    onSave(persona);
+    setEditingId(persona.id);
+  };
+
+  const handleDelete = (persona: Persona) => {
+    if (!window.confirm(`Delete persona "${persona.name}" and their photos?`)) return;
+    onDelete(persona.id);
+    if (editingId === persona.id) setEditingId(null);
+  };
+
+  const handleAddPhotos = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(event.target.files ?? []).filter(file => file.type.startsWith('image'));
+    event.target.value = "";
+    if (!editing || files.length === 0) return;
+    const id = editing.id;
+    setIsAddingPhotos(true);
+    try {
+      const resized = await Promise.all(files.map(file => resizeImage(file)));
+      const latest = latestPersonas.current.find(p => p.id === id);
+      if (!latest) return;
+      onSave({
+        ...latest,
+        photos: [...latest.photos, ...resized.map(({ base64 }) => ({ base64, mimeType: 'image/jpeg' }))],
+        updatedAt: Date.now(),
+      });
+    } catch (err) {
+      console.error("Persona photo could not be processed:", err);
+    } finally {
+      setIsAddingPhotos(false);
+    }
+  };
+
+  const makePrimary = (index: number) => {
+    if (!editing) return;
+    const photos = [...editing.photos];
+    const [photo] = photos.splice(index, 1);
+    updatePersona({ photos: [photo, ...photos] });
+  };
+
+  return (
+    <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10">
+      <div className="flex items-center justify-between gap-4 mb-6 border-b border-slate-200/60 pb-4 md:pb-6">
+        <h2 className="text-lg md:text-xl font-bold text-slate-800">Persona Library</h2>
+        <button onClick={handleAdd} className="px-4 py-2 rounded-xl text-sm font-semibold bg-slate-800 text-white hover:bg-slate-700">
+          + New persona
+        </button>
+      </div>
+
+      {personas.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-12">
+          No personas yet. Save the creators and models you work with to reuse their photos in any session.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-6">
+          {/* Persona List */}
+          <ul className="space-y-1">
+            {personas.map(persona => (
+              <li key={persona.id}>
+                <button
+                  onClick={() => setEditingId(persona.id)}
+                  className={`w-full flex items-center gap-2 px-3 py-2 rounded-xl text-left text-sm font-semibold
+                    ${persona.id === editingId ? 'bg-slate-800 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+                >
+                  {persona.photos[0] ? (
+                    <img src={`data:${persona.photos[0].mimeType};base64,${persona.photos[0].base64}`} alt="" className="w-6 h-6 rounded-full object-cover shrink-0" />
+                  ) : (
+                    <span className="w-6 h-6 rounded-full bg-slate-200 shrink-0" />
+                  )}
+                  <span className="truncate flex-1">{persona.name}</span>
+                  {getConsentIssue(persona) && (
+                    <span title={getConsentIssue(persona)!} className="text-[10px] uppercase tracking-wider text-amber-500">Consent</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Persona Editor */}
+          {editing ? (
+            <div className="space-y-5">
+              <div className="flex items-center gap-2">
+                <input
+                  value={editing.name}
+                  onChange={(e) => updatePersona({ name: e.target.value })}
+                  className="flex-1 px-3 py-2 rounded-lg border border-slate-200 bg-white text-base font-bold text-slate-800"
+                  aria-label="Persona name"
+                />
+                <button onClick={() => handleDelete(editing)} className="text-slate-400 hover:text-red-500" title="Delete persona">
+                  <XCircleIcon />
+                </button>
+              </div>
+
+              <div>
+                <span className="text-xs font-semibold text-slate-500">Reference photos</span>
+                <div className="mt-1 flex flex-wrap gap-3">
+                  {editing.photos.map((photo, i) => (
+                    <div key={i} className="relative w-24 group">
+                      <img
+                        src={`data:${photo.mimeType};base64,${photo.base64}`}
+                        alt={`${editing.name} photo ${i + 1}`}
+                        className={`w-24 h-24 rounded-xl object-cover ${i === 0 ? 'ring-2 ring-indigo-500' : ''}`}
+                      />
+                      <div className="mt-1 flex justify-between text-[11px] font-semibold">
+                        {i === 0 ? (
+                          <span className="text-indigo-600">Primary</span>
+                        ) : (
+                          <button onClick={() => makePrimary(i)} className="text-slate-500 hover:text-indigo-600">Make primary</button>
+                        )}
+                        <button
+                          onClick={() => updatePersona({ photos: editing.photos.filter((_, j) => j !== i) })}
+                          className="text-slate-400 hover:text-red-500"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => photoRef.current?.click()}
+                    disabled={isAddingPhotos}
+                    className="w-24 h-24 rounded-xl border-2 border-dashed border-slate-300 text-xs font-bold text-slate-500 hover:border-indigo-400 hover:text-indigo-600 disabled:opacity-50"
+                  >
+                    {isAddingPhotos ? 'Adding...' : '+ Add photos'}
+                  </button>
+                  <input
+                    ref={photoRef}
+                    type="file"
+                    multiple
+                    accept="image/png, image/jpeg, image/webp"
+                    className="hidden"
+                    aria-label="Add persona photos"
+                    onChange={handleAddPhotos}
+                  />
+                </div>
+              </div>
+
+              <ListInput
+                label="Tags"
+                values={editing.tags}
+                placeholder="e.g. skincare, 30s, outdoorsy"
+                onChange={(tags) => updatePersona({ tags })}
+              />
+
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-500">Styling & wardrobe notes</span>
+                <textarea
+                  value={editing.notes}
+                  onChange={(e) => updatePersona({ notes: e.target.value })}
+                  placeholder="Added to the prompt, e.g. Natural makeup, gold hoop earrings, prefers earth tones."
+                  rows={2}
+                  className={`mt-1 ${fieldClass}`}
+                />
+              </label>
+
+              {/* Consent */}
+              <div className={`rounded-2xl border p-4 space-y-3 ${consentIssue ? 'border-amber-300 bg-amber-50' : 'border-slate-200 bg-slate-50'}`}>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-bold text-slate-600 uppercase tracking-wider">Consent & usage rights</span>
+                  {consentIssue && <span className="text-xs font-semibold text-amber-700">{consentIssue}. This persona cannot be used.</span>}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={editing.consent.granted}
+                    onChange={(e) => updateConsent({ granted: e.target.checked })}
+                    className="accent-indigo-600"
+                  />
+                  Signed release on file
+                </label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <label className="block sm:col-span-2">
+                    <span className="text-xs font-semibold text-slate-500">Permitted usage</span>
+                    <input
+                      value={editing.consent.usageRights}
+                      onChange={(e) => updateConsent({ usageRights: e.target.value })}
+                      placeholder="e.g. Organic social and paid ads, EU only"
+                      className={`mt-1 ${fieldClass}`}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-semibold text-slate-500">Valid until</span>
+                    <input
+                      type="date"
+                      value={editing.consent.expiresOn ?? ""}
+                      onChange={(e) => updateConsent({ expiresOn: e.target.value || null })}
+                      className={`mt-1 ${fieldClass}`}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-semibold text-slate-500">Release reference</span>
+                    <input
+                      value={editing.consent.releaseReference}
+                      onChange={(e) => updateConsent({ releaseReference: e.target.value })}
+                      placeholder="e.g. Contract #2024-118"
+                      className={`mt-1 ${fieldClass}`}
+                    />
+                  </label>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">Select a persona to edit it.</p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { CatalogProduct } from '../types';
+import { filterProducts, importProductFeed, parseProductFeed } from '../services/productCatalogService';
+
+interface ProductCatalogProps {
+  products: CatalogProduct[];
+  onImport: (products: CatalogProduct[]) => void;
+  onDelete: (skus: string[]) => void;
+  onGenerate: (products: CatalogProduct[]) => void;
+  /** Why generation cannot start yet, e.g. no person or scene chosen in the studio. */
+  generateBlocker: string | null;
+  /** Scenes × variations each product will be generated in. */
+  imagesPerProduct: number;
+}
+
+const FEED_PATTERN = /\.(csv|json)$/i;
+
+export const ProductCatalog: React.FC<ProductCatalogProps> = ({ products, onImport, onDelete, onGenerate, generateBlocker, imagesPerProduct }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const categories = useMemo(() => [...new Set(products.map(p => p.category).filter(Boolean))].sort(), [products]);
+  const filtered = useMemo(() => filterProducts(products, { query, category }), [products, query, category]);
+  const selectedProducts = filtered.filter(p => selected.has(p.sku) && p.image);
+  const allSelected = filtered.length > 0 && filtered.every(p => selected.has(p.sku));
+
+  const toggle = (sku: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(sku)) next.delete(sku); else next.add(sku);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      for (const product of filtered) {
+        if (allSelected) next.delete(product.sku); else next.add(product.sku);
+      }
+      return next;
+    });
+  };
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(event.target.files ?? []);
+    event.target.value = "";
+    const feed = files.find(file => FEED_PATTERN.test(file.name));
+    if (!feed) {
+      setMessage({ text: "Select a .csv or .json feed, together with any image files it names.", isError: true });
+      return;
+    }
+
+    setMessage(null);
+    try {
+      const rows = parseProductFeed(await feed.text(), feed.name);
+      if (rows.length === 0) throw new Error("No products with a SKU and title were found.");
+      setProgress({ done: 0, total: rows.length });
+      const imported = await importProductFeed(rows, files.filter(file => file !== feed), (done, total) => setProgress({ done, total }));
+      onImport(imported);
+      const missing = imported.filter(p => !p.image).length;
+      setMessage({
+        text: `Imported ${imported.length} product${imported.length === 1 ? '' : 's'}${missing ? `, ${missing} without an image` : ''}.`,
+        isError: false,
+      });
+    } catch (err) {
+      console.error("Product feed import failed:", err);
+      setMessage({ text: err instanceof Error ? err.message : "The feed could not be read.", isError: true });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = () => {
+    const skus = filtered.filter(p => selected.has(p.sku)).map(p => p.sku);
+    if (skus.length === 0 || !window.confirm(`Delete ${skus.length} product${skus.length === 1 ? '' : 's'} from the catalog?`)) return;
+    onDelete(skus);
+    setSelected(prev => new Set([...prev].filter(sku => !skus.includes(sku))));
+  };
+
+  return (
+    <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6 border-b border-slate-200/60 pb-4 md:pb-6">
+        <div>
+          <h2 className="text-lg md:text-xl font-bold text-slate-800">Product Catalog</h2>
+          <p className="text-xs text-slate-500 mt-1">
+            CSV or JSON with SKU, title, description and an image URL or file name. Shopify exports work as-is.
+          </p>
+        </div>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={!!progress}
+          className="px-4 py-2 rounded-xl text-sm font-semibold bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-50"
+        >
+          {progress ? `Importing ${progress.done}/${progress.total}...` : 'Import feed'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept=".csv,.json,text/csv,application/json,image/*"
+          className="hidden"
+          aria-label="Import product feed"
+          onChange={handleFiles}
+        />
+      </div>
+
+      {message && (
+        <p className={`mb-4 text-sm font-medium ${message.isError ? 'text-red-600' : 'text-emerald-700'}`}>{message.text}</p>
+      )}
+
+      {products.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-12">
+          No products yet. Import a feed to generate content for many SKUs at once.
+        </p>
+      ) : (
+        <>
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search SKU, title or tag"
+              className="flex-1 min-w-48 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm"
+              aria-label="Search products"
+            />
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm"
+              aria-label="Category"
+            >
+              <option value="">All categories</option>
+              {categories.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+
+          {/* Product List */}
+          <div className="max-h-[60vh] overflow-y-auto rounded-2xl border border-slate-200 bg-white">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-slate-50 text-xs text-slate-500 text-left">
+                <tr>
+                  <th className="p-3 w-8">
+                    <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all shown" className="accent-indigo-600" />
+                  </th>
+                  <th className="p-3 w-14"></th>
+                  <th className="p-3">Product</th>
+                  <th className="p-3 hidden sm:table-cell">Category</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(product => (
+                  <tr key={product.sku} className="border-t border-slate-100 align-top">
+                    <td className="p-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(product.sku)}
+                        onChange={() => toggle(product.sku)}
+                        aria-label={`Select ${product.sku}`}
+                        className="accent-indigo-600"
+                      />
+                    </td>
+                    <td className="p-3">
+                      {product.image ? (
+                        <img src={`data:${product.image.mimeType};base64,${product.image.base64}`} alt="" className="w-10 h-10 rounded-lg object-cover" />
+                      ) : (
+                        <span className="block w-10 h-10 rounded-lg bg-slate-100" title={product.imageError ?? undefined} />
+                      )}
+                    </td>
+                    <td className="p-3">
+                      <p className="font-semibold text-slate-800">{product.title}</p>
+                      <p className="text-xs text-slate-400 font-mono">{product.sku}</p>
+                      {product.imageError && <p className="text-xs text-red-500 mt-1">{product.imageError}</p>}
+                    </td>
+                    <td className="p-3 text-slate-500 hidden sm:table-cell">{product.category}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {filtered.length === 0 && <p className="text-sm text-slate-400 text-center py-8">No products match these filters.</p>}
+          </div>
+
+          {/* Actions */}
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+            <button onClick={handleDelete} className="text-xs font-semibold text-slate-400 hover:text-red-500">
+              Delete selected
+            </button>
+            <div className="flex items-center gap-3">
+              {generateBlocker && <span className="text-xs text-amber-700">{generateBlocker}</span>}
+              <button
+                onClick={() => onGenerate(selectedProducts)}
+                disabled={!!generateBlocker || selectedProducts.length === 0}
+                className="px-5 py-2 rounded-xl text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 shadow-md disabled:opacity-50"
+              >
+                Generate {selectedProducts.length * imagesPerProduct} images for {selectedProducts.length} product{selectedProducts.length === 1 ? '' : 's'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import type { PromptModifiers, PromptSettings } from '../types';
+import { PROMPT_MODIFIER_OPTIONS } from '../services/promptService';
+
+interface PromptBuilderProps {
+  settings: PromptSettings;
+  onSettingsChange: (settings: PromptSettings) => void;
+  /** The prompt template that will be sent: the user's edited text, or the one built from settings. */
+  template: string;
+  isTemplateEdited: boolean;
+  onTemplateChange: (template: string) => void;
+  onTemplateReset: () => void;
+  /** Active brand kit constraints, appended to every prompt and not editable here. */
+  brandGuidelines?: string;
+}
+
+export const PromptBuilder: React.FC<PromptBuilderProps> = ({
+  settings,
+  onSettingsChange,
+  template,
+  isTemplateEdited,
+  onTemplateChange,
+  onTemplateReset,
+  brandGuidelines,
+}) => {
+  const [avoidDraft, setAvoidDraft] = useState("");
+
+  const setModifier = (key: keyof PromptModifiers, value: string) => {
+    onSettingsChange({ ...settings, modifiers: { ...settings.modifiers, [key]: value } });
+  };
+
+  const addAvoid = () => {
+    const items = avoidDraft.split(',').map(item => item.trim()).filter(item => item && !settings.avoid.includes(item));
+    if (items.length > 0) {
+      onSettingsChange({ ...settings, avoid: [...settings.avoid, ...items] });
+    }
+    setAvoidDraft("");
+  };
+
+  const removeAvoid = (item: string) => {
+    onSettingsChange({ ...settings, avoid: settings.avoid.filter(a => a !== item) });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Free-text Atmosphere */}
+      <label className="block">
+        <span className="text-xs md:text-sm font-bold text-slate-500 uppercase tracking-wide">Atmosphere Details</span>
+        <textarea
+          value={settings.atmosphere}
+          onChange={(e) => onSettingsChange({ ...settings, atmosphere: e.target.value })}
+          placeholder="e.g. Plants on the windowsill, a half-finished latte on the table, relaxed Sunday vibe"
+          rows={2}
+          className="mt-2 w-full px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </label>
+
+      {/* Structured Modifiers */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3">
+        {PROMPT_MODIFIER_OPTIONS.map(({ key, label, suggestions }) => (
+          <label key={key} className="block">
+            <span className="text-xs font-semibold text-slate-500">{label}</span>
+            <input
+              list={`prompt-modifier-${key}`}
+              value={settings.modifiers[key]}
+              onChange={(e) => setModifier(key, e.target.value)}
+              placeholder="Auto"
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <datalist id={`prompt-modifier-${key}`}>
+              {suggestions.map(s => <option key={s} value={s} />)}
+            </datalist>
+          </label>
+        ))}
+      </div>
+
+      {/* Negative Prompt */}
+      <div>
+        <span className="text-xs font-semibold text-slate-500">Avoid</span>
+        <div className="mt-1 flex gap-2">
+          <input
+            value={avoidDraft}
+            onChange={(e) => setAvoidDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addAvoid();
+              }
+            }}
+            placeholder="e.g. text overlays, extra fingers, other brands"
+            className="flex-1 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            onClick={addAvoid}
+            className="px-4 py-2 rounded-lg text-sm font-semibold bg-slate-800 text-white hover:bg-slate-700"
+          >
+            Add
+          </button>
+        </div>
+        {settings.avoid.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {settings.avoid.map((item) => (
+              <button
+                key={item}
+                onClick={() => removeAvoid(item)}
+                className="px-3 py-1 rounded-lg bg-red-50 text-red-600 text-xs font-medium border border-red-100 hover:bg-red-100"
+                title="Remove"
+              >
+                {item} ×
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Editable Preview */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs md:text-sm font-bold text-slate-500 uppercase tracking-wide">
+            Prompt Preview {isTemplateEdited && <span className="ml-1 text-amber-600 normal-case">(edited)</span>}
+          </span>
+          {isTemplateEdited && (
+            <button onClick={onTemplateReset} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+              Reset to generated
+            </button>
+          )}
+        </div>
+        <textarea
+          value={template}
+          onChange={(e) => onTemplateChange(e.target.value)}
+          rows={10}
+          spellCheck={false}
+          className="w-full px-4 py-3 rounded-xl border border-slate-200 bg-slate-900 text-slate-100 font-mono text-xs leading-relaxed focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        {brandGuidelines && (
+          <pre className="mt-2 px-4 py-3 rounded-xl bg-indigo-50 border border-indigo-100 text-indigo-800 font-mono text-xs leading-relaxed whitespace-pre-wrap">
+            {brandGuidelines}
+          </pre>
+        )}
+        <p className="text-xs text-slate-400 mt-1">
+          <code>{'{scene}'}</code>, <code>{'{subjects}'}</code>, <code>{'{platform}'}</code> and <code>{'{format}'}</code> are filled in for each generated image. Editing the preview stops it following the settings above.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import type { RefinementSession } from '../types';
+import { flattenTree, getLineage, getVersion } from '../services/refinementService';
+import { Spinner } from './Spinner';
+
+interface RefineStudioProps {
+  title: string;
+  session: RefinementSession;
+  isRefining: boolean;
+  error: string | null;
+  onRefine: (parentVersionId: string, instruction: string) => void;
+  onSelectVersion: (versionId: string) => void;
+  onApply: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = [
+  "Make the lighting warmer",
+  "Move the product to the left hand",
+  "Make the background less busy",
+  "Give it a more candid, handheld feel",
+];
+
+const versionLabel = (index: number) => index === 0 ? "Original" : `v${index}`;
+
+export const RefineStudio: React.FC<RefineStudioProps> = ({
+  title,
+  session,
+  isRefining,
+  error,
+  onRefine,
+  onSelectVersion,
+  onApply,
+  onClose,
+}) => {
+  const [instruction, setInstruction] = useState("");
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const active = getVersion(session, session.activeVersionId) ?? session.versions[0];
+  const lineage = getLineage(session, active.id);
+  const tree = flattenTree(session);
+  // Labels follow creation order so they stay stable as the tree branches.
+  const labelOf = (id: string) => versionLabel(session.versions.findIndex(v => v.id === id));
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!instruction.trim() || isRefining) return;
+    onRefine(active.id, instruction.trim());
+    setInstruction("");
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(x => x !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const comparing = compareIds.length === 2
+    ? compareIds.map(id => getVersion(session, id)).filter((v): v is NonNullable<typeof v> => !!v)
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-6xl max-h-full overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between gap-3 p-5 border-b border-slate-100">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-800">Refine</h3>
+            <p className="text-xs text-slate-400 truncate">{title}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onApply(active.id)}
+              className="px-4 py-2 rounded-xl text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 shadow-md"
+            >
+              Use {labelOf(active.id)}
+            </button>
+            <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-600 hover:bg-slate-100">
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-1 lg:grid-cols-[1fr_320px]">
+          {/* Canvas */}
+          <div className="p-5 bg-slate-50 flex flex-col gap-4">
+            {comparing.length === 2 ? (
+              <div className="grid grid-cols-2 gap-3">
+                {comparing.map(version => (
+                  <figure key={version.id} className="space-y-2">
+                    <img src={version.image} alt={labelOf(version.id)} className="w-full rounded-xl object-contain bg-slate-900 max-h-[60vh]" />
+                    <figcaption className="text-xs font-semibold text-slate-500 text-center">
+                      {labelOf(version.id)}{version.instruction ? ` · ${version.instruction}` : ''}
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            ) : (
+              <div className="relative rounded-xl overflow-hidden bg-slate-900 flex items-center justify-center">
+                <img src={active.image} alt={labelOf(active.id)} className="max-h-[60vh] w-full object-contain" />
+                {isRefining && (
+                  <div className="absolute inset-0 bg-slate-900/50 flex items-center justify-center text-white font-semibold text-sm">
+                    <Spinner /> Applying edit...
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Conversation */}
+            <div className="space-y-2">
+              {lineage.filter(v => v.instruction).map(version => (
+                <div key={version.id} className="flex justify-end">
+                  <button
+                    onClick={() => onSelectVersion(version.id)}
+                    className="max-w-[80%] text-left px-4 py-2 rounded-2xl rounded-br-md bg-indigo-600 text-white text-sm"
+                  >
+                    {version.instruction}
+                    <span className="block text-[10px] opacity-70 mt-0.5">{labelOf(version.id)}</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  value={instruction}
+                  onChange={(e) => setInstruction(e.target.value)}
+                  placeholder={`Describe a change to ${labelOf(active.id)}...`}
+                  disabled={isRefining}
+                  className="flex-1 px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <button
+                  type="submit"
+                  disabled={isRefining || !instruction.trim()}
+                  className="px-5 py-3 rounded-xl text-sm font-bold text-white bg-slate-800 hover:bg-slate-700 disabled:bg-slate-300"
+                >
+                  Send
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {SUGGESTIONS.map(s => (
+                  <button
+                    key={s}
+                    type="button"
+                    onClick={() => setInstruction(s)}
+                    className="px-3 py-1 rounded-lg bg-white border border-slate-200 text-xs text-slate-600 hover:border-indigo-300"
+                  >
+                    {s}
+                  </button>
+                ))}
+              </div>
+            </form>
+          </div>
+
+          {/* Version Tree */}
+          <aside className="p-5 border-t lg:border-t-0 lg:border-l border-slate-100">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wide">Versions</h4>
+              {compareIds.length > 0 && (
+                <button onClick={() => setCompareIds([])} className="text-xs font-semibold text-slate-400 hover:text-slate-600">
+                  Exit compare
+                </button>
+              )}
+            </div>
+            <p className="text-[11px] text-slate-400 mb-3">Click a version to continue from it. Tick two to compare.</p>
+            <ul className="space-y-1">
+              {tree.map(({ version, depth }) => (
+                <li key={version.id} style={{ paddingLeft: depth * 14 }} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(version.id)}
+                    onChange={() => toggleCompare(version.id)}
+                    className="accent-indigo-600"
+                    aria-label={`Compare ${labelOf(version.id)}`}
+                  />
+                  <button
+                    onClick={() => onSelectVersion(version.id)}
+                    className={`flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-xs
+                      ${version.id === active.id ? 'bg-indigo-50 ring-1 ring-indigo-500 text-indigo-700' : 'hover:bg-slate-100 text-slate-600'}`}
+                  >
+                    <img src={version.image} alt="" className="w-8 h-8 rounded object-cover shrink-0" />
+                    <span className="truncate">
+                      <span className="font-bold">{labelOf(version.id)}</span>
+                      {version.instruction && ` · ${version.instruction}`}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from 'react';
+import type { CaptionLength, CaptionTone, ExportFit, ExportSettings, GenerationErrorCode, GenerationJob, PlatformPreset, PostCopy } from '../types';
+import { PLATFORM_PRESETS, getPlatformPreset } from '../services/platformService';
+import { DownloadIcon, SparklesIcon, XCircleIcon } from './Icons';
+import { ExportSettingsPanel } from './ExportSettingsPanel';
+import { CompareView } from './CompareView';
+import { StarRating } from './StarRating';
+import { CopyPanel } from './CopyPanel';
+
+interface ResultsGalleryProps {
+  jobs: GenerationJob[];
+  onDownload: (job: GenerationJob) => void;
+  onDiscard: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onCancel: (jobId: string) => void;
+  onExport: (job: GenerationJob, preset: PlatformPreset, fit: ExportFit) => void;
+  onRefine: (jobId: string) => void;
+  onDownloadAll: () => void;
+  onRate: (jobId: string, rating: number | null) => void;
+  /** Marks one result the winner of the compared set and clears the others. */
+  onPickWinner: (winnerId: string, comparedIds: string[]) => void;
+  /** Writes the caption, hashtags and alt text; rejects with the provider's error. */
+  onWriteCopy: (jobId: string, tone: CaptionTone, length: CaptionLength) => Promise<void>;
+  onCopyChange: (jobId: string, copy: PostCopy) => void;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+  brandName?: string;
+}
+
+/** What the user can do about each kind of failure. */
+const ERROR_HINTS: Partial<Record<GenerationErrorCode, string>> = {
+  'quota': "The free tier allows a few images per minute. Lower the variations or parallel setting.",
+  'auth': "Check GEMINI_API_KEY in .env.local and restart the dev server.",
+  'safety': "Try a different scene, or crop the photos so only the person and product are visible.",
+  'no-image': "The model replied with text only. Simplify the prompt and try again.",
+  'network': "Check your connection, then try again.",
+  'timeout': "The service is busy. Try again, or lower the parallel setting.",
+  'payload-too-large': "Crop the reference photos smaller or remove one.",
+  'budget': "Raise the budget in Usage, then try again.",
+};
+
+/** Compare mode shows at most this many results side by side. */
+const MAX_COMPARE = 4;
+
+const isFinished = (job: GenerationJob) =>
+  job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+
+const FailedJob: React.FC<{ job: GenerationJob; now: number; onRetry: (jobId: string) => void }> = ({ job, now, onRetry }) => {
+  const waitSeconds = job.retryAt ? Math.ceil((job.retryAt - now) / 1000) : 0;
+  const hint = job.errorCode && ERROR_HINTS[job.errorCode];
+  return (
+    <div className="text-center p-6 flex flex-col items-center gap-2 text-red-600">
+      <span className="font-bold uppercase tracking-wider text-xs">Generation Failed</span>
+      <p className="text-sm opacity-90">{job.error}</p>
+      {hint && <p className="text-xs text-slate-500">{hint}</p>}
+      <button
+        onClick={() => onRetry(job.id)}
+        disabled={waitSeconds > 0}
+        className="text-xs font-bold underline hover:no-underline disabled:no-underline disabled:text-slate-400"
+      >
+        {waitSeconds > 0 ? `Quota resets in ${waitSeconds}s` : 'Try again'}
+      </button>
+    </div>
+  );
+};
+
+export const ResultsGallery: React.FC<ResultsGalleryProps> = ({
+  jobs,
+  onDownload,
+  onDiscard,
+  onRetry,
+  onCancel,
+  onExport,
+  onRefine,
+  onDownloadAll,
+  onRate,
+  onPickWinner,
+  onWriteCopy,
+  onCopyChange,
+  exportSettings,
+  onExportSettingsChange,
+  brandName,
+}) => {
+  const [exportFit, setExportFit] = useState<ExportFit>('pad');
+  const [showSettings, setShowSettings] = useState(false);
+  const succeeded = jobs.filter(job => job.status === 'succeeded').length;
+  const [now, setNow] = useState(Date.now());
+  const finished = jobs.filter(job => isFinished(job)).length;
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const [copyOpenIds, setCopyOpenIds] = useState<string[]>([]);
+  const compareJobs = compareIds
+    ? jobs.filter(job => compareIds.includes(job.id) && job.status === 'succeeded' && job.image)
+    : [];
+
+  const toggleSelected = (jobId: string) => {
+    setSelectedIds(prev => prev.includes(jobId)
+      ? prev.filter(id => id !== jobId)
+      : prev.length < MAX_COMPARE ? [...prev, jobId] : prev);
+  };
+
+  const toggleCopy = (jobId: string) => {
+    setCopyOpenIds(prev => prev.includes(jobId) ? prev.filter(id => id !== jobId) : [...prev, jobId]);
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  };
+
+  // Tick once a second while any quota countdown is running.
+  const isCountingDown = jobs.some(job => job.status === 'failed' && job.retryAt !== null && job.retryAt > now);
+  useEffect(() => {
+    if (!isCountingDown) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isCountingDown]);
+
+  return (
+    <section className="bg-white rounded-3xl shadow-2xl shadow-slate-200/50 overflow-hidden border border-slate-100">
+      <div className="bg-slate-50 border-b border-slate-100 p-6 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center justify-center w-8 h-8 rounded-full bg-green-500 text-white font-bold text-sm shrink-0">✓</div>
+          <h2 className="text-xl font-bold text-slate-900">UGC Content Ready</h2>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="hidden sm:flex items-center gap-1 text-xs font-semibold" title="How exports are fitted to the platform size">
+            {(['pad', 'crop'] as const).map(fit => (
+              <button
+                key={fit}
+                onClick={() => setExportFit(fit)}
+                className={`px-2.5 py-1 rounded-md capitalize ${exportFit === fit ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+              >
+                {fit}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-semibold ${showSettings ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+          >
+            Export settings
+          </button>
+          {succeeded > 1 && (isSelecting ? (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => { setCompareIds(selectedIds); stopSelecting(); }}
+                disabled={selectedIds.length < 2}
+                className="px-3 py-1.5 rounded-lg text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Compare {selectedIds.length}
+              </button>
+              <button onClick={stopSelecting} className="text-xs font-semibold text-slate-500 hover:text-slate-700">
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsSelecting(true)}
+              className="px-3 py-1.5 rounded-lg text-xs font-semibold text-slate-500 hover:bg-slate-100"
+              title={`Select 2 to ${MAX_COMPARE} results to compare`}
+            >
+              Compare
+            </button>
+          ))}
+          {succeeded > 1 && (
+            <button
+              onClick={onDownloadAll}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-indigo-600 hover:bg-indigo-50 [&_svg]:h-4 [&_svg]:w-4"
+            >
+              <DownloadIcon /> All ({succeeded}) as ZIP
+            </button>
+          )}
+          <span className="text-sm font-semibold text-slate-500">{finished} / {jobs.length} done</span>
+        </div>
+      </div>
+
+      {showSettings && (
+        <ExportSettingsPanel settings={exportSettings} onChange={onExportSettingsChange} brandName={brandName} />
+      )}
+
+      <div className="p-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {jobs.map((job) => (
+          <div key={job.id} className="flex flex-col rounded-xl overflow-hidden shadow-lg ring-1 ring-slate-200 bg-white">
+            <div className="relative group aspect-square bg-slate-100 flex items-center justify-center">
+              {job.status === 'succeeded' && job.image && (
+                <>
+                  <img src={job.image} alt={`${job.scene} variation ${job.variation}`} className="w-full h-full object-contain block" />
+                  {job.isWinner && (
+                    <span className="absolute top-3 right-3 z-10 px-2 py-1 rounded-full bg-emerald-500 text-white text-[10px] font-bold uppercase tracking-wider">
+                      Winner
+                    </span>
+                  )}
+                  {isSelecting && (
+                    <label className="absolute inset-0 z-20 flex items-start p-3 cursor-pointer bg-slate-900/10">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(job.id)}
+                        onChange={() => toggleSelected(job.id)}
+                        disabled={!selectedIds.includes(job.id) && selectedIds.length >= MAX_COMPARE}
+                        className="w-5 h-5 accent-indigo-600"
+                        aria-label={`Compare ${job.scene} variation ${job.variation}`}
+                      />
+                    </label>
+                  )}
+                  <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-[2px] opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col items-center justify-center gap-3">
+                    <button
+                      onClick={() => onDownload(job)}
+                      className="bg-white text-slate-900 font-bold py-2 px-5 rounded-full shadow-xl flex items-center gap-2 text-sm"
+                    >
+                      <DownloadIcon /> Download
+                    </button>
+                    <button
+                      onClick={() => onRefine(job.id)}
+                      className="bg-indigo-600 text-white font-bold py-2 px-5 rounded-full shadow-xl flex items-center gap-2 text-sm [&_svg]:h-5 [&_svg]:w-5"
+                    >
+                      <SparklesIcon /> Refine
+                    </button>
+                  </div>
+                </>
+              )}
+
+              {(job.status === 'queued' || job.status === 'running') && (
+                <div className="text-center p-6 flex flex-col items-center justify-center">
+                  {job.status === 'running' && (
+                    <div className="w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-3"></div>
+                  )}
+                  <p className="text-sm font-medium text-slate-500">
+                    {job.status === 'running' ? 'Creating magic...' : 'Waiting in queue'}
+                  </p>
+                  <button onClick={() => onCancel(job.id)} className="mt-2 text-xs font-bold text-slate-400 hover:text-red-600">
+                    Cancel
+                  </button>
+                </div>
+              )}
+
+              {job.status === 'failed' && <FailedJob job={job} now={now} onRetry={onRetry} />}
+
+              {job.status === 'cancelled' && (
+                <div className="text-center p-6 flex flex-col items-center gap-2 text-slate-500">
+                  <span className="font-bold uppercase tracking-wider text-xs">Cancelled</span>
+                  <button onClick={() => onRetry(job.id)} className="text-xs font-bold underline hover:no-underline">
+                    Run again
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-slate-100">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-slate-800 truncate">{job.scene}</p>
+                <p className="text-xs text-slate-400">Variation {job.variation} · {getPlatformPreset(job.platformId).label}</p>
+                {job.status === 'succeeded' && (
+                  <div className="flex items-center gap-3">
+                    <StarRating value={job.rating} onChange={(rating) => onRate(job.id, rating)} label={`Rate ${job.scene} variation ${job.variation}`} />
+                    <button
+                      onClick={() => toggleCopy(job.id)}
+                      className={`text-xs font-semibold ${copyOpenIds.includes(job.id) ? 'text-slate-800' : 'text-indigo-600 hover:text-indigo-700'}`}
+                      aria-expanded={copyOpenIds.includes(job.id)}
+                    >
+                      {job.copy ? 'Post copy ✓' : 'Post copy'}
+                    </button>
+                  </div>
+                )}
+              </div>
+              {job.status === 'succeeded' && (
+                <select
+                  value=""
+                  onChange={(e) => onExport(job, getPlatformPreset(e.target.value), exportFit)}
+                  className="ml-auto text-xs font-semibold text-indigo-600 bg-transparent border border-slate-200 rounded-lg px-2 py-1 max-w-[7rem]"
+                  title="Export at platform size"
+                >
+                  <option value="" disabled>Export…</option>
+                  {PLATFORM_PRESETS.map(p => (
+                    <option key={p.id} value={p.id}>{p.label} ({p.width}×{p.height})</option>
+                  ))}
+                </select>
+              )}
+              {isFinished(job) && (
+                <button
+                  onClick={() => onDiscard(job.id)}
+                  className="text-slate-400 hover:text-red-500 transition-colors shrink-0"
+                  title="Discard"
+                >
+                  <XCircleIcon />
+                </button>
+              )}
+            </div>
+
+            {job.status === 'succeeded' && copyOpenIds.includes(job.id) && (
+              <CopyPanel
+                copy={job.copy}
+                platform={getPlatformPreset(job.platformId)}
+                onWrite={(tone, length) => onWriteCopy(job.id, tone, length)}
+                onChange={(copy) => onCopyChange(job.id, copy)}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {compareJobs.length >= 2 && (
+        <CompareView
+          jobs={compareJobs}
+          onRate={onRate}
+          onPickWinner={(winnerId) => onPickWinner(winnerId, compareJobs.map(job => job.id))}
+          onClose={() => setCompareIds(null)}
+        />
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useRef, useState } from 'react';
+import type { SceneCategory, SceneOption } from '../types';
+import { DEFAULT_CATALOG, createCatalogId, parseCatalog, serializeCatalog } from '../services/sceneCatalog';
+import { XCircleIcon } from './Icons';
+
+interface SceneCatalogManagerProps {
+  categories: SceneCategory[];
+  onChange: (categories: SceneCategory[]) => void;
+}
+
+/** Returns a copy of `items` with the element at `index` moved by `offset`, or the original if out of range. */
+const move = <T,>(items: T[], index: number, offset: number): T[] => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const iconButton = "w-7 h-7 flex items-center justify-center rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent";
+
+export const SceneCatalogManager: React.FC<SceneCatalogManagerProps> = ({ categories, onChange }) => {
+  const importRef = useRef<HTMLInputElement>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(categories[0]?.id ?? null);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const updateCategory = (id: string, patch: Partial<SceneCategory>) => {
+    onChange(categories.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  const updateOption = (category: SceneCategory, optionId: string, patch: Partial<SceneOption>) => {
+    updateCategory(category.id, {
+      subOptions: category.subOptions.map(o => o.id === optionId ? { ...o, ...patch } : o),
+    });
+  };
+
+  const handleAddCategory = () => {
+    const category: SceneCategory = { id: createCatalogId('category'), label: "New Category", icon: "✨", subOptions: [] };
+    onChange([...categories, category]);
+    setExpandedId(category.id);
+  };
+
+  const handleDeleteCategory = (category: SceneCategory) => {
+    if (!window.confirm(`Delete "${category.label}" and its ${category.subOptions.length} scenes?`)) return;
+    onChange(categories.filter(c => c.id !== category.id));
+  };
+
+  const handleAddOption = (category: SceneCategory) => {
+    updateCategory(category.id, {
+      subOptions: [...category.subOptions, { id: createCatalogId('scene'), label: "New scene", prompt: "" }],
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeCatalog(categories)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ugc-scene-catalog-${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const imported = parseCatalog(JSON.parse(await file.text()));
+      onChange(imported);
+      setExpandedId(imported[0]?.id ?? null);
+      setMessage({ type: 'success', text: `Imported ${imported.length} categories from ${file.name}.` });
+    } catch (err: any) {
+      console.error("Catalog import failed:", err);
+      setMessage({ type: 'error', text: `Import failed: ${err.message}` });
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm("Replace your catalog with the built-in scenes?")) return;
+    onChange(DEFAULT_CATALOG);
+    setMessage(null);
+  };
+
+  return (
+    <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 border-b border-slate-200/60 pb-4 md:pb-6">
+        <h2 className="text-lg md:text-xl font-bold text-slate-800">Scene Catalog</h2>
+        <div className="flex flex-wrap gap-2 text-sm font-semibold">
+          <button onClick={() => importRef.current?.click()} className="px-4 py-2 rounded-xl bg-white border border-slate-200 text-slate-600 hover:border-indigo-300">
+            Import JSON
+          </button>
+          <button onClick={handleExport} className="px-4 py-2 rounded-xl bg-white border border-slate-200 text-slate-600 hover:border-indigo-300">
+            Export JSON
+          </button>
+          <button onClick={handleReset} className="px-4 py-2 rounded-xl text-slate-400 hover:text-slate-600">
+            Reset to defaults
+          </button>
+          <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {message && (
+        <p className={`mb-6 px-4 py-3 rounded-xl text-sm font-medium border ${message.type === 'error' ? 'bg-red-50 text-red-600 border-red-100' : 'bg-green-50 text-green-700 border-green-100'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {categories.map((category, index) => (
+          <div key={category.id} className="rounded-2xl border border-slate-200 bg-white overflow-hidden">
+            <div className="flex items-center gap-2 p-3">
+              <input
+                value={category.icon}
+                onChange={(e) => updateCategory(category.id, { icon: e.target.value })}
+                className="w-12 text-center px-2 py-1.5 rounded-lg border border-slate-200 text-lg"
+                aria-label="Category icon"
+              />
+              <input
+                value={category.label}
+                onChange={(e) => updateCategory(category.id, { label: e.target.value })}
+                className="flex-1 min-w-0 px-3 py-1.5 rounded-lg border border-slate-200 text-sm font-semibold text-slate-800"
+                aria-label="Category name"
+              />
+              <button onClick={() => onChange(move(categories, index, -1))} disabled={index === 0} className={iconButton} title="Move up">↑</button>
+              <button onClick={() => onChange(move(categories, index, 1))} disabled={index === categories.length - 1} className={iconButton} title="Move down">↓</button>
+              <button
+                onClick={() => setExpandedId(expandedId === category.id ? null : category.id)}
+                className="px-3 py-1.5 rounded-lg text-xs font-semibold text-indigo-600 hover:bg-indigo-50 whitespace-nowrap"
+              >
+                {category.subOptions.length} scenes {expandedId === category.id ? '▴' : '▾'}
+              </button>
+              <button onClick={() => handleDeleteCategory(category)} className="text-slate-400 hover:text-red-500" title="Delete category">
+                <XCircleIcon />
+              </button>
+            </div>
+
+            {expandedId === category.id && (
+              <div className="border-t border-slate-100 bg-slate-50 p-3 space-y-2">
+                {category.subOptions.map((option, optionIndex) => (
+                  <div key={option.id} className="flex items-start gap-2 bg-white rounded-xl border border-slate-200 p-2">
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <input
+                        value={option.label}
+                        onChange={(e) => updateOption(category, option.id, { label: e.target.value })}
+                        className="w-full px-3 py-1.5 rounded-lg border border-slate-200 text-sm text-slate-800"
+                        aria-label="Scene name"
+                      />
+                      <textarea
+                        value={option.prompt}
+                        onChange={(e) => updateOption(category, option.id, { prompt: e.target.value })}
+                        placeholder="Optional prompt fragment, e.g. a sunlit Scandinavian living room with a linen sofa and oak floors"
+                        rows={2}
+                        className="w-full px-3 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-600"
+                        aria-label="Scene prompt"
+                      />
+                    </div>
+                    <button
+                      onClick={() => updateCategory(category.id, { subOptions: move(category.subOptions, optionIndex, -1) })}
+                      disabled={optionIndex === 0}
+                      className={iconButton}
+                      title="Move up"
+                    >↑</button>
+                    <button
+                      onClick={() => updateCategory(category.id, { subOptions: move(category.subOptions, optionIndex, 1) })}
+                      disabled={optionIndex === category.subOptions.length - 1}
+                      className={iconButton}
+                      title="Move down"
+                    >↓</button>
+                    <button
+                      onClick={() => updateCategory(category.id, { subOptions: category.subOptions.filter(o => o.id !== option.id) })}
+                      className="text-slate-400 hover:text-red-500"
+                      title="Delete scene"
+                    >
+                      <XCircleIcon />
+                    </button>
+                  </div>
+                ))}
+                <button onClick={() => handleAddOption(category)} className="text-xs font-bold text-indigo-600 hover:text-indigo-700 px-2 py-1">
+                  + Add scene
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={handleAddCategory}
+        className="mt-4 w-full py-3 rounded-2xl border-2 border-dashed border-slate-300 text-sm font-bold text-slate-500 hover:border-indigo-400 hover:text-indigo-600"
+      >
+        + Add category
+      </button>
+    </section>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface StarRatingProps {
+  value: number | null;
+  /** Omit for a read-only display. Clicking the current rating clears it. */
+  onChange?: (rating: number | null) => void;
+  label: string;
+}
+
+export const StarRating: React.FC<StarRatingProps> = ({ value, onChange, label }) => (
+  <div className="flex items-center gap-0.5" role={onChange ? 'radiogroup' : 'img'} aria-label={onChange ? label : `${label}: ${value ?? 0} of 5 stars`}>
+    {[1, 2, 3, 4, 5].map(star => {
+      const filled = value !== null && star <= value;
+      const className = `text-lg leading-none ${filled ? 'text-amber-400' : 'text-slate-300'}`;
+      return onChange ? (
+        <button
+          key={star}
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} star${star === 1 ? '' : 's'}`}
+          onClick={() => onChange(value === star ? null : star)}
+          className={`${className} hover:text-amber-500`}
+        >
+          ★
+        </button>
+      ) : (
+        <span key={star} className={className} aria-hidden="true">★</span>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,168 @@
+import React from 'react';
+import type { StoryBeat, StoryFrame, Storyline } from '../types';
+import { MAX_BEATS, createBeat, getStorylineIssue, moveItem } from '../services/storyService';
+import { DownloadIcon, SparklesIcon, XCircleIcon } from './Icons';
+
+interface StoryBuilderProps {
+  storyline: Storyline;
+  onStorylineChange: (storyline: Storyline) => void;
+  /** Generated frames in post order. */
+  frames: StoryFrame[];
+  isGenerating: boolean;
+  onGenerate: () => void;
+  onCancel: () => void;
+  onRetryFrame: (index: number) => void;
+  onMoveFrame: (from: number, to: number) => void;
+  onExport: () => void;
+  /** Why generation cannot start yet, e.g. no person or product in the studio. */
+  generateBlocker: string | null;
+}
+
+const fieldClass = "w-full px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const arrowClass = "px-2 py-1 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent";
+
+export const StoryBuilder: React.FC<StoryBuilderProps> = ({
+  storyline,
+  onStorylineChange,
+  frames,
+  isGenerating,
+  onGenerate,
+  onCancel,
+  onRetryFrame,
+  onMoveFrame,
+  onExport,
+  generateBlocker,
+}) => {
+  const { setting, beats } = storyline;
+  const blocker = generateBlocker ?? getStorylineIssue(storyline);
+  const finished = frames.filter(frame => frame.status === 'succeeded').length;
+
+  const setBeats = (next: StoryBeat[]) => onStorylineChange({ ...storyline, beats: next });
+  const updateBeat = (id: string, patch: Partial<StoryBeat>) =>
+    setBeats(beats.map(beat => beat.id === id ? { ...beat, ...patch } : beat));
+
+  return (
+    <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10">
+      <div className="mb-6 border-b border-slate-200/60 pb-4 md:pb-6">
+        <h2 className="text-lg md:text-xl font-bold text-slate-800">Carousel</h2>
+        <p className="text-xs text-slate-500 mt-1">
+          Frames are generated in order with the studio's people, products, format and prompt. Each frame is sent the earlier ones so the person, outfit and product stay the same.
+        </p>
+      </div>
+
+      {/* Storyline */}
+      <div className="space-y-4">
+        <label className="block">
+          <span className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Setting</span>
+          <input
+            value={setting}
+            onChange={(e) => onStorylineChange({ ...storyline, setting: e.target.value })}
+            placeholder="e.g. A bright apartment bathroom, morning light"
+            className={fieldClass}
+          />
+        </label>
+
+        <ol className="space-y-3">
+          {beats.map((beat, index) => (
+            <li key={beat.id} className="flex gap-3 items-start p-3 rounded-2xl border border-slate-200 bg-white">
+              <span className="flex items-center justify-center w-7 h-7 rounded-full bg-slate-900 text-white font-bold text-xs shrink-0 mt-1">{index + 1}</span>
+              <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-2">
+                <input
+                  value={beat.label}
+                  onChange={(e) => updateBeat(beat.id, { label: e.target.value })}
+                  placeholder="Beat name"
+                  className={fieldClass}
+                  aria-label={`Beat ${index + 1} name`}
+                />
+                <input
+                  value={beat.description}
+                  onChange={(e) => updateBeat(beat.id, { description: e.target.value })}
+                  placeholder="What happens in this frame"
+                  className={`${fieldClass} md:col-span-2`}
+                  aria-label={`Beat ${index + 1} description`}
+                />
+              </div>
+              <div className="flex items-center shrink-0 mt-0.5">
+                <button onClick={() => setBeats(moveItem(beats, index, index - 1))} disabled={index === 0} className={arrowClass} aria-label={`Move beat ${index + 1} up`}>↑</button>
+                <button onClick={() => setBeats(moveItem(beats, index, index + 1))} disabled={index === beats.length - 1} className={arrowClass} aria-label={`Move beat ${index + 1} down`}>↓</button>
+                <button onClick={() => setBeats(beats.filter(b => b.id !== beat.id))} className="p-1 text-slate-300 hover:text-red-500" aria-label={`Remove beat ${index + 1}`}>
+                  <XCircleIcon />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        <button
+          onClick={() => setBeats([...beats, createBeat()])}
+          disabled={beats.length >= MAX_BEATS}
+          className="text-sm font-semibold text-indigo-600 hover:text-indigo-700 disabled:opacity-40"
+        >
+          + Add beat
+        </button>
+      </div>
+
+      {/* Actions */}
+      <div className="mt-6 flex flex-wrap items-center justify-end gap-3">
+        {blocker && <span className="text-xs text-amber-700">{blocker}</span>}
+        {isGenerating ? (
+          <button onClick={onCancel} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:text-red-600 hover:bg-red-50">
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onGenerate}
+            disabled={!!blocker}
+            className="inline-flex items-center gap-2 px-5 py-2 rounded-xl text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 shadow-md disabled:opacity-50"
+          >
+            <SparklesIcon /> Generate {beats.length}-frame carousel
+          </button>
+        )}
+      </div>
+
+      {/* Frames */}
+      {frames.length > 0 && (
+        <div className="mt-8 pt-6 border-t border-slate-200/60">
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wide">Frames · {finished}/{frames.length} ready</h3>
+            <button
+              onClick={onExport}
+              disabled={isGenerating || finished === 0}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-50"
+            >
+              <DownloadIcon /> Export carousel
+            </button>
+          </div>
+          <ol className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            {frames.map((frame, index) => (
+              <li key={frame.id} className="rounded-xl overflow-hidden ring-1 ring-slate-200 bg-white">
+                <div className="relative aspect-square bg-slate-100 flex items-center justify-center">
+                  {frame.image ? (
+                    <img src={frame.image} alt={`Frame ${index + 1}: ${frame.beat.label}`} className="w-full h-full object-contain" />
+                  ) : (
+                    <span className={`px-3 text-center text-xs font-semibold ${frame.status === 'failed' ? 'text-red-600' : 'text-slate-400'}`}>
+                      {frame.status === 'failed' ? frame.error : frame.status === 'running' ? "Generating..." : frame.status === 'cancelled' ? "Cancelled" : "Waiting"}
+                    </span>
+                  )}
+                  <span className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-slate-900/80 text-white text-[10px] font-bold">{index + 1}</span>
+                </div>
+                <div className="flex items-center gap-1 px-2 py-2">
+                  <p className="flex-1 text-xs font-semibold text-slate-700 truncate" title={frame.beat.label}>{frame.beat.label}</p>
+                  <button onClick={() => onMoveFrame(index, index - 1)} disabled={isGenerating || index === 0} className={arrowClass} aria-label={`Move frame ${index + 1} left`}>←</button>
+                  <button onClick={() => onMoveFrame(index, index + 1)} disabled={isGenerating || index === frames.length - 1} className={arrowClass} aria-label={`Move frame ${index + 1} right`}>→</button>
+                  <button
+                    onClick={() => onRetryFrame(index)}
+                    disabled={isGenerating || !!generateBlocker}
+                    className="px-2 py-1 rounded-lg text-xs font-semibold text-indigo-600 hover:bg-indigo-50 disabled:opacity-30"
+                  >
+                    {frame.image ? "Redo" : "Retry"}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { EMPTY_IMAGE_STATE, type ImageState, type SubjectKind, type SubjectSlot } from '../types';
+import { ImageUploader } from './ImageUploader';
+
+interface SubjectListProps {
+  kind: SubjectKind;
+  title: string;
+  description: string;
+  slots: SubjectSlot[];
+  onChange: React.Dispatch<React.SetStateAction<SubjectSlot[]>>;
+  /** Maximum number of slots this list may grow to. */
+  maxSlots: number;
+}
+
+const ROLE_PLACEHOLDERS: Record<SubjectKind, string> = {
+  person: "Role, e.g. Main creator",
+  product: "Role, e.g. Night cream",
+};
+
+export const createSubjectSlot = (image: ImageState = EMPTY_IMAGE_STATE, role: string = ""): SubjectSlot => ({
+  id: `slot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  role,
+  image,
+});
+
+export const SubjectList: React.FC<SubjectListProps> = ({ kind, title, description, slots, onChange, maxSlots }) => {
+  const isList = slots.length > 1;
+
+  const updateSlot = (id: string, patch: Partial<SubjectSlot>) => {
+    onChange(prev => prev.map(slot => slot.id === id ? { ...slot, ...patch } : slot));
+  };
+
+  // Adapts ImageUploader's state setter to a single slot in the list.
+  const slotImageSetter = (id: string): React.Dispatch<React.SetStateAction<ImageState>> => (action) => {
+    onChange(prev => prev.map(slot =>
+      slot.id === id ? { ...slot, image: typeof action === 'function' ? action(slot.image) : action } : slot
+    ));
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {slots.map((slot, index) => (
+        <div key={slot.id} className={isList ? 'rounded-2xl border border-slate-200 bg-white/60 p-3' : ''}>
+          <ImageUploader
+            id={`${kind}-uploader-${slot.id}`}
+            title={isList ? `${title} ${index + 1}` : title}
+            description={isList ? undefined : description}
+            imageState={slot.image}
+            setImageState={slotImageSetter(slot.id)}
+            compact={isList}
+            kind={kind}
+            onExtraImages={(images) => onChange(prev => [...prev, ...images.map(image => createSubjectSlot(image))].slice(0, maxSlots))}
+            maxExtraImages={maxSlots - slots.length}
+          />
+          <div className="mt-3 flex items-center gap-2">
+            <input
+              value={slot.role}
+              onChange={(e) => updateSlot(slot.id, { role: e.target.value })}
+              placeholder={ROLE_PLACEHOLDERS[kind]}
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              aria-label={`${title} ${index + 1} role`}
+            />
+            {isList && (
+              <button
+                onClick={() => onChange(prev => prev.filter(s => s.id !== slot.id))}
+                className="text-xs font-semibold text-slate-400 hover:text-red-500 px-2"
+              >
+                Remove slot
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {slots.length < maxSlots && (
+        <button
+          onClick={() => onChange(prev => [...prev, createSubjectSlot()])}
+          className="w-full py-3 rounded-2xl border-2 border-dashed border-slate-300 text-sm font-bold text-slate-500 hover:border-indigo-400 hover:text-indigo-600"
+        >
+          + Add another {kind}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ModelPrice, UsageEntry, UsageSettings } from '../types';
+import { UNASSIGNED_PROJECT, dayKey, formatUsd, projectLabel, summarizeUsage, type UsageSummary } from '../services/usageService';
+
+interface UsageDashboardProps {
+  entries: UsageEntry[];
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  /** Brand kit names, offered for a budget even before they have any usage. */
+  projects: string[];
+  sessionStartedAt: number;
+  onExport: () => void;
+}
+
+interface AmountInputProps {
+  value: number | null;
+  onChange: (value: number | null) => void;
+  label: string;
+  placeholder?: string;
+}
+
+/** A dollar amount that is only applied on blur, so a half-typed number never blocks generation. */
+const AmountInput: React.FC<AmountInputProps> = ({ value, onChange, label, placeholder }) => {
+  const [draft, setDraft] = useState(value === null ? "" : String(value));
+
+  useEffect(() => {
+    setDraft(value === null ? "" : String(value));
+  }, [value]);
+
+  const commit = () => {
+    const amount = parseFloat(draft);
+    const next = draft.trim() === "" || !Number.isFinite(amount) || amount < 0 ? null : amount;
+    if (next !== value) onChange(next);
+    setDraft(next === null ? "" : String(next));
+  };
+
+  return (
+    <input
+      type="number"
+      min={0}
+      step="any"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      placeholder={placeholder}
+      aria-label={label}
+      className="w-24 px-2 py-1 rounded-lg border border-slate-200 bg-white text-sm text-right"
+    />
+  );
+};
+
+const SummaryTable: React.FC<{ title: string; rows: UsageSummary[] }> = ({ title, rows }) => (
+  <div className="rounded-2xl border border-slate-200 bg-white overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead className="bg-slate-50 text-xs text-slate-500 text-left">
+        <tr>
+          <th className="p-3">{title}</th>
+          <th className="p-3 text-right">Attempts</th>
+          <th className="p-3 text-right">Failed</th>
+          <th className="p-3 text-right">Images</th>
+          <th className="p-3 text-right hidden sm:table-cell">Tokens in / out</th>
+          <th className="p-3 text-right">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="border-t border-slate-100">
+            <td className="p-3 font-medium text-slate-700">{row.key}</td>
+            <td className="p-3 text-right">{row.attempts}</td>
+            <td className={`p-3 text-right ${row.failures > 0 ? 'text-red-600' : 'text-slate-400'}`}>{row.failures}</td>
+            <td className="p-3 text-right">{row.images}</td>
+            <td className="p-3 text-right text-slate-500 hidden sm:table-cell">
+              {row.inputTokens.toLocaleString()} / {row.outputTokens.toLocaleString()}
+            </td>
+            <td className="p-3 text-right font-semibold">{formatUsd(row.cost)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ entries, settings, onSettingsChange, projects, sessionStartedAt, onExport }) => {
+  const byDay = useMemo(() => summarizeUsage(entries, entry => dayKey(entry.timestamp)).reverse(), [entries]);
+  const byProject = useMemo(() => summarizeUsage(entries, entry => projectLabel(entry.project)), [entries]);
+  const budgetProjects = useMemo(
+    () => [...new Set([...projects, ...byProject.map(row => row.key), ...Object.keys(settings.projectBudgets)])].sort(),
+    [projects, byProject, settings.projectBudgets],
+  );
+
+  const today = dayKey(Date.now());
+  const totals = [
+    { label: "This session", cost: entries.filter(e => e.timestamp >= sessionStartedAt).reduce((sum, e) => sum + e.cost, 0) },
+    { label: "Today", cost: byDay.find(row => row.key === today)?.cost ?? 0 },
+    { label: "All time", cost: byDay.reduce((sum, row) => sum + row.cost, 0) },
+  ];
+
+  const setProjectBudget = (project: string, amount: number | null) => {
+    const { [project]: _, ...rest } = settings.projectBudgets;
+    onSettingsChange({ ...settings, projectBudgets: amount === null ? rest : { ...rest, [project]: amount } });
+  };
+
+  const setPrice = (model: string, patch: Partial<ModelPrice>) => {
+    onSettingsChange({ ...settings, prices: settings.prices.map(price => price.model === model ? { ...price, ...patch } : price) });
+  };
+
+  return (
+    <section className="bg-white/70 backdrop-blur-xl rounded-3xl shadow-xl shadow-slate-200/50 border border-white p-5 md:p-10 space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 border-b border-slate-200/60 pb-4 md:pb-6">
+        <div>
+          <h2 className="text-lg md:text-xl font-bold text-slate-800">Usage</h2>
+          <p className="text-xs text-slate-500 mt-1">
+            Every API attempt, retries included. Costs are estimates from the price table below.
+          </p>
+        </div>
+        <button
+          onClick={onExport}
+          disabled={entries.length === 0}
+          className="px-4 py-2 rounded-xl text-sm font-semibold bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-50"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {totals.map(total => (
+          <div key={total.label} className="rounded-2xl border border-slate-200 bg-white p-4 text-center">
+            <p className="text-xs font-semibold text-slate-500">{total.label}</p>
+            <p className="text-xl md:text-2xl font-black text-slate-800 mt-1">{formatUsd(total.cost)}</p>
+          </div>
+        ))}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-6">No usage yet. Generated images and captions will show up here.</p>
+      ) : (
+        <div className="space-y-4">
+          <SummaryTable title="Day" rows={byDay} />
+          <SummaryTable title="Project" rows={byProject} />
+        </div>
+      )}
+
+      {/* Budgets */}
+      <div>
+        <h3 className="text-sm font-bold text-slate-700 mb-1">Budgets</h3>
+        <p className="text-xs text-slate-500 mb-3">
+          New generations are blocked once a budget is reached. Leave a budget empty for no limit.
+        </p>
+        <div className="space-y-2">
+          <label className="flex items-center justify-between gap-3 text-sm text-slate-600">
+            This session
+            <AmountInput
+              value={settings.sessionBudget}
+              onChange={(sessionBudget) => onSettingsChange({ ...settings, sessionBudget })}
+              label="Session budget"
+              placeholder="No limit"
+            />
+          </label>
+          {budgetProjects.map(project => (
+            <label key={project} className="flex items-center justify-between gap-3 text-sm text-slate-600">
+              <span className={project === UNASSIGNED_PROJECT ? 'italic' : ''}>{project}</span>
+              <AmountInput
+                value={settings.projectBudgets[project] ?? null}
+                onChange={(amount) => setProjectBudget(project, amount)}
+                label={`Budget for ${project}`}
+                placeholder="No limit"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Price Table */}
+      <div>
+        <h3 className="text-sm font-bold text-slate-700 mb-1">Prices (USD)</h3>
+        <p className="text-xs text-slate-500 mb-3">Changes apply to new attempts; recorded costs are kept as they were.</p>
+        <div className="rounded-2xl border border-slate-200 bg-white overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 text-left">
+              <tr>
+                <th className="p-3">Model</th>
+                <th className="p-3 text-right">Input / 1M tokens</th>
+                <th className="p-3 text-right">Output / 1M tokens</th>
+                <th className="p-3 text-right">Per image</th>
+              </tr>
+            </thead>
+            <tbody>
+              {settings.prices.map(price => (
+                <tr key={price.model} className="border-t border-slate-100">
+                  <td className="p-3 font-mono text-xs text-slate-700">{price.model}</td>
+                  <td className="p-3 text-right">
+                    <AmountInput
+                      value={price.inputPerMillionTokens}
+                      onChange={(amount) => setPrice(price.model, { inputPerMillionTokens: amount ?? 0 })}
+                      label={`${price.model} input price`}
+                    />
+                  </td>
+                  <td className="p-3 text-right">
+                    <AmountInput
+                      value={price.outputPerMillionTokens}
+                      onChange={(amount) => setPrice(price.model, { outputPerMillionTokens: amount ?? 0 })}
+                      label={`${price.model} output price`}
+                    />
+                  </td>
+                  <td className="p-3 text-right">
+                    <AmountInput
+                      value={price.perImage}
+                      onChange={(amount) => setPrice(price.model, { perImage: amount ?? 0 })}
+                      label={`${price.model} price per image`}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+};
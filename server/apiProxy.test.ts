@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { apiError, generateContent, imageResponse } from '../test/fakeGenAI';
+import { DEFAULT_PLATFORM } from '../services/platformService';
+import { createApiProxy, type ApiProxyOptions } from './apiProxy';
+
+vi.mock('@google/genai', () => import('../test/fakeGenAI'));
+
+const API_KEY = 'server-secret-key';
+
+const generateBody = {
+  people: [{ base64: 'cGVyc29u', mimeType: 'image/jpeg', role: '' }],
+  products: [{ base64: 'cHJvZHVjdA==', mimeType: 'image/jpeg', role: '' }],
+  sceneDescription: 'Kitchen',
+  platform: DEFAULT_PLATFORM,
+};
+
+interface ProxyResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  text: string;
+}
+
+let server: http.Server;
+let port: number;
+
+const startProxy = (options: Partial<ApiProxyOptions> = {}) =>
+  new Promise<void>(resolve => {
+    const proxy = createApiProxy({ apiKey: API_KEY, rateLimit: 10, rateLimitWindowMs: 60_000, maxBodyBytes: 1024 * 1024, ...options });
+    server = http.createServer((req, res) => proxy(req, res, () => {
+      res.statusCode = 404;
+      res.end();
+    }));
+    server.listen(0, '127.0.0.1', () => {
+      port = (server.address() as AddressInfo).port;
+      resolve();
+    });
+  });
+
+/** Posts with node's client, which still reads the answer when the server stops reading the upload. */
+const post = (path: string, body: string) =>
+  new Promise<ProxyResponse>((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path, method: 'POST', headers: { 'Content-Type': 'application/json' } }, res => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => { text += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, text }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+
+describe('createApiProxy', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    generateContent.mockReset();
+  });
+
+  afterEach(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('generates an image and reports usage without exposing the key', async () => {
+    await startProxy();
+    generateContent.mockResolvedValue(imageResponse('aW1hZ2U='));
+
+    const response = await post('/api/generate', JSON.stringify(generateBody));
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.text)).toMatchObject({ image: { base64: 'aW1hZ2U=' }, usage: [expect.objectContaining({ outcome: 'success' })] });
+    expect(response.text).not.toContain(API_KEY);
+  });
+
+  it('does not echo the key when Gemini rejects it', async () => {
+    await startProxy();
+    generateContent.mockRejectedValue(apiError(400, { error: { message: `API key not valid: ${API_KEY}`, status: 'INVALID_ARGUMENT' } }));
+
+    const response = await post('/api/generate', JSON.stringify(generateBody));
+
+    expect(response.status).toBeGreaterThanOrEqual(400);
+    expect(response.text).not.toContain(API_KEY);
+  });
+
+  it.each([
+    ['an empty body', {}, 'people'],
+    ['a missing scene', { ...generateBody, sceneDescription: undefined }, 'sceneDescription'],
+    ['an unknown aspect ratio', { ...generateBody, platform: { ...DEFAULT_PLATFORM, aspectRatio: '7:2' } }, 'platform'],
+    ['malformed carousel frames', { ...generateBody, continuity: [{ base64: 1 }] }, 'continuity'],
+  ])('rejects %s with 400 before calling Gemini', async (_, body, field) => {
+    await startProxy();
+
+    const response = await post('/api/generate', JSON.stringify(body));
+
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.text)).toMatchObject({ code: 'invalid-request', error: expect.stringContaining(`"${field}"`) });
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('answers an oversized body with 413 and closes the connection', async () => {
+    await startProxy({ maxBodyBytes: 1024 });
+
+    const response = await post('/api/generate', JSON.stringify({ ...generateBody, sceneDescription: 'x'.repeat(64 * 1024) }));
+
+    expect(response.status).toBe(413);
+    expect(response.headers.connection).toBe('close');
+    expect(JSON.parse(response.text)).toMatchObject({ code: 'payload-too-large' });
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('limits each client to the configured requests per window', async () => {
+    await startProxy({ rateLimit: 2 });
+
+    const allowed = [await post('/api/generate', '{}'), await post('/api/generate', '{}')];
+    const limited = await post('/api/generate', '{}');
+
+    expect(allowed.map(response => response.status)).toEqual([400, 400]);
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+    expect(JSON.parse(limited.text)).toMatchObject({ code: 'quota' });
+  });
+});
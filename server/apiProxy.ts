@@ -0,0 +1,236 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import type { CopyRequest, GenerationErrorCode, GenerationOptions, ImageGenerationRequest, ImageRefinementRequest, InlineImage, PlatformPreset, ReferenceImage, UsageAttempt } from '../types';
+import { CAPTION_LENGTHS, CAPTION_TONES } from '../services/copyService';
+import { generateWithGemini, refineWithGemini, writeCopyWithGemini } from '../services/geminiService';
+import { toGenerationError } from '../services/generationErrors';
+import { PLATFORM_PRESETS } from '../services/platformService';
+import { createRateLimiter } from './rateLimiter';
+
+export interface ApiProxyOptions {
+  /** Gemini key. Stays on the server and is never sent to the browser. */
+  apiKey: string | undefined;
+  /** Generation requests allowed per client per window. */
+  rateLimit: number;
+  rateLimitWindowMs: number;
+  /** Largest request body accepted, in bytes. */
+  maxBodyBytes: number;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Reads the whole request body, rejecting with 413 as soon as it passes `maxBytes`
+ * so oversized uploads are not buffered in full. The rest of the body is left unread;
+ * the caller answers and then closes the connection.
+ */
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, `Request is larger than the ${Math.round(maxBytes / (1024 * 1024))}MB limit.`);
+    const declared = Number(req.headers['content-length']);
+    if (declared > maxBytes) {
+      req.pause();
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData);
+        req.pause();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString: FieldCheck = value => typeof value === 'string';
+const isFilledString: FieldCheck = value => typeof value === 'string' && value.trim() !== '';
+const isCount: FieldCheck = value => Number.isInteger(value) && (value as number) >= 0;
+const optional = (check: FieldCheck): FieldCheck => value => value === undefined || check(value);
+const oneOf = (allowed: readonly unknown[]): FieldCheck => value => allowed.includes(value);
+const listOf = (check: FieldCheck): FieldCheck => value => Array.isArray(value) && value.every(check);
+
+/** Checks every field of `T`, so a body that passes has the shape the handler expects. */
+type FieldChecks<T> = { [K in keyof T]-?: FieldCheck };
+
+const shapeOf = <T,>(fields: FieldChecks<T>): FieldCheck => value =>
+  isRecord(value) && Object.keys(fields).every(field => fields[field as keyof T](value[field]));
+
+const isImage = shapeOf<InlineImage>({ base64: isFilledString, mimeType: isString });
+const isReference = shapeOf<ReferenceImage>({ base64: isFilledString, mimeType: isString, role: isString, description: optional(isString) });
+const isPlatform = shapeOf<PlatformPreset>({
+  id: isString,
+  label: isFilledString,
+  aspectRatio: oneOf(PLATFORM_PRESETS.map(preset => preset.aspectRatio)),
+  width: isCount,
+  height: isCount,
+  promptFormat: isFilledString,
+  captionLimit: isCount,
+  hashtagLimit: isCount,
+});
+
+interface Route {
+  /** Checks for each field of the request type, so malformed bodies get a 400 before Gemini is called. */
+  fields: Record<string, FieldCheck>;
+  handle: (body: Record<string, unknown>, apiKey: string | undefined, options: GenerationOptions) => Promise<unknown>;
+}
+
+const route = <T,>(
+  fields: FieldChecks<T>,
+  handle: (body: T, apiKey: string | undefined, options: GenerationOptions) => Promise<unknown>
+): Route => ({
+  fields,
+  // Only called once every field has passed its check.
+  handle: (body, apiKey, options) => handle(body as T, apiKey, options),
+});
+
+const ROUTES: Record<string, Route> = {
+  '/api/generate': route<ImageGenerationRequest>({
+    people: listOf(isReference),
+    products: listOf(isReference),
+    sceneDescription: isFilledString,
+    platform: isPlatform,
+    promptTemplate: optional(isString),
+    continuity: optional(listOf(isImage)),
+  }, generateWithGemini),
+  '/api/refine': route<ImageRefinementRequest>({
+    image: isImage,
+    instruction: isFilledString,
+    people: listOf(isReference),
+    products: listOf(isReference),
+    platform: isPlatform,
+    brandGuidelines: optional(isString),
+  }, refineWithGemini),
+  '/api/copy': route<CopyRequest>({
+    image: isImage,
+    scene: isString,
+    products: listOf(isReference),
+    platform: isPlatform,
+    tone: oneOf(CAPTION_TONES.map(tone => tone.id)),
+    length: oneOf(CAPTION_LENGTHS.map(length => length.id)),
+  }, writeCopyWithGemini),
+};
+
+/** Returns the first field of `body` that is missing or malformed, checked in order, or null. */
+const findInvalidField = (body: Record<string, unknown>, fields: Record<string, FieldCheck>): string | null =>
+  Object.keys(fields).find(field => !fields[field](body[field])) ?? null;
+
+/** HTTP status the proxy answers with for each failure, so plain HTTP clients see a sensible code too. */
+const STATUS_FOR_CODE: Partial<Record<GenerationErrorCode, number>> = {
+  'quota': 429,
+  'auth': 502,
+  'payload-too-large': 413,
+  'invalid-request': 400,
+  'safety': 422,
+  'timeout': 504,
+  'cancelled': 499,
+};
+
+/**
+ * Connect-style middleware that forwards generation requests to Gemini with a server-side key.
+ * Requests for other paths fall through to `next`.
+ */
+export const createApiProxy = ({ apiKey, rateLimit, rateLimitWindowMs, maxBodyBytes }: ApiProxyOptions) => {
+  const checkRateLimit = createRateLimiter(rateLimit, rateLimitWindowMs);
+
+  return async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const path = req.url?.split('?')[0] ?? '';
+    const route = ROUTES[path];
+    if (!route) {
+      next();
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed.' }, { Allow: 'POST' });
+      return;
+    }
+
+    const clientId = req.socket.remoteAddress ?? 'unknown';
+    const limit = checkRateLimit(clientId);
+    if (!limit.allowed) {
+      sendJson(
+        res,
+        429,
+        { error: `Too many requests. Try again in ${limit.retryAfterSeconds}s.`, code: 'quota', retryAfterMs: limit.retryAfterSeconds * 1000 },
+        { 'Retry-After': String(limit.retryAfterSeconds) }
+      );
+      return;
+    }
+
+    // Every upstream attempt, retries included, is sent back so the browser's usage ledger can record it.
+    const usage: UsageAttempt[] = [];
+    try {
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req, maxBodyBytes));
+      } catch (err) {
+        if (err instanceof HttpError) throw err;
+        throw new HttpError(400, 'Request body must be valid JSON.');
+      }
+      if (!isRecord(body)) throw new HttpError(400, 'Request body must be a JSON object.');
+      const invalidField = findInvalidField(body, route.fields);
+      if (invalidField) throw new HttpError(400, `Request field "${invalidField}" is missing or invalid.`);
+      // Stop retrying upstream once the browser has gone away.
+      const controller = new AbortController();
+      res.on('close', () => controller.abort());
+      const result = await route.handle(body, apiKey, { signal: controller.signal, onAttempt: attempt => usage.push(attempt) });
+      sendJson(res, 200, { ...(result as object), usage });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        if (err.status !== 413) {
+          sendJson(res, err.status, { error: err.message, code: 'invalid-request' });
+          return;
+        }
+        // The rest of the upload was never read, so the connection cannot be reused; close it once the answer is sent.
+        res.once('finish', () => req.destroy());
+        sendJson(res, 413, { error: err.message, code: 'payload-too-large' }, { Connection: 'close' });
+        return;
+      }
+      const error = toGenerationError(err);
+      console.error('API proxy request failed:', error);
+      if (res.writableEnded || res.destroyed) return;
+      const headers: Record<string, string> = error.retryAfterMs !== null
+        ? { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) }
+        : {};
+      sendJson(res, STATUS_FOR_CODE[error.code] ?? 502, { error: error.message, code: error.code, retryAfterMs: error.retryAfterMs, usage }, headers);
+    }
+  };
+};
+
+/**
+ * Mounts the API proxy on the Vite dev and preview servers.
+ */
+export const apiProxyPlugin = (options: ApiProxyOptions): Plugin => {
+  const middleware = createApiProxy(options);
+  return {
+    name: 'ugc-studio-api-proxy',
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    },
+  };
+};
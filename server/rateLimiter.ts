@@ -0,0 +1,34 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the client's window resets. */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Fixed-window request counter keyed by client id.
+ * In-memory only, so limits reset when the server restarts.
+ */
+export const createRateLimiter = (maxRequests: number, windowMs: number) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (clientId: string, now: number = Date.now()): RateLimitResult => {
+    let entry = windows.get(clientId);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      windows.set(clientId, entry);
+    }
+
+    // Drop stale entries occasionally so the map does not grow without bound.
+    if (windows.size > 10000) {
+      for (const [id, w] of windows) {
+        if (w.resetAt <= now) windows.delete(id);
+      }
+    }
+
+    entry.count++;
+    return {
+      allowed: entry.count <= maxRequests,
+      retryAfterSeconds: Math.max(1, Math.ceil((entry.resetAt - now) / 1000)),
+    };
+  };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Pixels } from './imageQualityService';
+import { applyMask, computeCutoutMask, estimateBackgroundColor, paintMask } from './backgroundRemoval';
+
+const SIZE = 20;
+
+/** Builds an RGBA image from a per-pixel colour. */
+const pixels = (color: (x: number, y: number) => [number, number, number]): Pixels => {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      data.set([...color(x, y), 255], (y * SIZE + x) * 4);
+    }
+  }
+  return { data, width: SIZE, height: SIZE };
+};
+
+const WHITE: [number, number, number] = [250, 250, 250];
+const RED: [number, number, number] = [200, 30, 30];
+const inBox = (x: number, y: number) => x >= 5 && x < 15 && y >= 5 && y < 15;
+
+describe('background removal', () => {
+  it('takes the backdrop colour from the frame edges', () => {
+    expect(estimateBackgroundColor(pixels((x, y) => inBox(x, y) ? RED : WHITE))).toEqual(WHITE);
+  });
+
+  it('removes background connected to the edges and keeps the product', () => {
+    const mask = computeCutoutMask(pixels((x, y) => inBox(x, y) ? RED : WHITE));
+    expect(mask[0]).toBe(0);
+    expect(mask[2 * SIZE + 2]).toBe(0);
+    expect(mask[10 * SIZE + 10]).toBe(255);
+  });
+
+  it('keeps backdrop-coloured areas enclosed by the product', () => {
+    // A red ring with a white hole in the middle, like a label on a bottle.
+    const hole = (x: number, y: number) => x >= 8 && x < 12 && y >= 8 && y < 12;
+    const mask = computeCutoutMask(pixels((x, y) => inBox(x, y) && !hole(x, y) ? RED : WHITE));
+    expect(mask[10 * SIZE + 10]).toBe(255);
+  });
+
+  it('paints brush strokes into the mask and applies it as alpha', () => {
+    const image = pixels(() => WHITE);
+    const mask = computeCutoutMask(image);
+    paintMask(mask, SIZE, SIZE, 10, 10, 2, 255);
+    expect(mask[10 * SIZE + 10]).toBe(255);
+    expect(mask[10 * SIZE + 13]).toBe(0);
+
+    const result = applyMask(image, mask);
+    expect(result[(10 * SIZE + 10) * 4 + 3]).toBe(255);
+    expect(result[3]).toBe(0);
+    expect(Array.from(result.subarray(0, 3))).toEqual(WHITE);
+  });
+});
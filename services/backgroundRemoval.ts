@@ -0,0 +1,127 @@
+import { loadImage } from "./platformService";
+import type { Pixels } from "./imageQualityService";
+
+/** Default colour distance (0-441, RGB euclidean) still treated as background. */
+export const DEFAULT_TOLERANCE = 60;
+
+/** Share of the tolerance, at the outer end, that fades to partial alpha instead of a hard edge. */
+const FEATHER = 0.35;
+
+/** Average colour of the outermost pixel ring, taken to be the backdrop. */
+export const estimateBackgroundColor = ({ data, width, height }: Pixels): [number, number, number] => {
+  const total = [0, 0, 0];
+  let count = 0;
+  const add = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    total[0] += data[i];
+    total[1] += data[i + 1];
+    total[2] += data[i + 2];
+    count++;
+  };
+  for (let x = 0; x < width; x++) {
+    add(x, 0);
+    if (height > 1) add(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    add(0, y);
+    if (width > 1) add(width - 1, y);
+  }
+  return [total[0] / count, total[1] / count, total[2] / count];
+};
+
+/**
+ * Colour-key cutout: flood-fills from the frame edges through every pixel close to the
+ * backdrop colour, so background that touches the border is removed while same-coloured
+ * areas enclosed by the product are kept. Returns one alpha value per pixel.
+ */
+export const computeCutoutMask = (pixels: Pixels, tolerance: number = DEFAULT_TOLERANCE): Uint8ClampedArray => {
+  const { data, width, height } = pixels;
+  const [r, g, b] = estimateBackgroundColor(pixels);
+  const mask = new Uint8ClampedArray(width * height).fill(255);
+  const visited = new Uint8Array(width * height);
+  const featherStart = tolerance * (1 - FEATHER);
+  const stack: number[] = [];
+
+  const visit = (index: number) => {
+    if (visited[index]) return;
+    visited[index] = 1;
+    const i = index * 4;
+    const distance = Math.hypot(data[i] - r, data[i + 1] - g, data[i + 2] - b);
+    if (distance > tolerance) return;
+    mask[index] = distance <= featherStart ? 0 : Math.round(255 * (distance - featherStart) / (tolerance - featherStart));
+    stack.push(index);
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (stack.length) {
+    const index = stack.pop()!;
+    const x = index % width;
+    if (x > 0) visit(index - 1);
+    if (x < width - 1) visit(index + 1);
+    if (index >= width) visit(index - width);
+    if (index < width * (height - 1)) visit(index + width);
+  }
+  return mask;
+};
+
+/** Paints a filled circle into the mask: 255 restores the product, 0 erases background. */
+export const paintMask = (
+  mask: Uint8ClampedArray,
+  width: number,
+  height: number,
+  centerX: number,
+  centerY: number,
+  radius: number,
+  value: number
+) => {
+  const minY = Math.max(0, Math.floor(centerY - radius));
+  const maxY = Math.min(height - 1, Math.ceil(centerY + radius));
+  const minX = Math.max(0, Math.floor(centerX - radius));
+  const maxX = Math.min(width - 1, Math.ceil(centerX + radius));
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if ((x - centerX) ** 2 + (y - centerY) ** 2 <= radius * radius) {
+        mask[y * width + x] = value;
+      }
+    }
+  }
+};
+
+/** Copy of the pixels with the mask as their alpha channel. */
+export const applyMask = ({ data, width, height }: Pixels, mask: Uint8ClampedArray): Uint8ClampedArray<ArrayBuffer> => {
+  const result = new Uint8ClampedArray(data);
+  for (let index = 0; index < width * height; index++) {
+    result[index * 4 + 3] = Math.min(data[index * 4 + 3], mask[index]);
+  }
+  return result;
+};
+
+/** Decodes an image into pixels at its natural size. */
+export const readImagePixels = async (source: string): Promise<Pixels> => {
+  const img = await loadImage(source);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas context failed");
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, img.width, img.height);
+};
+
+/** Encodes the masked pixels as a transparent PNG data URL. */
+export const renderCutout = (pixels: Pixels, mask: Uint8ClampedArray): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  ctx.putImageData(new ImageData(applyMask(pixels, mask), pixels.width, pixels.height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,70 @@
+import type { GenerationJob, ReferenceImage } from '../types';
+
+export interface JobScene {
+  label: string;
+  description: string;
+  categoryId: string | null;
+}
+
+interface CreateJobsOptions {
+  scenes: JobScene[];
+  variations: number;
+  platformId: string;
+  promptTemplate: string;
+  people: ReferenceImage[];
+  products: ReferenceImage[];
+}
+
+/**
+ * Expands a scene selection into one queued job per requested variation.
+ */
+export const createJobs = ({ scenes, variations, platformId, promptTemplate, people, products }: CreateJobsOptions): GenerationJob[] => {
+  const batchId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  return scenes.flatMap((scene, sceneIndex) =>
+    Array.from({ length: variations }, (_, i) => ({
+      id: `${batchId}-${sceneIndex}-${i}`,
+      batchId,
+      scene: scene.label,
+      sceneDescription: scene.description,
+      categoryId: scene.categoryId,
+      variation: i + 1,
+      platformId,
+      promptTemplate,
+      people,
+      products,
+      status: 'queued' as const,
+      image: null,
+      model: null,
+      prompt: null,
+      error: null,
+      errorCode: null,
+      retryAt: null,
+      rating: null,
+      isWinner: false,
+      copy: null,
+    }))
+  );
+};
+
+/**
+ * Runs the given tasks with at most `limit` in flight at once.
+ * Tasks are started in order; a failing task does not stop the others.
+ */
+export const runWithConcurrency = async (
+  tasks: (() => Promise<void>)[],
+  limit: number
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      try {
+        await task();
+      } catch (err) {
+        console.error("Batch task failed:", err);
+      }
+    }
+  };
+  const workerCount = Math.max(1, Math.min(limit, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+};
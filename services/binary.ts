@@ -0,0 +1,49 @@
+/** Small byte helpers shared by the metadata writers and the ZIP builder. */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 as used by PNG chunks and ZIP entries. */
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const utf8 = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+/** 7-bit ASCII bytes for formats that only allow ASCII text; characters above 0x7F become "?". */
+export const ascii = (text: string): Uint8Array =>
+  Uint8Array.from(text, char => char.charCodeAt(0) < 128 ? char.charCodeAt(0) : 63);
+
+export const uint16BE = (value: number) => new Uint8Array([(value >>> 8) & 0xff, value & 0xff]);
+export const uint32BE = (value: number) => new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+export const uint16LE = (value: number) => new Uint8Array([value & 0xff, (value >>> 8) & 0xff]);
+export const uint32LE = (value: number) => new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff]);
+
+export const readUint32BE = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+export const readUint32LE = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
@@ -0,0 +1,68 @@
+import type { BrandKit, SceneCategory } from "../types";
+import { DEFAULT_PLATFORM } from "./platformService";
+
+const STORAGE_KEY = 'ugc-studio:brand-kits';
+const ACTIVE_KEY = 'ugc-studio:active-brand-kit';
+
+export const createBrandKit = (name: string = "New Brand Kit"): BrandKit => ({
+  id: `brand-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  name,
+  colors: [],
+  toneKeywords: [],
+  forbiddenElements: [],
+  requiredWording: "",
+  allowedSceneIds: [],
+  defaultPlatformId: DEFAULT_PLATFORM.id,
+});
+
+export const loadBrandKits = (): BrandKit[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const kits = stored ? JSON.parse(stored) : [];
+    // Merge over a fresh kit so fields added later get defaults.
+    return Array.isArray(kits) ? kits.map((kit: BrandKit) => ({ ...createBrandKit(), ...kit })) : [];
+  } catch (err) {
+    console.error("Failed to load brand kits:", err);
+    return [];
+  }
+};
+
+export const saveBrandKits = (kits: BrandKit[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(kits));
+};
+
+export const loadActiveBrandKitId = (): string | null => localStorage.getItem(ACTIVE_KEY);
+
+export const saveActiveBrandKitId = (id: string | null): void => {
+  if (id) {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_KEY);
+  }
+};
+
+/** Prompt lines describing the kit's constraints, or an empty string if it sets none. */
+export const buildBrandGuidelines = (kit: BrandKit): string => {
+  const lines = [
+    kit.colors.length > 0 && `Brand color palette: ${kit.colors.join(', ')}. Work these colors into props, clothing or the backdrop.`,
+    kit.toneKeywords.length > 0 && `Brand tone: ${kit.toneKeywords.join(', ')}.`,
+    kit.forbiddenElements.length > 0 && `Never include: ${kit.forbiddenElements.join(', ')}.`,
+    kit.requiredWording.trim(),
+  ].filter(Boolean);
+
+  return lines.length > 0 ? [`Brand guidelines for ${kit.name}:`, ...lines].join('\n  ') : "";
+};
+
+/** Appends the kit's guidelines to a prompt template so they apply whatever the user edited. */
+export const applyBrandKit = (template: string, kit: BrandKit | null): string => {
+  const guidelines = kit ? buildBrandGuidelines(kit) : "";
+  return guidelines ? `${template}\n  \n  ${guidelines}` : template;
+};
+
+/** Restricts the catalog to the kit's allowed scenes, dropping categories left empty. */
+export const filterCatalogForKit = (categories: SceneCategory[], kit: BrandKit | null): SceneCategory[] => {
+  if (!kit || kit.allowedSceneIds.length === 0) return categories;
+  return categories
+    .map(category => ({ ...category, subOptions: category.subOptions.filter(o => kit.allowedSceneIds.includes(o.id)) }))
+    .filter(category => category.subOptions.length > 0);
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { CopyRequest, PostCopy } from '../types';
+import { getPlatformPreset } from './platformService';
+import { buildCopyPrompt, formatPostText, getCopyIssues, parseCopyResponse, parseHashtags } from './copyService';
+
+const copy = (patch: Partial<PostCopy>): PostCopy => ({
+  caption: "New favorite serum.", hashtags: ['#skincare'], altText: "A woman holding a serum bottle", tone: 'casual', length: 'short', ...patch,
+});
+
+describe('parseCopyResponse', () => {
+  it('reads fenced JSON and normalizes hashtags', () => {
+    const text = '```json\n{"caption": " Glowing! ", "hashtags": ["skincare", "#Morning Routine", "#SkinCare", "##glow"], "altText": "A jar on a shelf"}\n```';
+    expect(parseCopyResponse(text)).toEqual({
+      caption: "Glowing!",
+      hashtags: ['#skincare', '#MorningRoutine', '#glow'],
+      altText: "A jar on a shelf",
+    });
+  });
+
+  it('returns null without a caption', () => {
+    expect(parseCopyResponse('not json')).toBeNull();
+    expect(parseCopyResponse('{"caption": "", "hashtags": []}')).toBeNull();
+  });
+});
+
+describe('copy limits', () => {
+  it('counts hashtags toward the caption limit', () => {
+    const banner = getPlatformPreset('web-banner');
+    const issues = getCopyIssues(copy({ caption: 'x'.repeat(150) }), banner);
+    expect(issues).toEqual([
+      "Caption and hashtags are 161 characters; Web Banner allows 160.",
+      "Web Banner does not use hashtags.",
+    ]);
+  });
+
+  it('flags missing or long alt text and too many hashtags', () => {
+    const stories = getPlatformPreset('instagram-stories');
+    expect(getCopyIssues(copy({ altText: "" }), stories)).toEqual(["Add alt text so screen-reader users know what the image shows."]);
+    expect(getCopyIssues(copy({ altText: 'a'.repeat(126), hashtags: parseHashtags(Array.from({ length: 11 }, (_, i) => `tag${i}`).join(',')) }), stories)).toEqual([
+      "11 hashtags; Stories allows 10.",
+      "Alt text is 126 characters; keep it under 125 so screen readers read it in full.",
+    ]);
+  });
+
+  it('puts hashtags on their own paragraph', () => {
+    expect(formatPostText(copy({ hashtags: ['#a', '#b'] }))).toBe("New favorite serum.\n\n#a #b");
+    expect(formatPostText(copy({ hashtags: [] }))).toBe("New favorite serum.");
+  });
+});
+
+describe('buildCopyPrompt', () => {
+  const request: CopyRequest = {
+    image: { base64: 'aW1n', mimeType: 'image/png' },
+    scene: "A sunny bathroom",
+    products: [{ base64: 'cQ==', mimeType: 'image/jpeg', role: "Glow Serum", description: "Vitamin C serum in an amber bottle" }],
+    platform: getPlatformPreset('instagram-square'),
+    tone: 'witty',
+    length: 'long',
+  };
+
+  it('includes the scene, product details, tone, length and limits', () => {
+    const prompt = buildCopyPrompt(request);
+    expect(prompt).toContain("Scene: A sunny bathroom");
+    expect(prompt).toContain("Product: Glow Serum — Vitamin C serum in an amber bottle");
+    expect(prompt).toContain("playful and clever");
+    expect(prompt).toContain("Hashtags: 8 relevant hashtags");
+    expect(prompt).toContain("under 2200 characters");
+  });
+
+  it('asks for no hashtags where the platform does not use them', () => {
+    expect(buildCopyPrompt({ ...request, platform: getPlatformPreset('web-banner') })).toContain("Hashtags: none");
+  });
+});
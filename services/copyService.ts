@@ -0,0 +1,133 @@
+import type { CaptionLength, CaptionTone, CopyRequest, CopyResponse, PlatformPreset, PostCopy } from "../types";
+
+/** Screen readers cut alt text off around this length. */
+export const ALT_TEXT_LIMIT = 125;
+
+export const CAPTION_TONES: { id: CaptionTone; label: string; guidance: string }[] = [
+  { id: 'casual', label: "Casual", guidance: "relaxed and conversational, like texting a friend" },
+  { id: 'enthusiastic', label: "Enthusiastic", guidance: "excited and upbeat, with a few well-placed emoji" },
+  { id: 'informative', label: "Informative", guidance: "helpful and specific about what the product does and why it works" },
+  { id: 'witty', label: "Witty", guidance: "playful and clever, with a light joke or wordplay" },
+  { id: 'luxurious', label: "Luxurious", guidance: "refined and sensory, with understated confidence" },
+];
+
+export const CAPTION_LENGTHS: { id: CaptionLength; label: string; guidance: string; hashtags: number }[] = [
+  { id: 'short', label: "Short", guidance: "one sentence, under 125 characters", hashtags: 3 },
+  { id: 'medium', label: "Medium", guidance: "two to three sentences, under 300 characters", hashtags: 5 },
+  { id: 'long', label: "Long", guidance: "a short story of four to six sentences with a call to action, under 800 characters", hashtags: 8 },
+];
+
+export const DEFAULT_TONE: CaptionTone = 'casual';
+export const DEFAULT_LENGTH: CaptionLength = 'medium';
+
+/** Shape the model is asked to answer in. */
+export const COPY_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    caption: { type: 'string' },
+    hashtags: { type: 'array', items: { type: 'string' } },
+    altText: { type: 'string' },
+  },
+  required: ['caption', 'hashtags', 'altText'],
+};
+
+/** Same product naming as the image prompt, so the caption mentions what the photo shows. */
+const describeProducts = (products: CopyRequest['products']): string[] =>
+  products.map((product, i) => {
+    const name = product.role.trim() || `Product ${i + 1}`;
+    const details = product.description?.trim().replace(/\s+/g, ' ').slice(0, 300);
+    return `Product: ${name}${details ? ` — ${details}` : ''}`;
+  });
+
+/**
+ * Prompt for the caption, hashtags and alt text of a generated image.
+ * The image itself is sent alongside, so the alt text describes what is actually in it.
+ */
+export const buildCopyPrompt = ({ scene, products, platform, tone, length }: CopyRequest): string => {
+  const toneOption = CAPTION_TONES.find(t => t.id === tone) ?? CAPTION_TONES[0];
+  const lengthOption = CAPTION_LENGTHS.find(l => l.id === length) ?? CAPTION_LENGTHS[1];
+  const hashtags = Math.min(lengthOption.hashtags, platform.hashtagLimit);
+
+  return [
+    `Write the post copy for the attached User Generated Content (UGC) photo, to be published as a ${platform.label} post.`,
+    `Scene: ${scene}`,
+    ...describeProducts(products),
+    ``,
+    `Caption: ${lengthOption.guidance}. Tone: ${toneOption.guidance}.`,
+    `Write in the first person as the creator in the photo. Sound like a real customer, not an advert, and name the product naturally.`,
+    hashtags > 0
+      ? `Hashtags: ${hashtags} relevant hashtags, without spaces, not repeated in the caption.`
+      : `Hashtags: none; return an empty list.`,
+    `Caption and hashtags together must stay under ${platform.captionLimit} characters.`,
+    `Alt text: describe what is visible in the photo for screen-reader users in under ${ALT_TEXT_LIMIT} characters. Do not start with "Image of" or mention that it is a photo.`,
+    `Answer with JSON only: {"caption": string, "hashtags": string[], "altText": string}.`,
+  ].join('\n');
+};
+
+/** "#Skin Care", "skincare" and "##skincare" all become "#SkinCare" / "#skincare". */
+export const normalizeHashtag = (tag: string): string => {
+  const body = tag.trim().replace(/^#+/, '').replace(/\s+(\S)/g, (_, c: string) => c.toUpperCase()).replace(/[^\p{L}\p{N}_]/gu, '');
+  return body ? `#${body}` : '';
+};
+
+/** Normalizes each tag, dropping empty ones and case-insensitive duplicates. */
+const uniqueHashtags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.map(normalizeHashtag).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Splits typed hashtags on spaces and commas. */
+export const parseHashtags = (text: string): string[] => uniqueHashtags(text.split(/[\s,]+/));
+
+/**
+ * Reads the model's JSON answer, tolerating a Markdown code fence around it.
+ * Returns null when there is no caption to show.
+ */
+export const parseCopyResponse = (text: string): Omit<CopyResponse, 'model'> | null => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return null;
+  }
+  const caption = typeof parsed?.caption === 'string' ? parsed.caption.trim() : '';
+  if (!caption) return null;
+  return {
+    caption,
+    hashtags: Array.isArray(parsed.hashtags) ? uniqueHashtags(parsed.hashtags.map(String)) : parseHashtags(String(parsed.hashtags ?? '')),
+    altText: typeof parsed.altText === 'string' ? parsed.altText.trim() : '',
+  };
+};
+
+/** The text as pasted into the platform: caption, a blank line, then hashtags. */
+export const formatPostText = ({ caption, hashtags }: Pick<PostCopy, 'caption' | 'hashtags'>): string =>
+  hashtags.length > 0 ? `${caption.trim()}\n\n${hashtags.join(' ')}` : caption.trim();
+
+/** Counts user-perceived characters, so an emoji counts once as it does on the platforms. */
+export const countCharacters = (text: string): number => Array.from(text).length;
+
+/** Returns every platform limit the copy breaks, as user-facing messages. */
+export const getCopyIssues = (copy: PostCopy, platform: PlatformPreset): string[] => {
+  const issues: string[] = [];
+  const length = countCharacters(formatPostText(copy));
+  if (length > platform.captionLimit) {
+    issues.push(`Caption and hashtags are ${length} characters; ${platform.label} allows ${platform.captionLimit}.`);
+  }
+  if (copy.hashtags.length > platform.hashtagLimit) {
+    issues.push(platform.hashtagLimit === 0
+      ? `${platform.label} does not use hashtags.`
+      : `${copy.hashtags.length} hashtags; ${platform.label} allows ${platform.hashtagLimit}.`);
+  }
+  const altLength = countCharacters(copy.altText);
+  if (altLength === 0) {
+    issues.push("Add alt text so screen-reader users know what the image shows.");
+  } else if (altLength > ALT_TEXT_LIMIT) {
+    issues.push(`Alt text is ${altLength} characters; keep it under ${ALT_TEXT_LIMIT} so screen readers read it in full.`);
+  }
+  return issues;
+};
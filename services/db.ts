@@ -0,0 +1,86 @@
+const DB_NAME = 'ugc-studio';
+const DB_VERSION = 5;
+
+/** Object stores and their key paths. Bump DB_VERSION when adding one. */
+const STORES = {
+  generations: 'id',
+  queue: 'id',
+  personas: 'id',
+  products: 'sku',
+  usage: 'id',
+} as const;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [name, keyPath] of Object.entries(STORES)) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+export const getAll = <T>(store: StoreName): Promise<T[]> =>
+  withStore(store, 'readonly', s => s.getAll() as IDBRequest<T[]>);
+
+export const getOne = <T>(store: StoreName, key: string): Promise<T | undefined> =>
+  withStore(store, 'readonly', s => s.get(key) as IDBRequest<T | undefined>);
+
+export const put = async <T>(store: StoreName, value: T): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.put(value));
+};
+
+/**
+ * Reads a record and writes back `change(record)` in one transaction, so updates made at the
+ * same time cannot overwrite each other. Nothing is written when `change` returns undefined.
+ */
+export const update = async <T>(store: StoreName, key: string, change: (value: T | undefined) => T | undefined): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  const request = objectStore.get(key) as IDBRequest<T | undefined>;
+  request.onsuccess = () => {
+    const next = change(request.result);
+    if (next !== undefined) objectStore.put(next);
+  };
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const remove = async (store: StoreName, key: string): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.delete(key));
+};
@@ -0,0 +1,215 @@
+import type { ExportFit, ExportFormat, ExportSettings, PlatformPreset, PostCopy, WatermarkSettings } from "../types";
+import { exportForPlatform, loadImage } from "./platformService";
+import { embedMetadata, type ImageMetadata } from "./imageMetadata";
+import { createZip, type ZipEntry } from "./zipService";
+import { utf8 } from "./binary";
+import { formatPostText } from "./copyService";
+
+const STORAGE_KEY = 'ugc-studio:export-settings';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; mimeType: string; extension: string }[] = [
+  { id: 'png', label: "PNG", mimeType: 'image/png', extension: 'png' },
+  { id: 'jpeg', label: "JPEG", mimeType: 'image/jpeg', extension: 'jpg' },
+  { id: 'webp', label: "WebP", mimeType: 'image/webp', extension: 'webp' },
+];
+
+export const EXPORT_SCALES = [1, 1.5, 2];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  quality: 0.92,
+  scale: 1,
+  watermark: {
+    enabled: false,
+    text: "",
+    logo: null,
+    position: 'bottom-right',
+    opacity: 0.8,
+  },
+};
+
+const LOGO_MAX_DIMENSION = 256;
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_EXPORT_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return { ...DEFAULT_EXPORT_SETTINGS, ...parsed, watermark: { ...DEFAULT_EXPORT_SETTINGS.watermark, ...parsed.watermark } };
+  } catch (err) {
+    console.error("Failed to load export settings:", err);
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** An image to export plus what it records about itself. */
+export interface ExportSource extends ImageMetadata {
+  /** Data URL of the generated image. */
+  image: string;
+}
+
+export interface ExportedImage {
+  blob: Blob;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Shrinks an uploaded logo to at most 256px and returns it as a PNG data URL,
+ * small enough to keep in the saved export settings.
+ */
+export const prepareLogo = async (file: File): Promise<string> => {
+  const source = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+  const img = await loadImage(source);
+  const scale = Math.min(1, LOGO_MAX_DIMENSION / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+/** Draws the logo and text into the chosen corner, sized relative to the image. */
+const drawWatermark = async (ctx: CanvasRenderingContext2D, watermark: WatermarkSettings, width: number, height: number) => {
+  const margin = Math.round(Math.min(width, height) * 0.03);
+  const fontSize = Math.max(14, Math.round(width * 0.028));
+  const logo = watermark.logo ? await loadImage(watermark.logo) : null;
+  const logoHeight = logo ? Math.round(Math.min(height * 0.08, fontSize * 2.5)) : 0;
+  const logoWidth = logo ? Math.round(logo.width * (logoHeight / logo.height)) : 0;
+  const gap = logo && watermark.text ? Math.round(fontSize * 0.5) : 0;
+
+  ctx.save();
+  ctx.globalAlpha = watermark.opacity;
+  ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+  const textWidth = watermark.text ? ctx.measureText(watermark.text).width : 0;
+  const blockWidth = logoWidth + gap + textWidth;
+  const blockHeight = Math.max(logoHeight, fontSize);
+
+  const right = watermark.position.endsWith('right');
+  const bottom = watermark.position.startsWith('bottom');
+  const x = right ? width - margin - blockWidth : margin;
+  const y = bottom ? height - margin - blockHeight : margin;
+
+  if (logo) {
+    ctx.drawImage(logo, x, y + (blockHeight - logoHeight) / 2, logoWidth, logoHeight);
+  }
+  if (watermark.text) {
+    ctx.fillStyle = '#ffffff';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowBlur = Math.round(fontSize / 4);
+    ctx.textBaseline = 'middle';
+    ctx.fillText(watermark.text, x + logoWidth + gap, y + blockHeight / 2);
+  }
+  ctx.restore();
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Image encoding failed")), mimeType, quality);
+  });
+
+/**
+ * Renders an image for download: optional platform fit, upscale, watermark, then encoding
+ * in the chosen format with EXIF/XMP metadata describing the prompt, scene and model.
+ */
+export const exportImage = async (
+  source: ExportSource,
+  settings: ExportSettings,
+  target?: { preset: PlatformPreset; fit: ExportFit }
+): Promise<ExportedImage> => {
+  const base = target ? await exportForPlatform(source.image, target.preset, target.fit) : source.image;
+  const img = await loadImage(base);
+  const width = Math.round(img.width * settings.scale);
+  const height = Math.round(img.height * settings.scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+
+  if (settings.format === 'jpeg') {
+    // JPEG has no alpha; flatten onto white instead of black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const { watermark } = settings;
+  if (watermark.enabled && (watermark.text || watermark.logo)) {
+    await drawWatermark(ctx, watermark, width, height);
+  }
+
+  const requested = EXPORT_FORMATS.find(f => f.id === settings.format) ?? EXPORT_FORMATS[0];
+  const encoded = await canvasToBlob(canvas, requested.mimeType, settings.quality);
+  // Browsers without an encoder for the format silently fall back to PNG.
+  const format = EXPORT_FORMATS.find(f => f.mimeType === encoded.type) ?? requested;
+  const bytes = embedMetadata(new Uint8Array(await encoded.arrayBuffer()), format.id, source, width, height);
+
+  return {
+    blob: new Blob([bytes as BlobPart], { type: format.mimeType }),
+    extension: format.extension,
+    width,
+    height,
+  };
+};
+
+/** Lowercase, dash-separated, filesystem-safe version of a scene name. */
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'image';
+
+/**
+ * Exports every source with the same settings and bundles them into a ZIP
+ * alongside a manifest.json describing each file, including its post copy when written.
+ */
+export const exportZip = async (
+  sources: (ExportSource & { id: string; platformId: string; copy?: PostCopy | null })[],
+  settings: ExportSettings
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const files = [];
+  for (const [index, source] of sources.entries()) {
+    const exported = await exportImage(source, settings);
+    const name = `${String(index + 1).padStart(2, '0')}-${slugify(source.scene)}.${exported.extension}`;
+    entries.push({ name, data: new Uint8Array(await exported.blob.arrayBuffer()), modifiedAt: source.createdAt });
+    files.push({
+      file: name,
+      id: source.id,
+      scene: source.scene,
+      platformId: source.platformId,
+      prompt: source.prompt,
+      model: source.model,
+      width: exported.width,
+      height: exported.height,
+      createdAt: new Date(source.createdAt).toISOString(),
+      caption: source.copy ? formatPostText(source.copy) : null,
+      altText: source.copy?.altText ?? null,
+    });
+  }
+
+  const manifest = {
+    exportedAt: new Date().toISOString(),
+    settings: {
+      format: settings.format,
+      quality: settings.quality,
+      scale: settings.scale,
+      watermark: settings.watermark.enabled,
+    },
+    files,
+  };
+  entries.push({ name: 'manifest.json', data: utf8(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
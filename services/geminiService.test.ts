@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ImageGenerationRequest } from '../types';
+import { apiError, clientKeys, emptyResponse, generateContent, imageResponse, textResponse } from '../test/fakeGenAI';
+import { GEMINI_IMAGE_MODEL, GEMINI_TEXT_MODEL, generateUGCImage, refineUGCImage, writePostCopy } from './geminiService';
+import { DEFAULT_PLATFORM } from './platformService';
+
+vi.mock('@google/genai', () => import('../test/fakeGenAI'));
+
+const request: ImageGenerationRequest = {
+  people: [{ base64: 'cGVyc29u', mimeType: 'image/jpeg', role: '' }],
+  products: [{ base64: 'cHJvZHVjdA==', mimeType: 'image/jpeg', role: '' }],
+  sceneDescription: 'Kitchen',
+  platform: DEFAULT_PLATFORM,
+};
+
+const quotaError = (retryDelay: string) => apiError(429, {
+  error: {
+    code: 429,
+    status: 'RESOURCE_EXHAUSTED',
+    details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay }],
+  },
+});
+
+describe('generateUGCImage', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEY', 'test-key');
+    vi.stubEnv('API_PROXY_URL', '');
+    // No jitter, so backoff waits resolve immediately.
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    generateContent.mockReset();
+    clientKeys.length = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the first image part with the prompt and model', async () => {
+    generateContent.mockResolvedValue(imageResponse('Z2VuZXJhdGVk', 'image/webp'));
+
+    const result = await generateUGCImage(request);
+
+    expect(result.image).toEqual({ base64: 'Z2VuZXJhdGVk', mimeType: 'image/webp' });
+    expect(result.model).toBe(GEMINI_IMAGE_MODEL);
+    expect(result.prompt).toContain('Kitchen');
+    expect(result.prompt).toContain(`UGC) photo for ${DEFAULT_PLATFORM.label}.`);
+    expect(clientKeys).toEqual(['test-key']);
+
+    const [{ contents, config }] = generateContent.mock.calls[0];
+    expect(contents.parts[0].text).toBe(result.prompt);
+    expect(contents.parts.slice(1).map((p: any) => p.inlineData.data)).toEqual(['cGVyc29u', 'cHJvZHVjdA==']);
+    expect(config.imageConfig.aspectRatio).toBe(DEFAULT_PLATFORM.aspectRatio);
+  });
+
+  it('sends earlier carousel frames after the references and explains them', async () => {
+    generateContent.mockResolvedValue(imageResponse('Z2VuZXJhdGVk'));
+
+    await generateUGCImage({ ...request, continuity: [{ base64: 'ZnJhbWUx', mimeType: 'image/png' }] });
+
+    const [{ contents }] = generateContent.mock.calls[0];
+    expect(contents.parts.slice(1).map((p: any) => p.inlineData.data)).toEqual(['cGVyc29u', 'cHJvZHVjdA==', 'ZnJhbWUx']);
+    expect(contents.parts[0].text).toContain('The last image is an earlier frame of the same carousel.');
+  });
+
+  it('keeps a refinement on brand and sends the edited image first', async () => {
+    generateContent.mockResolvedValue(imageResponse('cmVmaW5lZA=='));
+
+    const result = await refineUGCImage({
+      image: { base64: 'b2xk', mimeType: 'image/png' },
+      instruction: 'Warmer light',
+      people: request.people,
+      products: request.products,
+      platform: DEFAULT_PLATFORM,
+      brandGuidelines: 'Brand guidelines for Acme:\n  Never include: logos.',
+    });
+
+    expect(result.prompt).toContain('Never include: logos.');
+    const [{ contents }] = generateContent.mock.calls[0];
+    expect(contents.parts.slice(1).map((p: any) => p.inlineData.data)).toEqual(['b2xk', 'cGVyc29u', 'cHJvZHVjdA==']);
+  });
+
+  it('treats a text-only reply as a safety block and does not retry it', async () => {
+    generateContent.mockResolvedValue(textResponse("I can't help with that."));
+
+    await expect(generateUGCImage(request)).rejects.toMatchObject({ code: 'safety' });
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports empty candidates as no-image after retrying', async () => {
+    generateContent.mockResolvedValue(emptyResponse());
+
+    await expect(generateUGCImage(request)).rejects.toMatchObject({ code: 'no-image' });
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits out the Retry-After of a 429 and then succeeds', async () => {
+    vi.useFakeTimers();
+    generateContent
+      .mockRejectedValueOnce(quotaError('2s'))
+      .mockResolvedValueOnce(imageResponse());
+
+    const pending = generateUGCImage(request);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(pending).resolves.toMatchObject({ model: GEMINI_IMAGE_MODEL });
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports every attempt, retries included, with tokens and outcome', async () => {
+    vi.useFakeTimers();
+    generateContent
+      .mockRejectedValueOnce(quotaError('1s'))
+      .mockResolvedValueOnce({ ...imageResponse(), usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 1290 } });
+    const onAttempt = vi.fn();
+
+    const pending = generateUGCImage(request, { onAttempt });
+    await vi.advanceTimersByTimeAsync(1000);
+    await pending;
+
+    expect(onAttempt.mock.calls.map(([attempt]) => attempt)).toEqual([
+      expect.objectContaining({ kind: 'image', model: GEMINI_IMAGE_MODEL, outcome: 'quota', images: 0, inputTokens: 0 }),
+      expect.objectContaining({ kind: 'image', model: GEMINI_IMAGE_MODEL, outcome: 'success', images: 1, inputTokens: 1200, outputTokens: 1290 }),
+    ]);
+  });
+
+  it('records an attempt that timed out as a timeout, not a cancellation', async () => {
+    vi.useFakeTimers();
+    generateContent.mockImplementation(({ config }) => new Promise((_, reject) => {
+      config.abortSignal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    }));
+    const onAttempt = vi.fn();
+
+    const pending = expect(generateUGCImage(request, { onAttempt })).rejects.toMatchObject({ code: 'timeout' });
+    await vi.advanceTimersByTimeAsync(3 * 120_000 + 1000);
+    await pending;
+
+    expect(onAttempt.mock.calls.map(([attempt]) => attempt.outcome)).toEqual(['timeout', 'timeout', 'timeout']);
+  });
+
+  it('surfaces a long 429 wait to the caller instead of blocking', async () => {
+    generateContent.mockRejectedValue(quotaError('90s'));
+
+    await expect(generateUGCImage(request)).rejects.toMatchObject({ code: 'quota', retryAfterMs: 90_000 });
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails with an auth error before calling the API when the key is missing', async () => {
+    vi.stubEnv('API_KEY', '');
+
+    await expect(generateUGCImage(request)).rejects.toMatchObject({ code: 'auth' });
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('stops when the signal aborts', async () => {
+    const controller = new AbortController();
+    generateContent.mockImplementation(() => {
+      controller.abort();
+      return Promise.reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+    });
+
+    await expect(generateUGCImage(request, { signal: controller.signal })).rejects.toMatchObject({ code: 'cancelled' });
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('writePostCopy', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEY', 'test-key');
+    vi.stubEnv('API_PROXY_URL', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    generateContent.mockReset();
+  });
+
+  it('sends the image to the text model and parses the JSON answer', async () => {
+    generateContent.mockResolvedValue(textResponse('{"caption": "Love it", "hashtags": ["ugc"], "altText": "A mug on a desk"}'));
+
+    const result = await writePostCopy({
+      image: { base64: 'aW1n', mimeType: 'image/png' },
+      scene: 'Kitchen',
+      products: request.products,
+      platform: DEFAULT_PLATFORM,
+      tone: 'casual',
+      length: 'short',
+    });
+
+    expect(result).toEqual({ caption: "Love it", hashtags: ['#ugc'], altText: "A mug on a desk", model: GEMINI_TEXT_MODEL });
+    const [{ model, contents, config }] = generateContent.mock.calls[0];
+    expect(model).toBe(GEMINI_TEXT_MODEL);
+    expect(contents.parts[1].inlineData.data).toBe('aW1n');
+    expect(config.responseMimeType).toBe('application/json');
+  });
+});
@@ -1,119 +1,254 @@
 
-import { GoogleGenAI } from "@google/genai";
-
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+import { GoogleGenAI, type GenerateContentParameters, type GenerateContentResponse } from "@google/genai";
+import type { AspectRatio, CopyRequest, CopyResponse, GenerationErrorCode, GenerationOptions, ImageGenerationProvider, ImageGenerationRequest, ImageGenerationResponse, ImageRefinementRequest, InlineImage, UsageAttempt, UsageKind } from "../types";
+import { buildRefinePrompt, buildUGCPrompt } from "./promptService";
+import { COPY_RESPONSE_SCHEMA, buildCopyPrompt, parseCopyResponse } from "./copyService";
+import { MAX_PAYLOAD_BYTES, estimatePayloadBytes, validatePayload } from "./payloadService";
+import { AuthError, GenerationError, NoImageError, PayloadTooLargeError, SafetyBlockError, TimeoutError, createGenerationError, parseRetryAfter, toGenerationError } from "./generationErrors";
+import { withRetry } from "./retry";
+
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+/** Writes post copy; reads the image but does not need the image model. */
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+
+const createClient = (apiKey: string | undefined): GoogleGenAI => {
+  if (!apiKey) {
+    throw new AuthError("API key is missing from the environment configuration.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
 
 /**
- * Parses the Gemini API error to provide a human-readable message.
- * Specifically handles quota issues and invalid keys as requested.
+ * Makes one model call and reports it to `onAttempt` whether it succeeds or fails,
+ * including failures found while reading the response, such as a safety block.
  */
-const handleApiError = (error: any): string => {
-  const errorString = typeof error === 'string' ? error : JSON.stringify(error);
-  
-  // Check for Quota Exceeded (429)
-  if (errorString.includes("RESOURCE_EXHAUSTED") || errorString.includes("429") || errorString.includes("quota")) {
-    return "API Quota Exceeded. Please check your plan or wait a few minutes before trying again.";
-  }
-
-  // Check for API Key issues (401/403)
-  if (errorString.includes("API_KEY_INVALID") || errorString.includes("401") || errorString.includes("403")) {
-    return "There is a problem with the API key. Please ensure it is valid and has the correct permissions.";
-  }
-
-  // Check for safety filters
-  if (errorString.includes("SAFETY") || errorString.includes("blocked")) {
-    return "The request was blocked by safety filters. Please try a different scene or image.";
-  }
-
-  // Generic production failure on Vercel often relates to missing environment variables
-  if (errorString.includes("API_KEY is not available")) {
-    return "API key is missing from the environment configuration.";
+const callModel = async <T>(
+  ai: GoogleGenAI,
+  params: GenerateContentParameters,
+  kind: UsageKind,
+  onAttempt: GenerationOptions['onAttempt'],
+  read: (response: GenerateContentResponse) => T
+): Promise<T> => {
+  const startedAt = Date.now();
+  let response: GenerateContentResponse | undefined;
+  let outcome: UsageAttempt['outcome'] = 'success';
+  try {
+    response = await ai.models.generateContent(params);
+    return read(response);
+  } catch (err) {
+    // A timed-out attempt is aborted too; the signal's reason says it was a timeout, not a cancellation.
+    const reason = params.config?.abortSignal?.aborted ? params.config.abortSignal.reason : undefined;
+    outcome = (reason instanceof TimeoutError ? reason : toGenerationError(err)).code;
+    throw err;
+  } finally {
+    onAttempt?.({
+      kind,
+      model: params.model,
+      inputTokens: response?.usageMetadata?.promptTokenCount ?? 0,
+      outputTokens: response?.usageMetadata?.candidatesTokenCount ?? 0,
+      images: outcome === 'success' && kind !== 'copy' ? 1 : 0,
+      latencyMs: Date.now() - startedAt,
+      outcome,
+    });
   }
-
-  return "Something went wrong with the AI generation. Please try again later.";
 };
 
-export const generateUGCImage = async (
-  personImageBase64: string,
-  personImageMimeType: string,
-  productImageBase64: string,
-  productImageMimeType: string,
-  sceneDescription: string,
-  retryCount: number = 0
-): Promise<string> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API key is not configured in the environment.");
-  }
-  
+/**
+ * Sends a prompt plus inline images to the image model and returns the first image part.
+ * Shared by fresh generations and refinements. Transient failures are retried with backoff.
+ */
+const requestImage = async (
+  kind: UsageKind,
+  prompt: string,
+  images: InlineImage[],
+  aspectRatio: AspectRatio,
+  apiKey: string | undefined,
+  options: GenerationOptions = {}
+): Promise<ImageGenerationResponse> => {
   // Initialize AI client right before use
-  const ai = new GoogleGenAI({ apiKey });
-
-  const pMime = personImageMimeType || 'image/jpeg';
-  const prodMime = productImageMimeType || 'image/jpeg';
-
-  const prompt = `Generate a realistic User Generated Content (UGC) photo for Instagram.
-  Atmosphere: ${sceneDescription}.
+  const ai = createClient(apiKey);
   
-  The image must show the person from the provided portrait and the product from the product photo.
-  The person should be using or holding the product naturally in the environment.
-  Lighting: Soft, natural, lifestyle aesthetic.
-  Format: High-quality 1:1 square photo.`;
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          { text: prompt },
-          {
-            inlineData: {
-              data: personImageBase64,
-              mimeType: pMime,
-            },
-          },
-          {
-            inlineData: {
-              data: productImageBase64,
-              mimeType: prodMime,
-            },
+  return withRetry(signal => callModel(ai, {
+    model: GEMINI_IMAGE_MODEL,
+    contents: {
+      parts: [
+        { text: prompt },
+        ...images.map(image => ({
+          inlineData: {
+            data: image.base64,
+            mimeType: image.mimeType || 'image/jpeg',
           },
-        ],
+        })),
+      ],
+    },
+    config: {
+      imageConfig: {
+        aspectRatio,
       },
-      config: {
-        imageConfig: {
-          aspectRatio: "1:1",
-        },
-      },
-    });
-
+      abortSignal: signal,
+    },
+  }, kind, options.onAttempt, (response) => {
     if (!response.candidates?.[0]?.content?.parts) {
-      throw new Error("No output content generated.");
+      if (response.promptFeedback?.blockReason) {
+        throw new SafetyBlockError(response.promptFeedback);
+      }
+      throw new NoImageError("No output content generated.");
     }
 
     for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return part.inlineData.data;
+      if (part.inlineData?.data) {
+        return {
+          image: { base64: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' },
+          model: GEMINI_IMAGE_MODEL,
+          prompt,
+        };
       }
     }
     
     // If text is returned instead of image, it might be a subtle block
     if (response.text) {
-      throw new Error("SAFETY_BLOCK");
+      throw new SafetyBlockError(response.text);
     }
 
-    throw new Error("No image found in response.");
-
-  } catch (error: any) {
+    throw new NoImageError();
+  }), { signal: options.signal }).catch((error) => {
     console.error("Gemini API call failed:", error);
+    throw error;
+  });
+};
 
-    // Simple retry for transient 500 errors
-    if (retryCount < 1 && (error.message?.includes('500') || error.message?.includes('429'))) {
-      await delay(1500);
-      return generateUGCImage(personImageBase64, personImageMimeType, productImageBase64, productImageMimeType, sceneDescription, retryCount + 1);
+/** Rejects requests the API would refuse, before any quota is spent on them. */
+const assertValidPayload = (request: ImageGenerationRequest | ImageRefinementRequest) => {
+  const payloadProblem = validatePayload(request);
+  if (!payloadProblem) return;
+  if (estimatePayloadBytes(request) > MAX_PAYLOAD_BYTES) {
+    throw new PayloadTooLargeError(payloadProblem);
+  }
+  throw new GenerationError('invalid-request', payloadProblem);
+};
+
+/**
+ * Calls Gemini directly with the given key. Used by the browser when no proxy is configured,
+ * and by the API proxy on the server.
+ */
+export const generateWithGemini = async (
+  request: ImageGenerationRequest,
+  apiKey: string | undefined,
+  options?: GenerationOptions
+): Promise<ImageGenerationResponse> => {
+  assertValidPayload(request);
+
+  // Order matters: the prompt numbers the references people first, then products, then any earlier carousel frames.
+  return requestImage(
+    'image',
+    buildUGCPrompt(request),
+    [...request.people, ...request.products, ...(request.continuity ?? [])],
+    request.platform.aspectRatio,
+    apiKey,
+    options
+  );
+};
+
+export const refineWithGemini = async (
+  request: ImageRefinementRequest,
+  apiKey: string | undefined,
+  options?: GenerationOptions
+): Promise<ImageGenerationResponse> => {
+  assertValidPayload(request);
+
+  // The image being edited goes first, as the refine prompt refers to it as "the first provided image".
+  return requestImage(
+    'refine',
+    buildRefinePrompt(request),
+    [request.image, ...request.people, ...request.products],
+    request.platform.aspectRatio,
+    apiKey,
+    options
+  );
+};
+
+/** Asks the text model for a caption, hashtags and alt text for a generated image. */
+export const writeCopyWithGemini = async (
+  request: CopyRequest,
+  apiKey: string | undefined,
+  options: GenerationOptions = {}
+): Promise<CopyResponse> => {
+  const ai = createClient(apiKey);
+
+  return withRetry(signal => callModel(ai, {
+    model: GEMINI_TEXT_MODEL,
+    contents: {
+      parts: [
+        { text: buildCopyPrompt(request) },
+        { inlineData: { data: request.image.base64, mimeType: request.image.mimeType || 'image/png' } },
+      ],
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseJsonSchema: COPY_RESPONSE_SCHEMA,
+      abortSignal: signal,
+    },
+  }, 'copy', options.onAttempt, (response) => {
+    if (response.promptFeedback?.blockReason) {
+      throw new SafetyBlockError(response.promptFeedback);
     }
+    const copy = parseCopyResponse(response.text ?? "");
+    if (!copy) {
+      throw new GenerationError('unknown', "The model did not return usable post copy. Please try again.", { retryable: true });
+    }
+    return { ...copy, model: GEMINI_TEXT_MODEL };
+  }), { signal: options.signal }).catch((error) => {
+    console.error("Gemini copy request failed:", error);
+    throw error;
+  });
+};
 
-    // Throw the cleaned up error message
-    throw new Error(handleApiError(error));
-  }
+/**
+ * Posts a request to the server-side API proxy, which holds the key.
+ * The proxy already retries upstream failures, so the browser makes only one extra attempt,
+ * mainly for the proxy's own rate limit and dropped connections.
+ */
+const postToProxy = <T = ImageGenerationResponse>(path: string, body: unknown, options: GenerationOptions = {}): Promise<T> =>
+  withRetry(async (signal) => {
+    const response = await fetch(`${process.env.API_PROXY_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    const data = await response.json().catch(() => null);
+    // The proxy lists the upstream attempts it made, retries included, so the ledger sees them too.
+    for (const attempt of (data?.usage ?? []) as UsageAttempt[]) {
+      options.onAttempt?.(attempt);
+    }
+    if (!response.ok) {
+      const code: GenerationErrorCode = data?.code
+        ?? (response.status === 429 ? 'quota' : response.status === 413 ? 'payload-too-large' : 'server');
+      const retryAfterMs = data?.retryAfterMs ?? parseRetryAfter(response.headers.get('Retry-After'));
+      throw createGenerationError(code, data?.error, retryAfterMs);
+    }
+    return data as T;
+  }, { maxAttempts: 2, signal: options.signal });
+
+export const generateUGCImage = (request: ImageGenerationRequest, options?: GenerationOptions): Promise<ImageGenerationResponse> =>
+  process.env.API_PROXY_URL
+    ? postToProxy('/generate', request, options)
+    : generateWithGemini(request, process.env.API_KEY, options);
+
+export const refineUGCImage = (request: ImageRefinementRequest, options?: GenerationOptions): Promise<ImageGenerationResponse> =>
+  process.env.API_PROXY_URL
+    ? postToProxy('/refine', request, options)
+    : refineWithGemini(request, process.env.API_KEY, options);
+
+export const writePostCopy = (request: CopyRequest, options?: GenerationOptions): Promise<CopyResponse> =>
+  process.env.API_PROXY_URL
+    ? postToProxy<CopyResponse>('/copy', request, options)
+    : writeCopyWithGemini(request, process.env.API_KEY, options);
+
+export const geminiProvider: ImageGenerationProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  generate: generateUGCImage,
+  refine: refineUGCImage,
+  writeCopy: writePostCopy,
 };
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { apiError } from '../test/fakeGenAI';
+import { GenerationError, QuotaExceededError, parseRetryAfter, toGenerationError } from './generationErrors';
+
+describe('toGenerationError', () => {
+  it.each([
+    [apiError(429, { error: { status: 'RESOURCE_EXHAUSTED' } }), 'quota'],
+    [apiError(400, { error: { details: [{ reason: 'API_KEY_INVALID' }] } }), 'auth'],
+    [apiError(403, { error: { status: 'PERMISSION_DENIED' } }), 'auth'],
+    [apiError(413, { error: { message: 'payload size exceeds the limit' } }), 'payload-too-large'],
+    [apiError(503, { error: { status: 'UNAVAILABLE' } }), 'server'],
+    [new TypeError('Failed to fetch'), 'network'],
+    [Object.assign(new Error('aborted'), { name: 'AbortError' }), 'cancelled'],
+    [new Error('something odd'), 'unknown'],
+  ])('maps %s to %s', (error, code) => {
+    expect(toGenerationError(error).code).toBe(code);
+  });
+
+  it('passes typed errors through unchanged', () => {
+    const error = new QuotaExceededError(5000);
+    expect(toGenerationError(error)).toBe(error);
+  });
+
+  it('keeps the retry delay Gemini reports for quota errors', () => {
+    const error = toGenerationError(apiError(429, { error: { details: [{ retryDelay: '12.5s' }] } }));
+    expect(error).toBeInstanceOf(GenerationError);
+    expect(error.retryAfterMs).toBe(12_500);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('30', now)).toBe(30_000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:01:00 GMT', now)).toBe(60_000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import type { GenerationErrorCode } from "../types";
+
+/**
+ * Base class for every failure surfaced by an image provider.
+ * `message` is user-facing; `code` lets the UI offer a specific fix.
+ */
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  /** Whether sending the same request again may succeed. */
+  readonly retryable: boolean;
+  /** How long the service asked us to wait before retrying, when it said. */
+  readonly retryAfterMs: number | null;
+
+  constructor(code: GenerationErrorCode, message: string, options: { retryable?: boolean; retryAfterMs?: number | null; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+  }
+}
+
+export class QuotaExceededError extends GenerationError {
+  constructor(retryAfterMs: number | null = null, cause?: unknown) {
+    super('quota', "API Quota Exceeded. Please check your plan or wait a few minutes before trying again.", { retryable: true, retryAfterMs, cause });
+  }
+}
+
+export class AuthError extends GenerationError {
+  constructor(message = "There is a problem with the API key. Please ensure it is valid and has the correct permissions.", cause?: unknown) {
+    super('auth', message, { cause });
+  }
+}
+
+export class SafetyBlockError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('safety', "The request was blocked by safety filters. Please try a different scene or image.", { cause });
+  }
+}
+
+export class NoImageError extends GenerationError {
+  constructor(message = "The model did not return an image. Please try again.", cause?: unknown) {
+    super('no-image', message, { retryable: true, cause });
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('network', "Could not reach the image service. Please check your connection.", { retryable: true, cause });
+  }
+}
+
+export class TimeoutError extends GenerationError {
+  constructor(timeoutMs?: number, cause?: unknown) {
+    const message = timeoutMs
+      ? `The image service did not respond within ${Math.round(timeoutMs / 1000)}s.`
+      : "The image service took too long to respond.";
+    super('timeout', message, { retryable: true, cause });
+  }
+}
+
+export class PayloadTooLargeError extends GenerationError {
+  constructor(message = "The request is too large. Remove an image or crop them smaller.", cause?: unknown) {
+    super('payload-too-large', message, { cause });
+  }
+}
+
+export class ServerError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('server', "The image service had a temporary problem. Please try again.", { retryable: true, cause });
+  }
+}
+
+export class CancelledError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('cancelled', "Generation was cancelled.", { cause });
+  }
+}
+
+/** A usage budget was reached, so the job was not sent. */
+export class BudgetExceededError extends GenerationError {
+  constructor(message: string) {
+    super('budget', message);
+  }
+}
+
+const errorText = (error: any): string => {
+  if (typeof error === 'string') return error;
+  try {
+    return `${error?.message ?? ''} ${JSON.stringify(error)}`;
+  } catch {
+    return String(error?.message ?? error);
+  }
+};
+
+/**
+ * Reads the wait the API suggests, either from a Retry-After header value (seconds or an HTTP date)
+ * or from the `retryDelay` field Gemini embeds in its 429 error details.
+ */
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | null => {
+  if (!value) return null;
+  const retryDelay = value.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) return Math.round(parseFloat(retryDelay[1]) * 1000);
+  if (/^\s*\d+(\.\d+)?\s*$/.test(value)) return Math.round(parseFloat(value) * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Builds the typed error for a code, e.g. one sent back by the API proxy.
+ */
+export const createGenerationError = (code: GenerationErrorCode, message?: string, retryAfterMs: number | null = null): GenerationError => {
+  switch (code) {
+    case 'quota': return new QuotaExceededError(retryAfterMs);
+    case 'auth': return new AuthError(message);
+    case 'safety': return new SafetyBlockError();
+    case 'no-image': return new NoImageError(message);
+    case 'network': return new NetworkError();
+    case 'timeout': return new TimeoutError();
+    case 'payload-too-large': return new PayloadTooLargeError(message);
+    case 'server': return new ServerError();
+    case 'cancelled': return new CancelledError();
+    case 'budget': return new BudgetExceededError(message || "A usage budget was reached.");
+    default: return new GenerationError('unknown', message || "Something went wrong with the AI generation. Please try again later.");
+  }
+};
+
+/**
+ * Maps anything thrown while calling an image service onto the `GenerationError` hierarchy.
+ * Errors that are already typed pass through unchanged.
+ */
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const err = error as any;
+  if (err?.name === 'AbortError') return new CancelledError(error);
+
+  const status: number | undefined = typeof err?.status === 'number' ? err.status : undefined;
+  const text = errorText(error);
+
+  if (status === 429 || text.includes("RESOURCE_EXHAUSTED") || text.includes("quota")) {
+    return new QuotaExceededError(parseRetryAfter(text), error);
+  }
+  if (status === 401 || status === 403 || text.includes("API_KEY_INVALID") || text.includes("PERMISSION_DENIED")) {
+    return new AuthError(undefined, error);
+  }
+  if (status === 413 || text.includes("payload size exceeds")) {
+    return new PayloadTooLargeError(undefined, error);
+  }
+  if (text.includes("SAFETY") || text.includes("blocked")) {
+    return new SafetyBlockError(error);
+  }
+  if ((status !== undefined && status >= 500) || text.includes("INTERNAL") || text.includes("UNAVAILABLE")) {
+    return new ServerError(error);
+  }
+  // fetch rejects with a bare TypeError when the request never reaches the server.
+  if (err instanceof TypeError && /fetch|network/i.test(err.message)) {
+    return new NetworkError(error);
+  }
+  return new GenerationError('unknown', "Something went wrong with the AI generation. Please try again later.", { cause: error });
+};
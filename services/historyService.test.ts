@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { GenerationRecord } from '../types';
+import { listGenerations, saveGeneration, updateGeneration } from './historyService';
+
+const record = (id: string): Omit<GenerationRecord, 'peopleThumbnails' | 'productThumbnails'> => ({
+  id,
+  createdAt: Date.now(),
+  image: 'data:image/png;base64,aW1hZ2U=',
+  people: [{ base64: 'cA==', mimeType: 'image/jpeg', role: '' }],
+  products: [{ base64: 'cQ==', mimeType: 'image/jpeg', role: '' }],
+  scene: 'Kitchen',
+  categoryId: null,
+  platformId: 'instagram-feed',
+  prompt: 'prompt',
+  model: 'test-model',
+  rating: null,
+  isWinner: false,
+  copy: null,
+});
+
+const stored = async (id: string) => (await listGenerations()).find(r => r.id === id);
+
+describe('updateGeneration', () => {
+  it('keeps updates made while the record is still being saved', async () => {
+    const saving = saveGeneration(record('early'));
+    const updates = Promise.all([
+      updateGeneration('early', { rating: 5 }),
+      updateGeneration('early', { isWinner: true }),
+    ]);
+    await Promise.all([saving, updates]);
+
+    expect(await stored('early')).toMatchObject({ rating: 5, isWinner: true, peopleThumbnails: [expect.any(String)] });
+  });
+
+  it('applies concurrent updates to a saved record without losing either', async () => {
+    await saveGeneration(record('saved'));
+
+    await Promise.all([
+      updateGeneration('saved', { rating: 3 }),
+      updateGeneration('saved', { copy: { caption: 'Hi', hashtags: [], altText: '', tone: 'casual', length: 'short' } }),
+    ]);
+
+    expect(await stored('saved')).toMatchObject({ rating: 3, copy: { caption: 'Hi' } });
+  });
+
+  it('does nothing for a generation that was never saved', async () => {
+    await updateGeneration('missing', { rating: 1 });
+
+    expect(await stored('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+import type { GenerationRecord, InlineImage, ReferenceImage } from "../types";
+import { getAll, put, remove, update } from "./db";
+
+const THUMBNAIL_SIZE = 160;
+
+/** Downscales an inline image to a small JPEG data URL for list views. */
+const createThumbnail = (image: InlineImage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas context failed"));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = reject;
+    img.src = `data:${image.mimeType};base64,${image.base64}`;
+  });
+
+/** Shape written before multi-subject support: exactly one person and one product. */
+interface LegacyGenerationRecord extends Omit<GenerationRecord, 'people' | 'products' | 'peopleThumbnails' | 'productThumbnails' | 'rating' | 'isWinner' | 'copy'> {
+  person: InlineImage;
+  product: InlineImage;
+  personThumbnail: string;
+  productThumbnail: string;
+}
+
+/** Records saved before review ratings or post copy existed lack those fields. */
+type StoredRecord = GenerationRecord | LegacyGenerationRecord | Omit<GenerationRecord, 'rating' | 'isWinner' | 'copy'>;
+
+const normalizeRecord = (stored: StoredRecord): GenerationRecord => {
+  const record = { rating: null, isWinner: false, copy: null, ...stored };
+  if (!('person' in record)) return record;
+  const { person, product, personThumbnail, productThumbnail, ...rest } = record;
+  return {
+    ...rest,
+    people: [{ ...person, role: "" }],
+    products: [{ ...product, role: "" }],
+    peopleThumbnails: [personThumbnail],
+    productThumbnails: [productThumbnail],
+  };
+};
+
+/** Saves still making thumbnails, by id. Updates wait for them, so a rating given right away is not lost. */
+const savesInProgress = new Map<string, Promise<unknown>>();
+
+export const saveGeneration = (
+  record: Omit<GenerationRecord, 'peopleThumbnails' | 'productThumbnails'>
+): Promise<GenerationRecord> => {
+  const saving = (async () => {
+    const thumbnails = (images: ReferenceImage[]) => Promise.all(images.map(createThumbnail));
+    const [peopleThumbnails, productThumbnails] = await Promise.all([
+      thumbnails(record.people),
+      thumbnails(record.products),
+    ]);
+    const full: GenerationRecord = { ...record, peopleThumbnails, productThumbnails };
+    await put('generations', full);
+    return full;
+  })();
+  const tracked = saving.finally(() => {
+    if (savesInProgress.get(record.id) === tracked) savesInProgress.delete(record.id);
+  });
+  savesInProgress.set(record.id, tracked);
+  return saving;
+};
+
+/** Returns every saved generation, newest first. */
+export const listGenerations = async (): Promise<GenerationRecord[]> => {
+  const records = await getAll<StoredRecord>('generations');
+  return records.map(normalizeRecord).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteGeneration = (id: string): Promise<void> => remove('generations', id);
+
+/**
+ * Updates review fields, post copy or the applied refinement on a saved generation.
+ * Waits for a save still in progress; does nothing if the generation was never saved.
+ */
+export const updateGeneration = async (
+  id: string,
+  patch: Partial<Pick<GenerationRecord, 'rating' | 'isWinner' | 'copy' | 'image' | 'model' | 'prompt'>>
+): Promise<void> => {
+  await savesInProgress.get(id)?.catch(() => {});
+  await update<StoredRecord>('generations', id, stored => stored && { ...normalizeRecord(stored), ...patch });
+};
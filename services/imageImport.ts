@@ -0,0 +1,137 @@
+import { EMPTY_IMAGE_STATE, type ImageState } from "../types";
+import { resizeImage } from "./imageResize";
+import { formatBytes } from "./payloadService";
+
+/** Largest file accepted before resizing; phone photos are rarely over 15MB. */
+export const MAX_UPLOAD_BYTES = 30 * 1024 * 1024;
+
+/** What the uploader's file picker offers. HEIC and AVIF are converted before resizing. */
+export const ACCEPTED_IMAGE_TYPES = "image/png, image/jpeg, image/webp, image/heic, image/heif, image/avif, .heic, .heif, .avif";
+
+const NATIVE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+const SUPPORTED_FORMATS = "JPG, PNG, WEBP, HEIC or AVIF";
+
+/** An image that cannot be used, with a message meant for the uploader. */
+export class ImageImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageImportError';
+  }
+}
+
+const extension = (name: string): string => name.split('.').pop()?.toLowerCase() ?? '';
+
+/** Browsers other than Safari often leave `type` empty for HEIC and AVIF, so the extension decides. */
+const isHeic = (file: File) => HEIC_TYPES.includes(file.type) || ['heic', 'heif'].includes(extension(file.name));
+const isAvif = (file: File) => file.type === 'image/avif' || extension(file.name) === 'avif';
+
+/** Returns why the file cannot be uploaded, or null if it can. */
+export const getImageFileIssue = (file: File): string | null => {
+  const name = file.name || "The file";
+  if (!NATIVE_TYPES.includes(file.type) && !isHeic(file) && !isAvif(file)) {
+    return `${name} is not a supported image. Use ${SUPPORTED_FORMATS}.`;
+  }
+  if (file.size === 0) return `${name} is empty.`;
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `${name} is ${formatBytes(file.size)}; the limit is ${formatBytes(MAX_UPLOAD_BYTES)}.`;
+  }
+  return null;
+};
+
+const canDecode = (file: Blob): Promise<boolean> =>
+  new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(true); };
+    img.onerror = () => { URL.revokeObjectURL(url); resolve(false); };
+    img.src = url;
+  });
+
+/**
+ * Validates a file and converts iPhone HEIC photos to JPEG so the canvas can read them.
+ * Safari decodes HEIC itself and most browsers decode AVIF, so conversion only happens
+ * when the browser cannot; the HEIC decoder is loaded on first use.
+ */
+export const prepareImageFile = async (file: File): Promise<File> => {
+  const issue = getImageFileIssue(file);
+  if (issue) throw new ImageImportError(issue);
+  if (NATIVE_TYPES.includes(file.type) || await canDecode(file)) return file;
+
+  if (isAvif(file)) {
+    throw new ImageImportError(`This browser cannot open AVIF images. Convert ${file.name} to JPG or PNG, or use another browser.`);
+  }
+  try {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+    const blob = Array.isArray(converted) ? converted[0] : converted;
+    return new File([blob], file.name.replace(/\.[^.]+$/, '') + '.jpg', { type: 'image/jpeg' });
+  } catch (err) {
+    console.error("HEIC conversion failed:", err);
+    throw new ImageImportError(`${file.name} could not be converted. Export it from Photos as JPEG and try again.`);
+  }
+};
+
+/** A file name for an image downloaded from `url`, e.g. "photo.jpg" from ".../photo.jpg?w=800". */
+const fileNameFromUrl = (url: URL, mimeType: string): string => {
+  const last = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+  if (/\.[a-z0-9]+$/i.test(last)) return last;
+  return `${last || 'image'}.${mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'jpg'}`;
+};
+
+/**
+ * Downloads an image from a web address. Most sites do not allow other pages to read
+ * their images (CORS); that case gets its own message since the link itself works.
+ */
+export const fetchImageFile = async (address: string, signal?: AbortSignal): Promise<File> => {
+  let url: URL;
+  try {
+    url = new URL(address.trim());
+  } catch {
+    throw new ImageImportError("Enter a full image address starting with https://.");
+  }
+  if (!['http:', 'https:', 'data:'].includes(url.protocol)) {
+    throw new ImageImportError("Enter a full image address starting with https://.");
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new ImageImportError("That site does not allow its images to be loaded here. Save the image and upload the file instead.");
+  }
+  if (!response.ok) throw new ImageImportError(`The image could not be downloaded (${response.status}).`);
+
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > MAX_UPLOAD_BYTES) {
+    throw new ImageImportError(`The image is ${formatBytes(declared)}; the limit is ${formatBytes(MAX_UPLOAD_BYTES)}.`);
+  }
+  const blob = await response.blob();
+  const mimeType = blob.type.split(';')[0];
+  if (!mimeType.startsWith('image/')) throw new ImageImportError("That address is a web page, not an image. Right-click the image and copy its address.");
+  return new File([blob], fileNameFromUrl(url, mimeType), { type: mimeType });
+};
+
+/**
+ * Reads what was pasted or dropped: files first (screenshots, copied or dragged images), then an image address,
+ * as when an image is dragged in from another site. Returns an empty result when there is neither.
+ */
+export const readTransfer = (data: DataTransfer): { files: File[]; url: string | null } => {
+  const files = Array.from(data.files);
+  if (files.length > 0) return { files, url: null };
+  const text = (data.getData('text/uri-list').split('\n').find(line => !line.startsWith('#')) || data.getData('text/plain')).trim();
+  return { files: [], url: /^(https?:\/\/|data:image\/)\S+$/i.test(text) ? text : null };
+};
+
+/** Turns any accepted file into uploader state: validated, converted if needed and resized. */
+export const importImageFile = async (file: File): Promise<ImageState> => {
+  const prepared = await prepareImageFile(file);
+  const { base64, preview } = await resizeImage(prepared);
+  return { ...EMPTY_IMAGE_STATE, file: prepared, preview, croppedBase64: base64, source: preview };
+};
+
+/** The uploader-facing message for any import failure. */
+export const toImportMessage = (err: unknown): string =>
+  err instanceof ImageImportError ? err.message : "The image could not be opened. Try a different file.";
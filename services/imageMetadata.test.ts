@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { TEST_ENCODED } from '../test/setup';
+import { ascii, readUint32BE, readUint32LE } from './binary';
+import { buildExif, buildXmp, embedMetadata, type ImageMetadata } from './imageMetadata';
+
+const meta: ImageMetadata = {
+  scene: 'Café terrace',
+  prompt: 'A creator holding the <serum> & smiling',
+  model: 'gemini-2.5-flash-image',
+  createdAt: Date.UTC(2025, 0, 2, 3, 4, 5),
+};
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const encoded = (mimeType: string) => new Uint8Array(TEST_ENCODED[mimeType]);
+
+describe('buildXmp', () => {
+  it('escapes the prompt and records scene, model and date', () => {
+    const xmp = buildXmp(meta);
+    expect(xmp).toContain('A creator holding the &lt;serum&gt; &amp; smiling');
+    expect(xmp).toContain('<ugc:scene>Café terrace</ugc:scene>');
+    expect(xmp).toContain('<ugc:model>gemini-2.5-flash-image</ugc:model>');
+    expect(xmp).toContain('2025-01-02T03:04:05.000Z');
+  });
+});
+
+describe('ascii', () => {
+  it('replaces each character outside 7-bit ASCII with "?"', () => {
+    expect(Array.from(ascii('Café ✨!'))).toEqual([...'Caf? ?!'].map(char => char.charCodeAt(0)));
+  });
+});
+
+describe('buildExif', () => {
+  it('writes a big-endian TIFF whose ImageDescription is the prompt', () => {
+    const exif = buildExif(meta);
+    expect(text(exif.subarray(0, 2))).toBe('MM');
+    expect(exif[2] << 8 | exif[3]).toBe(42);
+
+    const ifd = readUint32BE(exif, 4);
+    const firstTag = exif[ifd + 2] << 8 | exif[ifd + 3];
+    const count = readUint32BE(exif, ifd + 6);
+    const offset = readUint32BE(exif, ifd + 10);
+    expect(firstTag).toBe(0x010e);
+    expect(text(exif.subarray(offset, offset + count - 1))).toBe(meta.prompt);
+  });
+});
+
+describe('embedMetadata', () => {
+  it('adds eXIf and XMP chunks after IHDR in PNGs', () => {
+    const png = embedMetadata(encoded('image/png'), 'png', meta, 1, 1);
+    const types: string[] = [];
+    for (let offset = 8; offset < png.length;) {
+      const length = readUint32BE(png, offset);
+      types.push(text(png.subarray(offset + 4, offset + 8)));
+      offset += 12 + length;
+    }
+    expect(types).toEqual(['IHDR', 'eXIf', 'iTXt', 'iTXt', 'iTXt', 'iTXt', 'IEND']);
+    expect(text(png)).toContain('XML:com.adobe.xmp');
+  });
+
+  it('adds EXIF and XMP APP1 segments after the JFIF header in JPEGs', () => {
+    const jpeg = embedMetadata(encoded('image/jpeg'), 'jpeg', meta, 1, 1);
+    const markers: number[] = [];
+    for (let offset = 2; offset < jpeg.length - 2;) {
+      markers.push(jpeg[offset + 1]);
+      offset += 2 + (jpeg[offset + 2] << 8 | jpeg[offset + 3]);
+    }
+    expect(markers).toEqual([0xe0, 0xe1, 0xe1]);
+    expect(text(jpeg)).toContain('http://ns.adobe.com/xap/1.0/');
+  });
+
+  it('upgrades simple WebPs to VP8X with EXIF and XMP chunks', () => {
+    const webp = embedMetadata(encoded('image/webp'), 'webp', meta, 640, 480);
+    expect(readUint32LE(webp, 4)).toBe(webp.length - 8);
+
+    const chunks: string[] = [];
+    for (let offset = 12; offset < webp.length;) {
+      const size = readUint32LE(webp, offset + 4);
+      chunks.push(text(webp.subarray(offset, offset + 4)));
+      offset += 8 + size + (size % 2);
+    }
+    expect(chunks).toEqual(['VP8X', 'VP8 ', 'EXIF', 'XMP ']);
+    // Flags, then 24-bit width-1 and height-1.
+    expect(webp[20] & 0x0c).toBe(0x0c);
+    expect(webp[24] | webp[25] << 8 | webp[26] << 16).toBe(639);
+    expect(webp[27] | webp[28] << 8 | webp[29] << 16).toBe(479);
+  });
+});
@@ -0,0 +1,196 @@
+import type { ExportFormat } from "../types";
+import { ascii, concatBytes, crc32, readUint32BE, readUint32LE, uint16BE, uint32BE, uint32LE, utf8 } from "./binary";
+
+export interface ImageMetadata {
+  /** Scene label, used as the title. */
+  scene: string;
+  prompt: string;
+  model: string;
+  createdAt: number;
+}
+
+const SOFTWARE = "UGC Studio AI";
+const UGC_NAMESPACE = "http://ns.ugc-studio.app/1.0/";
+/**
+ * JPEG segments carry a 16-bit length. The XMP packet repeats the prompt and may use
+ * 3 bytes per character, so text is cut well short of it.
+ */
+const MAX_SEGMENT_TEXT = 60_000;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+/**
+ * XMP packet recording where the image came from: the scene as dc:title, the prompt as
+ * dc:description, the model as the creator tool, plus the same values under our own namespace.
+ */
+export const buildXmp = ({ scene, prompt, model, createdAt }: ImageMetadata): string => {
+  const text = (value: string) => escapeXml(truncate(value, MAX_SEGMENT_TEXT / 8));
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:ugc="${UGC_NAMESPACE}">
+   <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${text(scene)}</rdf:li></rdf:Alt></dc:title>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${text(prompt)}</rdf:li></rdf:Alt></dc:description>
+   <xmp:CreatorTool>${escapeXml(`${SOFTWARE} (${model})`)}</xmp:CreatorTool>
+   <xmp:CreateDate>${new Date(createdAt).toISOString()}</xmp:CreateDate>
+   <ugc:scene>${text(scene)}</ugc:scene>
+   <ugc:model>${escapeXml(model)}</ugc:model>
+   <ugc:prompt>${text(prompt)}</ugc:prompt>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+const exifDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}:${pad(d.getMonth() + 1)}:${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+/**
+ * Big-endian TIFF structure with a single IFD of ASCII tags, the payload of an EXIF block.
+ * ImageDescription holds the prompt, Model the generating model, Software this app.
+ */
+export const buildExif = ({ prompt, model, createdAt }: ImageMetadata): Uint8Array => {
+  const entries: [number, Uint8Array][] = [
+    [0x010e, ascii(`${truncate(prompt, MAX_SEGMENT_TEXT / 2)}\0`)], // ImageDescription
+    [0x0110, ascii(`${model}\0`)], // Model
+    [0x0131, ascii(`${SOFTWARE}\0`)], // Software
+    [0x0132, ascii(`${exifDate(createdAt)}\0`)], // DateTime
+  ];
+
+  const ifdOffset = 8;
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let dataOffset = ifdOffset + ifdSize;
+  const ifd: Uint8Array[] = [uint16BE(entries.length)];
+  const data: Uint8Array[] = [];
+  for (const [tag, value] of entries) {
+    const inline = value.length <= 4;
+    ifd.push(uint16BE(tag), uint16BE(2), uint32BE(value.length));
+    if (inline) {
+      const padded = new Uint8Array(4);
+      padded.set(value);
+      ifd.push(padded);
+    } else {
+      ifd.push(uint32BE(dataOffset));
+      // Values start on word boundaries.
+      const padded = value.length % 2 ? concatBytes(value, new Uint8Array(1)) : value;
+      data.push(padded);
+      dataOffset += padded.length;
+    }
+  }
+  ifd.push(uint32BE(0));
+
+  return concatBytes(ascii('MM'), uint16BE(42), uint32BE(ifdOffset), ...ifd, ...data);
+};
+
+// --- PNG ---
+
+const PNG_SIGNATURE_LENGTH = 8;
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const typeAndData = concatBytes(ascii(type), data);
+  return concatBytes(uint32BE(data.length), typeAndData, uint32BE(crc32(typeAndData)));
+};
+
+const pngText = (keyword: string, text: string) =>
+  pngChunk('iTXt', concatBytes(ascii(keyword), new Uint8Array([0, 0, 0, 0, 0]), utf8(text)));
+
+/** Inserts eXIf and iTXt (XMP, Description) chunks right after IHDR. */
+const embedPng = (png: Uint8Array, meta: ImageMetadata): Uint8Array => {
+  const ihdrEnd = PNG_SIGNATURE_LENGTH + 12 + readUint32BE(png, PNG_SIGNATURE_LENGTH);
+  return concatBytes(
+    png.subarray(0, ihdrEnd),
+    pngChunk('eXIf', buildExif(meta)),
+    pngText('XML:com.adobe.xmp', buildXmp(meta)),
+    pngText('Title', meta.scene),
+    pngText('Description', meta.prompt),
+    pngText('Software', `${SOFTWARE} (${meta.model})`),
+    png.subarray(ihdrEnd)
+  );
+};
+
+// --- JPEG ---
+
+const jpegSegment = (marker: number, payload: Uint8Array) =>
+  concatBytes(new Uint8Array([0xff, marker]), uint16BE(payload.length + 2), payload);
+
+/** Inserts APP1 EXIF and XMP segments after SOI and any JFIF APP0, which must come first. */
+const embedJpeg = (jpeg: Uint8Array, meta: ImageMetadata): Uint8Array => {
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  }
+  return concatBytes(
+    jpeg.subarray(0, insertAt),
+    jpegSegment(0xe1, concatBytes(ascii('Exif\0\0'), buildExif(meta))),
+    jpegSegment(0xe1, concatBytes(ascii('http://ns.adobe.com/xap/1.0/\0'), utf8(buildXmp(meta)))),
+    jpeg.subarray(insertAt)
+  );
+};
+
+// --- WebP ---
+
+const riffChunk = (fourCC: string, data: Uint8Array) =>
+  concatBytes(ascii(fourCC), uint32LE(data.length), data, data.length % 2 ? new Uint8Array(1) : new Uint8Array(0));
+
+const VP8X_FLAG_ALPHA = 0x10;
+const VP8X_FLAG_EXIF = 0x08;
+const VP8X_FLAG_XMP = 0x04;
+
+const uint24LE = (value: number) => new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff]);
+
+/**
+ * Simple (VP8/VP8L) WebP files cannot carry metadata, so they are upgraded to the extended
+ * format with a VP8X header; EXIF and XMP chunks go after the image data.
+ */
+const embedWebp = (webp: Uint8Array, meta: ImageMetadata, width: number, height: number): Uint8Array => {
+  const chunks: { fourCC: string; data: Uint8Array }[] = [];
+  for (let offset = 12; offset + 8 <= webp.length;) {
+    const fourCC = String.fromCharCode(...webp.subarray(offset, offset + 4));
+    const size = readUint32LE(webp, offset + 4);
+    chunks.push({ fourCC, data: webp.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+
+  const existing = chunks.find(c => c.fourCC === 'VP8X');
+  let flags = existing ? existing.data[0] : 0;
+  if (!existing) {
+    const lossless = chunks.find(c => c.fourCC === 'VP8L');
+    // VP8L keeps an "alpha is used" bit after its 28 bits of dimensions.
+    if (lossless && (readUint32LE(lossless.data, 1) >>> 28) & 1) flags |= VP8X_FLAG_ALPHA;
+  }
+  flags |= VP8X_FLAG_EXIF | VP8X_FLAG_XMP;
+
+  const vp8x = existing
+    ? concatBytes(new Uint8Array([flags]), existing.data.subarray(1))
+    : concatBytes(new Uint8Array([flags, 0, 0, 0]), uint24LE(width - 1), uint24LE(height - 1));
+
+  const body = concatBytes(
+    ascii('WEBP'),
+    riffChunk('VP8X', vp8x),
+    ...chunks.filter(c => !['VP8X', 'EXIF', 'XMP '].includes(c.fourCC)).map(c => riffChunk(c.fourCC, c.data)),
+    riffChunk('EXIF', buildExif(meta)),
+    riffChunk('XMP ', utf8(buildXmp(meta)))
+  );
+  return concatBytes(ascii('RIFF'), uint32LE(body.length), body);
+};
+
+/**
+ * Returns a copy of an encoded image with EXIF and XMP metadata embedded.
+ * Dimensions are only needed for WebP, whose extended header repeats them.
+ */
+export const embedMetadata = (bytes: Uint8Array, format: ExportFormat, meta: ImageMetadata, width: number, height: number): Uint8Array => {
+  switch (format) {
+    case 'png': return embedPng(bytes, meta);
+    case 'jpeg': return embedJpeg(bytes, meta);
+    case 'webp': return embedWebp(bytes, meta, width, height);
+  }
+};
@@ -0,0 +1,19 @@
+import type { ImageGenerationProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+export const IMAGE_PROVIDERS: ImageGenerationProvider[] = [geminiProvider, mockProvider];
+
+/**
+ * Resolves the provider named by `IMAGE_PROVIDER` in the environment.
+ * Falls back to the offline mock when no provider is named and neither an API key nor a proxy is configured.
+ */
+export const getImageProvider = (id: string | undefined = process.env.IMAGE_PROVIDER): ImageGenerationProvider => {
+  const configured = IMAGE_PROVIDERS.find(p => p.id === id);
+  if (configured) return configured;
+  if (id) {
+    console.warn(`Unknown image provider "${id}", falling back to Gemini.`);
+    return geminiProvider;
+  }
+  return process.env.API_KEY || process.env.API_PROXY_URL ? geminiProvider : mockProvider;
+};
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { testImageSize } from '../test/setup';
+import { analyzeImage, borderEdgeDensity, laplacianVariance, measureOriginalSize, scoreIssues, toGrayscale, type Pixels } from './imageQualityService';
+
+const SIZE = 64;
+
+/** Builds an RGBA image from a per-pixel gray value. */
+const pixels = (shade: (x: number, y: number) => number): Pixels => {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const value = shade(x, y);
+      data.set([value, value, value, 255], (y * SIZE + x) * 4);
+    }
+  }
+  return { data, width: SIZE, height: SIZE };
+};
+
+const checkerboard = (x: number, y: number) => ((x >> 1) + (y >> 1)) % 2 ? 255 : 0;
+const isCenter = (x: number, y: number) => x > 16 && x < 48 && y > 16 && y < 48;
+
+describe('image quality measures', () => {
+  it('scores sharp detail far above a smooth gradient', () => {
+    const sharp = laplacianVariance(toGrayscale(pixels(checkerboard)), SIZE, SIZE);
+    const smooth = laplacianVariance(toGrayscale(pixels(x => x * 4)), SIZE, SIZE);
+    expect(sharp).toBeGreaterThan(1000);
+    expect(smooth).toBeLessThan(1);
+  });
+
+  it('only counts edges in the border band', () => {
+    const plainBorder = toGrayscale(pixels((x, y) => isCenter(x, y) ? checkerboard(x, y) : 200));
+    const busyBorder = toGrayscale(pixels((x, y) => isCenter(x, y) ? 200 : checkerboard(x, y)));
+    expect(borderEdgeDensity(plainBorder, SIZE, SIZE)).toBeLessThan(0.05);
+    expect(borderEdgeDensity(busyBorder, SIZE, SIZE)).toBeGreaterThan(0.5);
+  });
+
+  it('subtracts more for errors than warnings', () => {
+    expect(scoreIssues([])).toBe(100);
+    expect(scoreIssues([{ id: 'blurry', severity: 'warning', tip: '' }])).toBe(85);
+    expect(scoreIssues([
+      { id: 'no-face', severity: 'error', tip: '' },
+      { id: 'low-resolution', severity: 'error', tip: '' },
+      { id: 'blurry', severity: 'error', tip: '' },
+    ])).toBe(0);
+  });
+});
+
+describe('analyzeImage', () => {
+  afterEach(() => {
+    Object.assign(testImageSize, { width: 800, height: 600 });
+    vi.unstubAllGlobals();
+  });
+
+  it('flags small images as low resolution', async () => {
+    Object.assign(testImageSize, { width: 200, height: 150 });
+    const report = await analyzeImage('data:image/jpeg;base64,dGVzdA==', 'product');
+    expect(report.issues.find(i => i.id === 'low-resolution')).toMatchObject({ severity: 'error' });
+  });
+
+  it('judges resolution on the original size rather than the preview', async () => {
+    Object.assign(testImageSize, { width: 200, height: 150 });
+    const report = await analyzeImage('data:image/jpeg;base64,dGVzdA==', 'product', { width: 4000, height: 3000 });
+    expect(report.issues.map(i => i.id)).not.toContain('low-resolution');
+  });
+
+  it('measures the cropped area of the uploaded file', async () => {
+    Object.assign(testImageSize, { width: 4000, height: 3000 });
+    const crop = { crop: { x: 10, y: 10, width: 10, height: 20 }, aspect: null, scale: 1, rotate: 0 };
+    await expect(measureOriginalSize(new Blob(['x']), crop)).resolves.toEqual({ width: 400, height: 600 });
+  });
+
+  it('skips face checks when the browser has no face detector', async () => {
+    const report = await analyzeImage('data:image/jpeg;base64,dGVzdA==', 'person');
+    expect(report.faceCount).toBeNull();
+    expect(report.issues.map(i => i.id)).not.toContain('no-face');
+  });
+
+  it.each([
+    [0, 'no-face'],
+    [2, 'multiple-faces'],
+  ])('reports %i detected faces as %s', async (count, id) => {
+    vi.stubGlobal('FaceDetector', class {
+      detect = async () => Array.from({ length: count }, () => ({}));
+    });
+    const report = await analyzeImage('data:image/jpeg;base64,dGVzdA==', 'person');
+    expect(report.faceCount).toBe(count);
+    expect(report.issues.map(i => i.id)).toContain(id);
+  });
+});
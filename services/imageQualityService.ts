@@ -0,0 +1,188 @@
+import type { CropSettings, ImageQualityReport, QualityIssue, SubjectKind } from "../types";
+import { loadImage } from "./platformService";
+
+/** Pixel data as returned by `getImageData`, or built by hand in tests. */
+export interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** Images are scaled down to this long edge before measuring, so scores do not depend on upload size. */
+const ANALYSIS_SIZE = 256;
+
+/** Short side, in pixels, below which the model loses detail. */
+export const MIN_SHORT_SIDE = 512;
+const BLURRY_VARIANCE = 60;
+const VERY_BLURRY_VARIANCE = 20;
+/** Fraction of the border band that may be strong edges before the background counts as busy. */
+const BUSY_EDGE_DENSITY = 0.18;
+const EDGE_THRESHOLD = 40;
+
+const PENALTY = { warning: 15, error: 35 };
+
+/** Luma per pixel, 0-255. */
+export const toGrayscale = ({ data, width, height }: Pixels): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Variance of the Laplacian, a standard sharpness measure: blurry images have few strong
+ * second derivatives, so the variance is low.
+ */
+export const laplacianVariance = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+/**
+ * Share of pixels in the outer band of the frame with a strong gradient. Product shots on a
+ * plain backdrop score near zero; cluttered shelves and patterned tables score high.
+ */
+export const borderEdgeDensity = (gray: Float32Array, width: number, height: number, band: number = 0.15): number => {
+  const bandX = Math.max(1, Math.round(width * band));
+  const bandY = Math.max(1, Math.round(height * band));
+  let edges = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const inBand = x < bandX || x >= width - bandX || y < bandY || y >= height - bandY;
+      if (!inBand) continue;
+      const i = y * width + x;
+      const magnitude = Math.abs(gray[i + 1] - gray[i - 1]) + Math.abs(gray[i + width] - gray[i - width]);
+      if (magnitude > EDGE_THRESHOLD) edges++;
+      count++;
+    }
+  }
+  return count === 0 ? 0 : edges / count;
+};
+
+export const scoreIssues = (issues: QualityIssue[]): number =>
+  Math.max(0, 100 - issues.reduce((total, issue) => total + PENALTY[issue.severity], 0));
+
+interface FaceDetectorLike {
+  detect: (image: HTMLImageElement) => Promise<unknown[]>;
+}
+
+/**
+ * Counts faces with the browser's Shape Detection API. Returns null where it is not
+ * available (currently most browsers), in which case face checks are skipped.
+ */
+const countFaces = async (img: HTMLImageElement): Promise<number | null> => {
+  const FaceDetector = (globalThis as { FaceDetector?: new (options: { maxDetectedFaces: number }) => FaceDetectorLike }).FaceDetector;
+  if (!FaceDetector) return null;
+  try {
+    const faces = await new FaceDetector({ maxDetectedFaces: 5 }).detect(img);
+    return faces.length;
+  } catch (err) {
+    console.warn("Face detection failed:", err);
+    return null;
+  }
+};
+
+const readPixels = (img: HTMLImageElement): Pixels | null => {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Pixel size of the cropped area in the uploaded file, before it was scaled down for sending.
+ * This is the resolution the photographer actually captured.
+ */
+export const measureOriginalSize = async (file: Blob, crop: CropSettings | null): Promise<ImageSize> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const area = crop?.crop ?? { width: 100, height: 100 };
+    return { width: Math.round(img.width * area.width / 100), height: Math.round(img.height * area.height / 100) };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Checks an uploaded reference image for problems that would waste a generation:
+ * missing or extra faces on person photos, blur, low resolution, and busy product backgrounds.
+ * `source` is usually a scaled-down preview, so pass `originalSize` to judge resolution on the upload itself.
+ */
+export const analyzeImage = async (source: string, kind: SubjectKind, originalSize?: ImageSize): Promise<ImageQualityReport> => {
+  const img = await loadImage(source);
+  const issues: QualityIssue[] = [];
+
+  const { width, height } = originalSize ?? img;
+  const shortSide = Math.min(width, height);
+  if (shortSide < MIN_SHORT_SIDE) {
+    issues.push({
+      id: 'low-resolution',
+      severity: shortSide < MIN_SHORT_SIDE / 2 ? 'error' : 'warning',
+      tip: `Only ${width}×${height}px. Use a photo at least ${MIN_SHORT_SIDE}px on the short side, or crop less tightly.`,
+    });
+  }
+
+  const pixels = readPixels(img);
+  if (pixels) {
+    const gray = toGrayscale(pixels);
+    const sharpness = laplacianVariance(gray, pixels.width, pixels.height);
+    if (sharpness < BLURRY_VARIANCE) {
+      issues.push({
+        id: 'blurry',
+        severity: sharpness < VERY_BLURRY_VARIANCE ? 'error' : 'warning',
+        tip: "The photo looks blurry. Use a sharper, well-lit shot without motion blur.",
+      });
+    }
+    if (kind === 'product' && borderEdgeDensity(gray, pixels.width, pixels.height) > BUSY_EDGE_DENSITY) {
+      issues.push({
+        id: 'busy-background',
+        severity: 'warning',
+        tip: "The background is busy. A product shot on a plain background blends in more cleanly.",
+      });
+    }
+  }
+
+  const faceCount = kind === 'person' ? await countFaces(img) : null;
+  if (faceCount === 0) {
+    issues.push({
+      id: 'no-face',
+      severity: 'error',
+      tip: "No face found. Use a photo where the person's face is clearly visible.",
+    });
+  } else if (faceCount !== null && faceCount > 1) {
+    issues.push({
+      id: 'multiple-faces',
+      severity: 'warning',
+      tip: `Found ${faceCount} faces. Crop to the one person you want, or add others as separate people.`,
+    });
+  }
+
+  return { score: scoreIssues(issues), issues, faceCount };
+};
@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { testImageSize } from '../test/setup';
+import { MAX_DIMENSION, RESIZE_QUALITY, fitWithin, resizeImage } from './imageResize';
+
+const photo = () => new File(['x'], 'photo.png', { type: 'image/png' });
+
+describe('fitWithin', () => {
+  it('scales the longer side down to the limit and rounds down', () => {
+    expect(fitWithin(4000, 3000, 1024)).toEqual({ width: 1024, height: 768 });
+    expect(fitWithin(1000, 3001, 1024)).toEqual({ width: 341, height: 1024 });
+    expect(fitWithin(640, 480, 1024)).toEqual({ width: 640, height: 480 });
+  });
+});
+
+describe('resizeImage', () => {
+  afterEach(() => {
+    Object.assign(testImageSize, { width: 800, height: 600 });
+  });
+
+  it('downscales large photos onto a canvas of the fitted size', async () => {
+    Object.assign(testImageSize, { width: 3000, height: 4000 });
+    const toDataURL = vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL');
+
+    await resizeImage(photo());
+
+    const canvas = toDataURL.mock.contexts[0] as HTMLCanvasElement;
+    expect([canvas.width, canvas.height]).toEqual([768, MAX_DIMENSION]);
+  });
+
+  it('fits within a smaller limit when one is given', async () => {
+    Object.assign(testImageSize, { width: 300, height: 200 });
+    const toDataURL = vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL');
+
+    await resizeImage(photo(), 256);
+
+    const canvas = toDataURL.mock.contexts[0] as HTMLCanvasElement;
+    expect([canvas.width, canvas.height]).toEqual([256, 170]);
+  });
+
+  it('re-encodes as JPEG and returns the preview with its base64', async () => {
+    const toDataURL = vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL');
+
+    const { base64, preview } = await resizeImage(photo());
+
+    expect(toDataURL).toHaveBeenCalledWith('image/jpeg', RESIZE_QUALITY);
+    expect(preview).toBe('data:image/jpeg;base64,dGVzdA==');
+    expect(base64).toBe('dGVzdA==');
+  });
+});
@@ -0,0 +1,47 @@
+export const MAX_DIMENSION = 1024;
+/** JPEG quality of resized references. */
+export const RESIZE_QUALITY = 0.85;
+
+/**
+ * Scales a size down so its longer side is at most `maxDimension`, keeping the aspect ratio.
+ * Sizes already within the limit are returned unchanged. Rounds down, as a canvas does.
+ */
+export const fitWithin = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+  if (Math.max(width, height) <= maxDimension) return { width, height };
+  return width > height
+    ? { width: maxDimension, height: Math.floor(height * maxDimension / width) }
+    : { width: Math.floor(width * maxDimension / height), height: maxDimension };
+};
+
+/**
+ * Resizes an image to a maximum dimension while maintaining aspect ratio.
+ * This ensures the payload sent to the Gemini API is within safe limits (usually < 4MB total).
+ */
+export const resizeImage = (file: File, maxDimension: number = MAX_DIMENSION): Promise<{ base64: string; preview: string }> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const img = new Image();
+      img.onload = () => {
+        const canvas = document.createElement('canvas');
+        const { width, height } = fitWithin(img.width, img.height, maxDimension);
+
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return reject(new Error("Canvas context failed"));
+        
+        ctx.drawImage(img, 0, 0, width, height);
+        
+        // We use JPEG for the optimized version to keep the size small
+        const dataUrl = canvas.toDataURL('image/jpeg', RESIZE_QUALITY);
+        const base64 = dataUrl.split(',')[1];
+        resolve({ base64, preview: dataUrl });
+      };
+      img.onerror = reject;
+      img.src = e.target?.result as string;
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
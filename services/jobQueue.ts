@@ -0,0 +1,133 @@
+import type { GenerationJob } from '../types';
+import { getAll, put, remove } from './db';
+import { CancelledError, TimeoutError, toGenerationError } from './generationErrors';
+
+/** Upper bound for one job including all of its retries. */
+export const JOB_TIMEOUT_MS = 4 * 60 * 1000;
+
+type JobResult = Pick<GenerationJob, 'image' | 'model' | 'prompt'>;
+
+interface JobQueueOptions {
+  /** Performs the job. Must stop promptly when `signal` aborts. */
+  run: (job: GenerationJob, signal: AbortSignal) => Promise<JobResult>;
+  /** Called for every status change so the UI can mirror the queue. */
+  onUpdate: (id: string, patch: Partial<GenerationJob>) => void;
+  /** Called with the finished job after it succeeds. */
+  onSuccess?: (job: GenerationJob) => void;
+  concurrency: number;
+  timeoutMs?: number;
+}
+
+export interface JobQueue {
+  enqueue: (jobs: GenerationJob[]) => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  setConcurrency: (limit: number) => void;
+}
+
+/**
+ * Jobs waiting or in flight are mirrored to IndexedDB, so a reload can pick them up again.
+ * Finished jobs are removed; their results live in the generation history instead.
+ */
+const persist = (job: GenerationJob) =>
+  put('queue', job).catch(err => console.error("Failed to persist queued job:", err));
+
+const unpersist = (id: string) =>
+  remove('queue', id).catch(err => console.error("Failed to remove queued job:", err));
+
+/**
+ * Jobs left unfinished by the previous session, oldest first. Jobs that were running
+ * when the page closed are reset to queued, since their request was lost with it.
+ */
+export const loadPendingJobs = async (): Promise<GenerationJob[]> => {
+  const jobs = await getAll<GenerationJob>('queue');
+  return jobs
+    .sort((a, b) => a.id.localeCompare(b.id))
+    // Jobs queued by older versions lack the review fields and batch id; the id starts with the batch id.
+    .map(job => ({ rating: null, isWinner: false, copy: null, batchId: job.id.split('-').slice(0, -2).join('-'), ...job, status: 'queued' as const }));
+};
+
+/** Drops restored jobs that will not be run again from the stored queue. */
+export const discardPendingJobs = (ids: string[]): Promise<unknown> => Promise.all(ids.map(unpersist));
+
+/**
+ * Runs generation jobs with bounded concurrency. Each job gets its own AbortController,
+ * which both the Cancel button and the job timeout use to stop it.
+ */
+export const createJobQueue = ({ run, onUpdate, onSuccess, concurrency, timeoutMs = JOB_TIMEOUT_MS }: JobQueueOptions): JobQueue => {
+  let limit = concurrency;
+  const waiting: GenerationJob[] = [];
+  const controllers = new Map<string, AbortController>();
+
+  const execute = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    onUpdate(job.id, { status: 'running' });
+    try {
+      const result = await run(job, controller.signal);
+      onUpdate(job.id, { status: 'succeeded', ...result });
+      onSuccess?.({ ...job, status: 'succeeded', ...result });
+    } catch (err) {
+      const error = timedOut ? new TimeoutError(timeoutMs, err) : toGenerationError(err);
+      onUpdate(job.id, error instanceof CancelledError
+        ? { status: 'cancelled', error: null, errorCode: null, retryAt: null }
+        : {
+          status: 'failed',
+          error: error.message,
+          errorCode: error.code,
+          retryAt: error.retryAfterMs !== null ? Date.now() + error.retryAfterMs : null,
+        });
+    } finally {
+      clearTimeout(timer);
+      controllers.delete(job.id);
+      unpersist(job.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (controllers.size < limit && waiting.length > 0) {
+      execute(waiting.shift()!);
+    }
+  };
+
+  return {
+    enqueue: (jobs) => {
+      for (const job of jobs) {
+        if (controllers.has(job.id) || waiting.some(w => w.id === job.id)) continue;
+        const queued: GenerationJob = { ...job, status: 'queued', error: null, errorCode: null, retryAt: null };
+        waiting.push(queued);
+        persist(queued);
+        onUpdate(job.id, { status: 'queued', error: null, errorCode: null, retryAt: null });
+      }
+      pump();
+    },
+    cancel: (id) => {
+      const index = waiting.findIndex(job => job.id === id);
+      if (index !== -1) {
+        waiting.splice(index, 1);
+        unpersist(id);
+        onUpdate(id, { status: 'cancelled' });
+        return;
+      }
+      controllers.get(id)?.abort();
+    },
+    cancelAll: () => {
+      for (const job of waiting.splice(0)) {
+        unpersist(job.id);
+        onUpdate(job.id, { status: 'cancelled' });
+      }
+      controllers.forEach(controller => controller.abort());
+    },
+    setConcurrency: (next) => {
+      limit = Math.max(1, next);
+      pump();
+    },
+  };
+};
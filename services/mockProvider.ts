@@ -0,0 +1,174 @@
+import type { CopyRequest, GenerationOptions, ImageGenerationProvider, ImageGenerationResponse, InlineImage, PlatformPreset, UsageKind } from "../types";
+import { buildRefinePrompt, buildUGCPrompt } from "./promptService";
+import { ALT_TEXT_LIMIT, normalizeHashtag } from "./copyService";
+import { sleep } from "./retry";
+
+export const MOCK_MODEL = 'mock-compositor';
+
+const MOCK_LATENCY_MS = 600;
+const LONG_EDGE = 1024;
+
+/** Small stable string hash so the same scene always gets the same backdrop. */
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const loadInlineImage = (image: InlineImage): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = `data:${image.mimeType || 'image/jpeg'};base64,${image.base64}`;
+  });
+
+/** Draws `img` scaled to fit inside the given box, centred. */
+const drawContained = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.min(w / img.width, h / img.height);
+  const dw = img.width * scale;
+  const dh = img.height * scale;
+  ctx.drawImage(img, x + (w - dw) / 2, y + (h - dh) / 2, dw, dh);
+};
+
+/** Lays `images` out side by side across the given box. */
+const drawRow = (ctx: CanvasRenderingContext2D, images: HTMLImageElement[], x: number, y: number, w: number, h: number) => {
+  const cellWidth = w / images.length;
+  images.forEach((img, i) => drawContained(ctx, img, x + cellWidth * i, y, cellWidth, h));
+};
+
+/** Creates a blank canvas sized to the platform's aspect ratio. */
+const createCanvas = (platform: PlatformPreset) => {
+  const [ratioW, ratioH] = platform.aspectRatio.split(':').map(Number);
+  const width = ratioW >= ratioH ? LONG_EDGE : Math.round(LONG_EDGE * ratioW / ratioH);
+  const height = ratioH >= ratioW ? LONG_EDGE : Math.round(LONG_EDGE * ratioH / ratioW);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  return { canvas, ctx, width, height };
+};
+
+/** Draws a caption bar along the bottom edge and returns its height. */
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number): number => {
+  const captionHeight = Math.round(height * 0.12);
+  const pad = Math.round(Math.min(width, height) * 0.05);
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.75)';
+  ctx.fillRect(0, height - captionHeight, width, captionHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(captionHeight * 0.3)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, width / 2, height - captionHeight / 2, width - pad * 2);
+  return captionHeight;
+};
+
+/** Reports a finished mock call to the usage ledger. The mock uses no tokens and costs nothing. */
+const reportAttempt = (kind: UsageKind, startedAt: number, options?: GenerationOptions) =>
+  options?.onAttempt?.({
+    kind,
+    model: MOCK_MODEL,
+    inputTokens: 0,
+    outputTokens: 0,
+    images: kind === 'copy' ? 0 : 1,
+    latencyMs: Date.now() - startedAt,
+    outcome: 'success',
+  });
+
+/** Opening line of the mock caption for each tone. */
+const MOCK_OPENERS: Record<CopyRequest['tone'], string> = {
+  casual: "Okay, new favorite.",
+  enthusiastic: "Obsessed doesn't even cover it! ✨",
+  informative: "Here's why this made it into my routine.",
+  witty: "Plot twist: I actually kept using it.",
+  luxurious: "A small ritual, done beautifully.",
+};
+
+const toResponse = (canvas: HTMLCanvasElement, prompt: string): ImageGenerationResponse => {
+  const dataUrl = canvas.toDataURL('image/png');
+  return {
+    image: { base64: dataUrl.split(',')[1], mimeType: 'image/png' },
+    model: MOCK_MODEL,
+    prompt,
+  };
+};
+
+/**
+ * Offline provider that composites the people and products onto a placeholder canvas.
+ * Output is deterministic for a given request, so it is safe for demos and development without an API key.
+ */
+export const mockProvider: ImageGenerationProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  generate: async (request, options) => {
+    const startedAt = Date.now();
+    const { people, products, sceneDescription, platform } = request;
+    await sleep(MOCK_LATENCY_MS, options?.signal);
+
+    const { canvas, ctx, width, height } = createCanvas(platform);
+
+    const hue = hashString(sceneDescription) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 60%, 82%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 55%, 62%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const [personImgs, productImgs] = await Promise.all([
+      Promise.all(people.map(loadInlineImage)),
+      Promise.all(products.map(loadInlineImage)),
+    ]);
+    const pad = Math.round(Math.min(width, height) * 0.05);
+    const captionHeight = drawCaption(ctx, `${sceneDescription} · ${platform.aspectRatio}`, width, height);
+    const areaHeight = height - captionHeight - pad * 2;
+
+    drawRow(ctx, personImgs, pad, pad, width * 0.6 - pad * 1.5, areaHeight);
+    drawRow(ctx, productImgs, width * 0.6, pad + areaHeight * 0.35, width * 0.4 - pad, areaHeight * 0.65);
+
+    reportAttempt('image', startedAt, options);
+    return toResponse(canvas, buildUGCPrompt(request));
+  },
+  refine: async (request, options) => {
+    const startedAt = Date.now();
+    await sleep(MOCK_LATENCY_MS, options?.signal);
+
+    const { canvas, ctx, width, height } = createCanvas(request.platform);
+    ctx.drawImage(await loadInlineImage(request.image), 0, 0, width, height);
+
+    // A light tint derived from the instruction makes each refinement visibly distinct.
+    ctx.fillStyle = `hsla(${hashString(request.instruction) % 360}, 70%, 50%, 0.15)`;
+    ctx.fillRect(0, 0, width, height);
+    drawCaption(ctx, request.instruction, width, height);
+
+    reportAttempt('refine', startedAt, options);
+    return toResponse(canvas, buildRefinePrompt(request));
+  },
+  writeCopy: async ({ scene, products, platform, tone, length }, options) => {
+    const startedAt = Date.now();
+    await sleep(MOCK_LATENCY_MS, options?.signal);
+
+    const product = products[0]?.role.trim() || "this";
+    const sentences = [
+      MOCK_OPENERS[tone],
+      `Trying ${product} in ${scene.toLowerCase()}.`,
+      "It fits right into my day and I keep reaching for it.",
+      "Would you try it? Tell me below.",
+    ];
+    const count = length === 'short' ? 1 : length === 'medium' ? 2 : sentences.length;
+    const hashtags = ['#ugc', normalizeHashtag(product), normalizeHashtag(scene), '#musthave', '#dailyroutine']
+      .filter(tag => tag && tag !== '#this')
+      .slice(0, Math.min(length === 'short' ? 3 : 5, platform.hashtagLimit));
+
+    reportAttempt('copy', startedAt, options);
+    return {
+      caption: sentences.slice(0, count).join(' '),
+      hashtags,
+      altText: `A person with ${product} in ${scene.toLowerCase()}`.slice(0, ALT_TEXT_LIMIT),
+      model: MOCK_MODEL,
+    };
+  },
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import type { ReferenceImage } from '../types';
+import { MAX_PAYLOAD_BYTES, estimatePayloadBytes, validatePayload } from './payloadService';
+
+const reference = (bytes: number): ReferenceImage => ({ base64: 'a'.repeat(bytes), mimeType: 'image/jpeg', role: '' });
+
+describe('payload checks', () => {
+  it('counts the image being refined', () => {
+    const request = { people: [reference(10)], products: [reference(20)] };
+    expect(estimatePayloadBytes(request)).toBe(30);
+    expect(estimatePayloadBytes({ ...request, image: { base64: 'a'.repeat(5), mimeType: 'image/png' } })).toBe(35);
+  });
+
+  it('rejects a refinement whose edited image pushes it over the limit', () => {
+    const half = MAX_PAYLOAD_BYTES / 2;
+    const request = { people: [reference(half)], products: [reference(half - 10)] };
+    expect(validatePayload(request)).toBeNull();
+    expect(validatePayload({ ...request, image: { base64: 'a'.repeat(100), mimeType: 'image/png' } })).toMatch(/over the .* request limit/);
+  });
+});
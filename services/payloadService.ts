@@ -0,0 +1,35 @@
+import type { ImageGenerationRequest, InlineImage } from "../types";
+
+/** Gemini rejects requests whose inline data exceeds 20MB; keep a margin for the prompt and JSON envelope. */
+export const MAX_PAYLOAD_BYTES = 18 * 1024 * 1024;
+
+/** The image model's quality drops sharply with more references than this. */
+export const MAX_REFERENCE_IMAGES = 6;
+
+/** The images a generation or refinement sends; `image` is the version being refined. */
+type PayloadImages = Pick<ImageGenerationRequest, 'people' | 'products' | 'continuity'> & { image?: InlineImage };
+
+/** Size of the request as sent: inline images travel as base64 text, so their string length is what counts. */
+export const estimatePayloadBytes = ({ people, products, continuity = [], image }: PayloadImages): number =>
+  [...(image ? [image] : []), ...people, ...products, ...continuity].reduce((total, inline) => total + inline.base64.length, 0);
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.round(bytes / 1024)}KB`;
+
+/**
+ * Returns a user-facing problem with the request's reference images, or null if it can be sent.
+ */
+export const validatePayload = (request: PayloadImages): string | null => {
+  const { people, products } = request;
+  if (people.length === 0 || products.length === 0) {
+    return "Please upload at least one person and one product image.";
+  }
+  if (people.length + products.length > MAX_REFERENCE_IMAGES) {
+    return `Too many reference images (${people.length + products.length}). Use at most ${MAX_REFERENCE_IMAGES} people and products combined.`;
+  }
+  const bytes = estimatePayloadBytes(request);
+  if (bytes > MAX_PAYLOAD_BYTES) {
+    return `The images add up to ${formatBytes(bytes)}, over the ${formatBytes(MAX_PAYLOAD_BYTES)} request limit. Remove an image or crop them smaller.`;
+  }
+  return null;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createPersona, deletePersona, getConsentIssue, listPersonas, personaRole, savePersona } from './personaService';
+
+const NOW = new Date(2025, 5, 15, 12).getTime();
+
+describe('personaService', () => {
+  it('saves, lists alphabetically and deletes personas', async () => {
+    const zoe = { ...createPersona("Zoe"), photos: [{ base64: 'dGVzdA==', mimeType: 'image/jpeg' }] };
+    const amir = createPersona("Amir");
+    await savePersona(zoe);
+    await savePersona(amir);
+
+    const listed = await listPersonas();
+    expect(listed.map(p => p.name)).toEqual(["Amir", "Zoe"]);
+    expect(listed[1].photos).toEqual(zoe.photos);
+
+    await deletePersona(zoe.id);
+    await deletePersona(amir.id);
+    expect(await listPersonas()).toEqual([]);
+  });
+
+  it.each([
+    [{ granted: false, expiresOn: null }, "No consent on file"],
+    [{ granted: true, expiresOn: null }, null],
+    [{ granted: true, expiresOn: '2025-06-15' }, null],
+    [{ granted: true, expiresOn: '2025-06-14' }, "Consent expired on 2025-06-14"],
+  ])('reports consent %o as %s', (consent, expected) => {
+    const persona = createPersona();
+    expect(getConsentIssue({ ...persona, consent: { ...persona.consent, ...consent } }, NOW)).toBe(expected);
+  });
+
+  it('names the slot after the persona with styling notes', () => {
+    expect(personaRole(createPersona("Maya"))).toBe("Maya");
+    expect(personaRole({ ...createPersona("Maya"), notes: "Gold hoops,\n earth tones" })).toBe("Maya (Gold hoops, earth tones)");
+  });
+});
@@ -0,0 +1,50 @@
+import type { Persona } from "../types";
+import { getAll, put, remove } from "./db";
+
+export const createPersona = (name: string = "New Persona"): Persona => ({
+  id: `persona-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  name,
+  photos: [],
+  tags: [],
+  notes: "",
+  consent: {
+    granted: false,
+    usageRights: "",
+    expiresOn: null,
+    releaseReference: "",
+  },
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+/** Returns every saved persona, alphabetically. */
+export const listPersonas = async (): Promise<Persona[]> => {
+  const personas = await getAll<Persona>('personas');
+  return personas
+    .map(persona => ({ ...createPersona(), ...persona, consent: { ...createPersona().consent, ...persona.consent } }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePersona = (persona: Persona): Promise<void> => put('personas', persona);
+
+export const deletePersona = (id: string): Promise<void> => remove('personas', id);
+
+/** Local calendar date as YYYY-MM-DD, comparable with `consent.expiresOn`. */
+const localDate = (now: number) => {
+  const d = new Date(now);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/** Why the persona may not be used for new content, or null when consent is in order. */
+export const getConsentIssue = (persona: Persona, now: number = Date.now()): string | null => {
+  const { consent } = persona;
+  if (!consent.granted) return "No consent on file";
+  if (consent.expiresOn && consent.expiresOn < localDate(now)) return `Consent expired on ${consent.expiresOn}`;
+  return null;
+};
+
+/** Role text for a person slot filled from this persona: the name plus any styling notes. */
+export const personaRole = (persona: Persona): string => {
+  const notes = persona.notes.trim().replace(/\s+/g, ' ');
+  return notes ? `${persona.name} (${notes})` : persona.name;
+};
@@ -0,0 +1,120 @@
+import type { ExportFit, PlatformPreset } from '../types';
+
+export const PLATFORM_PRESETS: PlatformPreset[] = [
+  {
+    id: "instagram-square",
+    label: "Instagram Square",
+    aspectRatio: "1:1",
+    width: 1080,
+    height: 1080,
+    promptFormat: "square 1:1 photo for an Instagram feed post",
+    captionLimit: 2200,
+    hashtagLimit: 30,
+  },
+  {
+    id: "instagram-portrait",
+    label: "Instagram Feed 4:5",
+    aspectRatio: "4:5",
+    width: 1080,
+    height: 1350,
+    promptFormat: "portrait 4:5 photo for an Instagram feed post",
+    captionLimit: 2200,
+    hashtagLimit: 30,
+  },
+  {
+    id: "instagram-stories",
+    label: "Stories",
+    aspectRatio: "9:16",
+    width: 1080,
+    height: 1920,
+    promptFormat: "vertical full-screen 9:16 photo for Instagram Stories, keeping the subject clear of the top and bottom edges",
+    captionLimit: 2200,
+    hashtagLimit: 10,
+  },
+  {
+    id: "instagram-reels",
+    label: "Reels Cover",
+    aspectRatio: "9:16",
+    width: 1080,
+    height: 1920,
+    promptFormat: "vertical 9:16 cover photo for an Instagram Reel, with the subject centered",
+    captionLimit: 2200,
+    hashtagLimit: 30,
+  },
+  {
+    id: "tiktok",
+    label: "TikTok",
+    aspectRatio: "9:16",
+    width: 1080,
+    height: 1920,
+    promptFormat: "vertical 9:16 photo for TikTok, casual handheld phone aesthetic",
+    captionLimit: 4000,
+    hashtagLimit: 10,
+  },
+  {
+    id: "youtube-thumbnail",
+    label: "YouTube Thumbnail",
+    aspectRatio: "16:9",
+    width: 1280,
+    height: 720,
+    promptFormat: "landscape 16:9 YouTube thumbnail photo with a bold, eye-catching composition",
+    captionLimit: 5000,
+    hashtagLimit: 15,
+  },
+  {
+    id: "web-banner",
+    label: "Web Banner",
+    aspectRatio: "16:9",
+    width: 1920,
+    height: 1080,
+    promptFormat: "wide landscape 16:9 banner photo with space on one side for text",
+    captionLimit: 160,
+    hashtagLimit: 0,
+  },
+];
+
+export const DEFAULT_PLATFORM = PLATFORM_PRESETS[0];
+
+export const getPlatformPreset = (id: string): PlatformPreset =>
+  PLATFORM_PRESETS.find(p => p.id === id) ?? DEFAULT_PLATFORM;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+/**
+ * Resizes an image to the preset's exact pixel size.
+ * 'pad' letterboxes the whole image on a solid background, 'crop' fills the frame and trims the overflow.
+ */
+export const exportForPlatform = async (
+  imageDataUrl: string,
+  preset: PlatformPreset,
+  fit: ExportFit = 'pad',
+  padColor: string = '#ffffff'
+): Promise<string> => {
+  const img = await loadImage(imageDataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = preset.width;
+  canvas.height = preset.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+
+  const scale = fit === 'pad'
+    ? Math.min(preset.width / img.width, preset.height / img.height)
+    : Math.max(preset.width / img.width, preset.height / img.height);
+  const width = img.width * scale;
+  const height = img.height * scale;
+
+  if (fit === 'pad') {
+    ctx.fillStyle = padColor;
+    ctx.fillRect(0, 0, preset.width, preset.height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, (preset.width - width) / 2, (preset.height - height) / 2, width, height);
+
+  return canvas.toDataURL('image/png');
+};
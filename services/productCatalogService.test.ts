@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PLATFORM } from './platformService';
+import { buildUGCPrompt } from './promptService';
+import {
+  filterProducts,
+  importProductFeed,
+  parseCsv,
+  parseProductFeed,
+  toProductReference,
+  type ProductFeedRow,
+} from './productCatalogService';
+
+const row = (patch: Partial<ProductFeedRow>): ProductFeedRow => ({
+  sku: 'SKU-1', title: "Serum", description: "", category: "", tags: [], imageSource: "", ...patch,
+});
+
+describe('parseCsv', () => {
+  it('handles quoted commas, newlines, escaped quotes and CRLF', () => {
+    const csv = '\uFEFFsku,title\r\nA1,"Cream, ""rich""\nformula"\r\n\r\nA2,Plain\n';
+    expect(parseCsv(csv)).toEqual([['sku', 'title'], ['A1', 'Cream, "rich"\nformula'], ['A2', 'Plain']]);
+  });
+});
+
+describe('parseProductFeed', () => {
+  it('reads a Shopify CSV export, skipping extra variant rows and stripping HTML', () => {
+    const csv = [
+      'Handle,Title,Body (HTML),Type,Tags,Variant SKU,Image Src',
+      'glow-serum,Glow Serum,"<p>Vitamin C &amp; E</p><p>30ml</p>",Skincare,"face, bestseller",GS-30,https://cdn.example.com/gs.jpg',
+      'glow-serum,,,,,GS-50,https://cdn.example.com/gs-2.jpg',
+    ].join('\n');
+
+    expect(parseProductFeed(csv, 'products_export.csv')).toEqual([{
+      sku: 'GS-30',
+      title: "Glow Serum",
+      description: "Vitamin C & E 30ml",
+      category: "Skincare",
+      tags: ['face', 'bestseller'],
+      imageSource: 'https://cdn.example.com/gs.jpg',
+    }]);
+  });
+
+  it('reads Shopify products.json with nested variants and images', () => {
+    const json = JSON.stringify({
+      products: [{ id: 1, title: "Night Cream", body_html: "<b>Rich</b>", product_type: "Skincare", tags: "night", variants: [{ sku: 'NC-1' }], images: [{ src: 'https://cdn.example.com/nc.jpg' }] }],
+    });
+    expect(parseProductFeed(json, 'products.json')).toEqual([
+      { sku: 'NC-1', title: "Night Cream", description: "Rich", category: "Skincare", tags: ['night'], imageSource: 'https://cdn.example.com/nc.jpg' },
+    ]);
+  });
+
+  it('rejects CSV without a title column', () => {
+    expect(() => parseProductFeed('sku,price\nA1,10', 'feed.csv')).toThrow(/title/);
+  });
+});
+
+describe('importProductFeed', () => {
+  it('uses selected local files, downloads URLs and records images that fail', async () => {
+    const fetchMock = vi.fn(async (url: string) => url.includes('missing')
+      ? { ok: false, status: 404 }
+      : { ok: true, status: 200, blob: async () => new Blob(['img'], { type: 'image/jpeg' }) });
+    vi.stubGlobal('fetch', fetchMock);
+    const progress = vi.fn();
+
+    const products = await importProductFeed([
+      row({ sku: 'LOCAL', imageSource: 'photos/Local.JPG' }),
+      row({ sku: 'REMOTE', imageSource: 'https://cdn.example.com/remote.jpg' }),
+      row({ sku: 'GONE', imageSource: 'https://cdn.example.com/missing.jpg' }),
+      row({ sku: 'UNSELECTED', imageSource: 'other.jpg' }),
+    ], [new File(['x'], 'local.jpg', { type: 'image/jpeg' })], progress);
+    vi.unstubAllGlobals();
+
+    expect(products.map(p => [p.sku, p.image?.base64 ?? p.imageError])).toEqual([
+      ['LOCAL', 'dGVzdA=='],
+      ['REMOTE', 'dGVzdA=='],
+      ['GONE', 'Image download failed (404)'],
+      ['UNSELECTED', 'File "other.jpg" was not selected'],
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(progress).toHaveBeenLastCalledWith(4, 4);
+  });
+});
+
+describe('catalog products', () => {
+  const product = {
+    ...row({ sku: 'GS-30', title: "Glow Serum", description: "Amber glass dropper bottle, gold cap.", category: "Skincare", tags: ['face'] }),
+    image: { base64: 'dGVzdA==', mimeType: 'image/jpeg' },
+    imageError: null,
+    importedAt: 0,
+  };
+
+  it('filters by category and by SKU, title or tag', () => {
+    const other = { ...product, sku: 'LB-1', title: "Lip Balm", category: "Lips", tags: [] };
+    expect(filterProducts([product, other], { query: '', category: 'Lips' })).toEqual([other]);
+    expect(filterProducts([product, other], { query: 'FACE', category: '' })).toEqual([product]);
+    expect(filterProducts([product, other], { query: 'lb-', category: '' })).toEqual([other]);
+  });
+
+  it('puts the title and description into the prompt', () => {
+    const prompt = buildUGCPrompt({
+      people: [{ base64: 'cA==', mimeType: 'image/jpeg', role: "" }],
+      products: [toProductReference(product)!],
+      sceneDescription: "A sunny bathroom",
+      platform: DEFAULT_PLATFORM,
+    });
+    expect(prompt).toContain("Product — Glow Serum");
+    expect(prompt).toContain("Product 1 (Glow Serum) details: Amber glass dropper bottle, gold cap.");
+  });
+});
@@ -0,0 +1,231 @@
+import type { CatalogProduct, ReferenceImage } from "../types";
+import { getAll, put, remove } from "./db";
+import { resizeImage } from "./imageResize";
+import { runWithConcurrency } from "./batchService";
+
+/** A product as read from a feed, before its image is loaded. */
+export type ProductFeedRow = Omit<CatalogProduct, 'image' | 'imageError' | 'importedAt'>;
+
+/**
+ * Accepted column names for each field, lowercased. Covers plain exports as well as
+ * Shopify ("Variant SKU", "Body (HTML)", "Image Src") and Google Merchant ("image_link") feeds.
+ */
+const COLUMN_ALIASES: Record<keyof ProductFeedRow, string[]> = {
+  sku: ['sku', 'variant sku', 'variant_sku', 'id', 'product id', 'handle'],
+  title: ['title', 'name', 'product name', 'product title'],
+  description: ['description', 'body (html)', 'body_html', 'body', 'product description'],
+  category: ['category', 'type', 'product type', 'product_type', 'collection'],
+  tags: ['tags', 'keywords'],
+  imageSource: ['image', 'image url', 'image_url', 'image src', 'image_src', 'image_link', 'image file', 'file'],
+};
+
+const IMAGE_CONCURRENCY = 4;
+
+/** Parses RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = "";
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/** Feed descriptions are often HTML; the prompt only needs the text. */
+export const stripHtml = (html: string): string =>
+  html
+    .replace(/<(br|\/p|\/li|\/h\d)\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#\d+|[a-z]+);/gi, (entity, name: string) =>
+      name.startsWith('#') ? String.fromCharCode(Number(name.slice(1))) : ENTITIES[name.toLowerCase()] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const toTags = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(String) : String(value ?? '').split(','))
+    .map(tag => tag.trim())
+    .filter(Boolean);
+
+/** Picks the first non-empty value among a record's aliased keys. */
+const pick = (record: Record<string, unknown>, field: keyof ProductFeedRow): unknown => {
+  for (const alias of COLUMN_ALIASES[field]) {
+    const value = record[alias];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+};
+
+/** Lowercases keys so lookups match COLUMN_ALIASES. */
+const normalizeKeys = (record: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => [key.trim().toLowerCase(), value]));
+
+/** Reads nested Shopify product JSON: first variant's SKU and first image's src. */
+const flattenShopify = (record: Record<string, unknown>): Record<string, unknown> => {
+  const variants = record.variants as { sku?: string }[] | undefined;
+  const images = record.images as { src?: string }[] | undefined;
+  const image = record.image as { src?: string } | string | undefined;
+  return {
+    ...record,
+    sku: record.sku ?? variants?.find(v => v.sku)?.sku ?? record.handle ?? record.id,
+    image: typeof image === 'string' ? image : image?.src ?? images?.[0]?.src,
+  };
+};
+
+const toRow = (record: Record<string, unknown>): ProductFeedRow | null => {
+  const title = String(pick(record, 'title') ?? '').trim();
+  const sku = String(pick(record, 'sku') ?? '').trim();
+  // Shopify CSVs repeat the handle on extra variant and image rows without a title.
+  if (!title || !sku) return null;
+  return {
+    sku,
+    title,
+    description: stripHtml(String(pick(record, 'description') ?? '')),
+    category: String(pick(record, 'category') ?? '').trim(),
+    tags: toTags(pick(record, 'tags')),
+    imageSource: String(pick(record, 'imageSource') ?? '').trim(),
+  };
+};
+
+/**
+ * Reads a CSV or JSON product feed into rows, one per SKU (the first occurrence wins).
+ * JSON may be an array of products or an object with a `products` array, as in Shopify's products.json.
+ */
+export const parseProductFeed = (text: string, fileName: string): ProductFeedRow[] => {
+  let records: Record<string, unknown>[];
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : parsed?.products;
+    if (!Array.isArray(list)) throw new Error("JSON feed must be an array of products or contain a \"products\" array.");
+    records = list.map(item => flattenShopify(normalizeKeys(item)));
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error("The feed is empty.");
+    const columns = header.map(name => name.trim().toLowerCase());
+    if (!COLUMN_ALIASES.title.some(alias => columns.includes(alias))) {
+      throw new Error("CSV feed needs a title or name column.");
+    }
+    records = rows.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])));
+  }
+
+  const seen = new Set<string>();
+  return records.flatMap(record => {
+    const row = toRow(record);
+    if (!row || seen.has(row.sku)) return [];
+    seen.add(row.sku);
+    return [row];
+  });
+};
+
+const baseName = (path: string) => path.split(/[\\/]/).pop()!.toLowerCase();
+
+/** Loads a row's image from the matching local file, or downloads it when it is a URL. */
+const loadProductImage = async (row: ProductFeedRow, localFiles: Map<string, File>): Promise<File> => {
+  const local = row.imageSource && localFiles.get(baseName(row.imageSource));
+  if (local) return local;
+  if (!/^https?:\/\//i.test(row.imageSource)) {
+    throw new Error(row.imageSource ? `File "${row.imageSource}" was not selected` : "No image in feed");
+  }
+  const response = await fetch(row.imageSource);
+  if (!response.ok) throw new Error(`Image download failed (${response.status})`);
+  const blob = await response.blob();
+  return new File([blob], baseName(row.imageSource), { type: blob.type });
+};
+
+/**
+ * Resolves every row's image through the same resize as manual uploads. Images that fail to
+ * load (missing files, CORS, dead links) leave the product without an image instead of failing the import.
+ */
+export const importProductFeed = async (
+  rows: ProductFeedRow[],
+  localFiles: File[] = [],
+  onProgress?: (done: number, total: number) => void
+): Promise<CatalogProduct[]> => {
+  const files = new Map(localFiles.map(file => [file.name.toLowerCase(), file]));
+  const products: CatalogProduct[] = new Array(rows.length);
+  let done = 0;
+
+  await runWithConcurrency(rows.map((row, index) => async () => {
+    let image: CatalogProduct['image'] = null;
+    let imageError: string | null = null;
+    try {
+      const file = await loadProductImage(row, files);
+      if (file.type && !file.type.startsWith('image')) throw new Error("Not an image");
+      image = { base64: (await resizeImage(file)).base64, mimeType: 'image/jpeg' };
+    } catch (err) {
+      imageError = err instanceof Error ? err.message : "Image could not be loaded";
+    }
+    products[index] = { ...row, image, imageError, importedAt: Date.now() };
+    onProgress?.(++done, rows.length);
+  }), IMAGE_CONCURRENCY);
+
+  return products;
+};
+
+/** Returns every stored product, sorted by title. */
+export const listProducts = async (): Promise<CatalogProduct[]> => {
+  const products = await getAll<CatalogProduct>('products');
+  return products.sort((a, b) => a.title.localeCompare(b.title));
+};
+
+/** Stores products, replacing any with the same SKU. */
+export const saveProducts = async (products: CatalogProduct[]): Promise<void> => {
+  for (const product of products) {
+    await put('products', product);
+  }
+};
+
+export const deleteProduct = (sku: string): Promise<void> => remove('products', sku);
+
+export interface ProductFilter {
+  /** Matched against SKU, title and tags, case-insensitively. */
+  query: string;
+  /** Exact category, or empty for all. */
+  category: string;
+}
+
+export const filterProducts = (products: CatalogProduct[], { query, category }: ProductFilter): CatalogProduct[] => {
+  const needle = query.trim().toLowerCase();
+  return products.filter(product =>
+    (!category || product.category === category) &&
+    (!needle || [product.sku, product.title, ...product.tags].some(value => value.toLowerCase().includes(needle)))
+  );
+};
+
+/** The product as a prompt reference: its title names it and its description details it. */
+export const toProductReference = (product: CatalogProduct): ReferenceImage | null =>
+  product.image
+    ? { ...product.image, role: product.title, description: product.description }
+    : null;
@@ -0,0 +1,146 @@
+import type { ImageGenerationRequest, ImageRefinementRequest, PromptModifiers, PromptSettings, ReferenceImage } from "../types";
+
+export const SCENE_PLACEHOLDER = '{scene}';
+export const SUBJECTS_PLACEHOLDER = '{subjects}';
+export const FORMAT_PLACEHOLDER = '{format}';
+export const PLATFORM_PLACEHOLDER = '{platform}';
+
+const DEFAULT_LIGHTING = "Soft, natural, lifestyle aesthetic";
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  atmosphere: "",
+  modifiers: {
+    lighting: "",
+    timeOfDay: "",
+    season: "",
+    cameraAngle: "",
+    lens: "",
+    mood: "",
+    colorPalette: "",
+  },
+  avoid: [],
+};
+
+/** Labels and suggested values for each structured modifier, in display order. */
+export const PROMPT_MODIFIER_OPTIONS: { key: keyof PromptModifiers; label: string; suggestions: string[] }[] = [
+  { key: "lighting", label: "Lighting", suggestions: ["Soft window light", "Golden hour glow", "Harsh direct flash", "Neon accent lighting", "Overcast diffused light", "Warm tungsten indoor light"] },
+  { key: "timeOfDay", label: "Time of day", suggestions: ["Early morning", "Midday", "Late afternoon", "Sunset", "Blue hour", "Night"] },
+  { key: "season", label: "Season", suggestions: ["Spring", "Summer", "Autumn", "Winter", "Holiday season"] },
+  { key: "cameraAngle", label: "Camera angle", suggestions: ["Eye level", "Selfie at arm's length", "Mirror selfie", "High angle", "Low angle", "Over the shoulder", "Close-up"] },
+  { key: "lens", label: "Lens", suggestions: ["Smartphone wide camera", "Smartphone portrait mode", "35mm", "50mm shallow depth of field", "85mm portrait"] },
+  { key: "mood", label: "Mood", suggestions: ["Cozy", "Energetic", "Calm", "Playful", "Luxurious", "Candid"] },
+  { key: "colorPalette", label: "Color palette", suggestions: ["Warm earthy tones", "Cool pastels", "Vibrant saturated colors", "Muted neutrals", "Monochrome"] },
+];
+
+/**
+ * Assembles the editable prompt template from the user's settings.
+ * Scene, platform and output format stay as placeholders so one template can drive a whole batch.
+ */
+export const buildPromptTemplate = ({ atmosphere, modifiers, avoid }: PromptSettings): string => {
+  const details = [
+    modifiers.timeOfDay && `Time of day: ${modifiers.timeOfDay}.`,
+    modifiers.season && `Season: ${modifiers.season}.`,
+    modifiers.cameraAngle && `Camera angle: ${modifiers.cameraAngle}.`,
+    modifiers.lens && `Lens: ${modifiers.lens}.`,
+    modifiers.mood && `Mood: ${modifiers.mood}.`,
+    modifiers.colorPalette && `Color palette: ${modifiers.colorPalette}.`,
+  ].filter(Boolean);
+
+  const lines = [
+    `Generate a realistic User Generated Content (UGC) photo for ${PLATFORM_PLACEHOLDER}.`,
+    `Atmosphere: ${SCENE_PLACEHOLDER}.${atmosphere.trim() ? ` ${atmosphere.trim()}` : ''}`,
+    ``,
+    SUBJECTS_PLACEHOLDER,
+    `Lighting: ${modifiers.lighting || DEFAULT_LIGHTING}.`,
+    ...details,
+    `Format: High-quality ${FORMAT_PLACEHOLDER}.`,
+  ];
+
+  const avoidList = avoid.map(item => item.trim()).filter(Boolean);
+  if (avoidList.length > 0) {
+    lines.push(`Avoid: ${avoidList.join(', ')}.`);
+  }
+
+  return lines.join('\n  ');
+};
+
+/** Feed descriptions can run to pages of marketing copy; the opening is what describes the item. */
+const MAX_PRODUCT_DESCRIPTION = 500;
+
+/** Catalog details for products that carry them, so the model renders the exact item and its packaging. */
+const describeProductDetails = (products: ReferenceImage[]): string[] =>
+  products.flatMap((image, i) => {
+    const description = image.description?.trim().replace(/\s+/g, ' ').slice(0, MAX_PRODUCT_DESCRIPTION).replace(/[.\s]+$/, '');
+    if (!description) return [];
+    return [`Product ${i + 1} (${image.role.trim() || 'product'}) details: ${description}. Match its shape, colors, label and text exactly.`];
+  });
+
+/**
+ * Describes the reference images in the order they are sent (people first, then products).
+ * A single unnamed person and product keep the original two-line wording.
+ */
+export const describeSubjects = (people: ReferenceImage[], products: ReferenceImage[]): string => {
+  const isSimple = people.length === 1 && products.length === 1 && !people[0].role.trim() && !products[0].role.trim();
+  if (isSimple) {
+    return [
+      `The image must show the person from the provided portrait and the product from the product photo.`,
+      `The person should be using or holding the product naturally in the environment.`,
+      ...describeProductDetails(products),
+    ].join('\n  ');
+  }
+
+  const name = (kind: string, image: ReferenceImage, index: number) => `${kind} — ${image.role.trim() || `${kind} ${index + 1}`}`;
+  const references = [
+    ...people.map((image, i) => name('Person', image, i)),
+    ...products.map((image, i) => name('Product', image, i)),
+  ].map((label, i) => `Image ${i + 1}: ${label}`);
+
+  const subject = people.length > 1 ? 'The people' : 'The person';
+  const object = products.length > 1 ? 'the products' : 'the product';
+
+  return [
+    `The reference images are provided in this order:`,
+    ...references,
+    `The image must show every person and every product from the reference images, each one clearly recognizable.`,
+    `${subject} should be using or holding ${object} naturally in the environment.`,
+    ...describeProductDetails(products),
+  ].join('\n  ');
+};
+
+/** Explains the earlier carousel frames that follow the people and products, if any were sent. */
+export const describeContinuity = (frameCount: number): string[] =>
+  frameCount === 0 ? [] : [
+    `The last ${frameCount === 1 ? 'image is an earlier frame' : `${frameCount} images are earlier frames`} of the same carousel.`,
+    `Keep the same person, face, hair, outfit, product and color grading as in ${frameCount === 1 ? 'that frame' : 'those frames'}; only the moment and action change.`,
+  ];
+
+/** Fills a prompt template's placeholders for a concrete request. */
+export const fillPromptTemplate = (
+  template: string,
+  { sceneDescription, people, products, platform, continuity = [] }: Omit<ImageGenerationRequest, 'promptTemplate'>
+): string =>
+  template
+    .split(SCENE_PLACEHOLDER).join(sceneDescription)
+    .split(SUBJECTS_PLACEHOLDER).join([describeSubjects(people, products), ...describeContinuity(continuity.length)].join('\n  '))
+    .split(FORMAT_PLACEHOLDER).join(platform.promptFormat)
+    .split(PLATFORM_PLACEHOLDER).join(platform.label);
+
+/**
+ * Builds the text prompt sent alongside the person and product images.
+ */
+export const buildUGCPrompt = ({ promptTemplate, ...request }: ImageGenerationRequest): string =>
+  fillPromptTemplate(promptTemplate ?? buildPromptTemplate(DEFAULT_PROMPT_SETTINGS), request);
+
+/**
+ * Builds the prompt for a follow-up edit. The image being edited is sent first, followed by the original references.
+ */
+export const buildRefinePrompt = ({ instruction, people, products, platform, brandGuidelines }: ImageRefinementRequest): string =>
+  [
+    `Edit the first provided image, a realistic User Generated Content (UGC) photo, according to this instruction:`,
+    `"${instruction.trim()}"`,
+    ``,
+    `Change only what the instruction asks for. Keep the same people, faces, outfits, products, scene and composition otherwise.`,
+    `The remaining ${people.length + products.length} images are the original references for the people and products; keep them faithful to those.`,
+    `Format: High-quality ${platform.promptFormat}.`,
+    ...(brandGuidelines ? [``, brandGuidelines] : []),
+  ].join('\n  ');
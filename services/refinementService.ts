@@ -0,0 +1,55 @@
+import type { ImageVersion, InlineImage, RefinementSession } from "../types";
+
+const createVersionId = (): string =>
+  `v-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/** Starts a version tree whose root is an existing generated image. */
+export const createSession = (jobId: string, root: Omit<ImageVersion, 'id' | 'parentId' | 'instruction' | 'createdAt'>): RefinementSession => {
+  const version: ImageVersion = { ...root, id: createVersionId(), parentId: null, instruction: null, createdAt: Date.now() };
+  return { jobId, versions: [version], activeVersionId: version.id };
+};
+
+/** Adds a refined version as a child of `parentId` and makes it the active one. */
+export const addVersion = (
+  session: RefinementSession,
+  parentId: string,
+  version: Pick<ImageVersion, 'image' | 'instruction' | 'prompt' | 'model'>
+): RefinementSession => {
+  const child: ImageVersion = { ...version, id: createVersionId(), parentId, createdAt: Date.now() };
+  return { ...session, versions: [...session.versions, child], activeVersionId: child.id };
+};
+
+export const getVersion = (session: RefinementSession, id: string): ImageVersion | undefined =>
+  session.versions.find(v => v.id === id);
+
+/** Versions from the root down to `id`, i.e. the conversation that led to it. */
+export const getLineage = (session: RefinementSession, id: string): ImageVersion[] => {
+  const lineage: ImageVersion[] = [];
+  let current = getVersion(session, id);
+  while (current) {
+    lineage.unshift(current);
+    current = current.parentId ? getVersion(session, current.parentId) : undefined;
+  }
+  return lineage;
+};
+
+/** Depth-first listing of the tree with each version's depth, for rendering as an outline. */
+export const flattenTree = (session: RefinementSession): { version: ImageVersion; depth: number }[] => {
+  const result: { version: ImageVersion; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    session.versions
+      .filter(v => v.parentId === parentId)
+      .forEach(version => {
+        result.push({ version, depth });
+        visit(version.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return result;
+};
+
+export const dataUrlToInlineImage = (dataUrl: string): InlineImage => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/^data:(.*?);base64$/)?.[1] ?? 'image/png';
+  return { base64, mimeType };
+};
@@ -0,0 +1,86 @@
+import { CancelledError, GenerationError, TimeoutError, toGenerationError } from "./generationErrors";
+
+export interface RetryOptions {
+  /** Total attempts, including the first. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** A Retry-After longer than this is not waited out; the error is surfaced so the user can decide. */
+  maxRetryAfterMs?: number;
+  /** Per-attempt limit; the attempt's signal is aborted and a `TimeoutError` thrown when it passes. */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_RETRY: Required<Omit<RetryOptions, 'signal'>> = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20_000,
+  maxRetryAfterMs: 30_000,
+  timeoutMs: 120_000,
+};
+
+/**
+ * Resolves after `ms`, or rejects with `CancelledError` as soon as `signal` aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError(signal.reason));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/** "Full jitter" exponential backoff: a random wait up to base * 2^attempt, capped. */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+/**
+ * Runs `task` one attempt at a time until it succeeds, fails with a non-retryable
+ * `GenerationError`, or runs out of attempts. Each attempt receives its own signal that aborts
+ * on cancellation or when the attempt times out.
+ */
+export const withRetry = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts, baseDelayMs, maxDelayMs, maxRetryAfterMs, timeoutMs } = { ...DEFAULT_RETRY, ...options };
+  const { signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new CancelledError(signal.reason);
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      // The reason lets the task tell a timeout from a cancellation.
+      controller.abort(new TimeoutError(timeoutMs));
+    }, timeoutMs);
+
+    let error: GenerationError;
+    try {
+      return await task(controller.signal);
+    } catch (err) {
+      error = timedOut ? new TimeoutError(timeoutMs, err) : toGenerationError(err);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (signal?.aborted) throw new CancelledError(signal.reason);
+    const tooLong = error.retryAfterMs !== null && error.retryAfterMs > maxRetryAfterMs;
+    if (!error.retryable || tooLong || attempt + 1 >= maxAttempts) throw error;
+
+    console.warn(`Attempt ${attempt + 1} failed (${error.code}), retrying.`);
+    await sleep(error.retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs), signal);
+  }
+};
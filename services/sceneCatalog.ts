@@ -0,0 +1,192 @@
+import type { SceneCategory, SceneOption } from "../types";
+
+const STORAGE_KEY = 'ugc-studio:scene-catalog';
+const CATALOG_VERSION = 1;
+
+const DEFAULT_CATEGORIES: { id: string; label: string; icon: string; subOptions: string[] }[] = [
+  {
+    id: "lifestyle",
+    label: "Lifestyle & Daily Routine",
+    icon: "🏠",
+    subOptions: [
+      "Home",
+      "Living Room",
+      "Bedroom",
+      "Kitchen",
+      "Balcony",
+      "Office desk setup / workspace",
+      "Co-working space",
+      "Study table / college library",
+      "Gym or fitness studio",
+      "Morning routine bathroom setup",
+      "Kitchen countertop"
+    ]
+  },
+  {
+    id: "outdoor",
+    label: "Outdoor & Public Spaces",
+    icon: "🏙️",
+    subOptions: [
+      "Café / Coffee shop",
+      "Street style shots",
+      "Shopping mall / storefronts",
+      "Park or garden",
+      "Beach / lake side",
+      "Rooftop terrace",
+      "Outdoor market",
+      "Metro station aesthetics"
+    ]
+  },
+  {
+    id: "creative",
+    label: "Creative & Aesthetic Spots",
+    icon: "🎨",
+    subOptions: [
+      "Neon light rooms",
+      "Art gallery or museum",
+      "Vintage/retro-themed cafés",
+      "Bookstore or reading corner",
+      "Graffiti walls",
+      "Minimal clean white wall",
+      "Wooden textured background",
+      "Aesthetic curtains with natural light"
+    ]
+  },
+  {
+    id: "social",
+    label: "Social & Event Spaces",
+    icon: "🎉",
+    subOptions: [
+      "Night club environment",
+      "College campus",
+      "Event stalls",
+      "Music concert ambience",
+      "Friends’ hangout spaces",
+      "Restaurant table setup"
+    ]
+  },
+  {
+    id: "nature",
+    label: "Nature & Travel Themes",
+    icon: "🌿",
+    subOptions: [
+      "Forest trail",
+      "Hill station viewpoint",
+      "Waterfall spot",
+      "Bicycle ride background",
+      "Car interior shots",
+      "Travel suitcase / airport lounge"
+    ]
+  },
+  {
+    id: "product",
+    label: "Product-Focused",
+    icon: "📸",
+    subOptions: [
+      "Flat-lay studio setup",
+      "Solid color backdrop",
+      "Minimal aesthetic shelf styling",
+      "Marble/stone textured surface",
+      "Wooden tabletop",
+      "Soft fabric textures",
+      "LED-lit product table"
+    ]
+  }
+];
+
+const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const createCatalogId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const DEFAULT_CATALOG: SceneCategory[] = DEFAULT_CATEGORIES.map(category => ({
+  ...category,
+  subOptions: category.subOptions.map(label => ({
+    id: `${category.id}-${slugify(label)}`,
+    label,
+    prompt: "",
+  })),
+}));
+
+/** The text sent to the model for a scene: its prompt fragment, or the label when none is set. */
+export const getSceneDescription = (option: SceneOption): string =>
+  option.prompt.trim() || option.label;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown, path: string, required: boolean): string => {
+  if (value === undefined && !required) return "";
+  if (typeof value !== 'string' || (required && !value.trim())) {
+    throw new Error(`${path} must be a ${required ? 'non-empty ' : ''}string.`);
+  }
+  return value;
+};
+
+/**
+ * Validates an imported catalog and normalises it into `SceneCategory[]`.
+ * Accepts either the exported `{ version, categories }` envelope or a bare category array.
+ * Missing ids are generated; duplicate ids are rejected.
+ */
+export const parseCatalog = (data: unknown): SceneCategory[] => {
+  const categories = isRecord(data) ? data.categories : data;
+  if (!Array.isArray(categories)) {
+    throw new Error("Catalog must contain a \"categories\" array.");
+  }
+  if (isRecord(data) && data.version !== undefined && data.version !== CATALOG_VERSION) {
+    throw new Error(`Unsupported catalog version ${String(data.version)}.`);
+  }
+
+  const seenIds = new Set<string>();
+  const claimId = (id: string, path: string) => {
+    if (seenIds.has(id)) throw new Error(`${path} duplicates id "${id}".`);
+    seenIds.add(id);
+    return id;
+  };
+
+  return categories.map((category, i) => {
+    const path = `categories[${i}]`;
+    if (!isRecord(category)) throw new Error(`${path} must be an object.`);
+    if (!Array.isArray(category.subOptions)) {
+      throw new Error(`${path}.subOptions must be an array.`);
+    }
+
+    return {
+      id: claimId(readString(category.id, `${path}.id`, false) || createCatalogId('category'), `${path}.id`),
+      label: readString(category.label, `${path}.label`, true),
+      icon: readString(category.icon, `${path}.icon`, false),
+      subOptions: category.subOptions.map((option, j) => {
+        const optionPath = `${path}.subOptions[${j}]`;
+        // Plain strings are accepted for catalogs written by hand.
+        if (typeof option === 'string') {
+          return { id: claimId(createCatalogId('scene'), optionPath), label: readString(option, optionPath, true), prompt: "" };
+        }
+        if (!isRecord(option)) throw new Error(`${optionPath} must be an object or string.`);
+        return {
+          id: claimId(readString(option.id, `${optionPath}.id`, false) || createCatalogId('scene'), `${optionPath}.id`),
+          label: readString(option.label, `${optionPath}.label`, true),
+          prompt: readString(option.prompt, `${optionPath}.prompt`, false),
+        };
+      }),
+    };
+  });
+};
+
+export const serializeCatalog = (categories: SceneCategory[]): string =>
+  JSON.stringify({ version: CATALOG_VERSION, categories }, null, 2);
+
+/** Loads the saved catalog, falling back to the built-in scenes if nothing valid is stored. */
+export const loadCatalog = (): SceneCategory[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseCatalog(JSON.parse(stored)) : DEFAULT_CATALOG;
+  } catch (err) {
+    console.error("Failed to load scene catalog, using defaults:", err);
+    return DEFAULT_CATALOG;
+  }
+};
+
+export const saveCatalog = (categories: SceneCategory[]): void => {
+  localStorage.setItem(STORAGE_KEY, serializeCatalog(categories));
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ImageGenerationRequest, StoryFrame } from '../types';
+import { CancelledError, QuotaExceededError } from './generationErrors';
+import { DEFAULT_PLATFORM } from './platformService';
+import {
+  DEFAULT_STORYLINE,
+  createFrames,
+  frameSceneDescription,
+  generateFrames,
+  getStorylineIssue,
+  moveItem,
+  pickContinuityFrames,
+} from './storyService';
+
+const request = {
+  people: [{ base64: 'cA==', mimeType: 'image/jpeg', role: "" }],
+  products: [{ base64: 'cQ==', mimeType: 'image/jpeg', role: "" }],
+  platform: DEFAULT_PLATFORM,
+};
+
+const finished = (frame: StoryFrame, base64: string): StoryFrame =>
+  ({ ...frame, status: 'succeeded', image: `data:image/png;base64,${base64}` });
+
+describe('storyline', () => {
+  it('needs 3 to 10 named beats', () => {
+    expect(getStorylineIssue(DEFAULT_STORYLINE)).toBeNull();
+    expect(getStorylineIssue({ ...DEFAULT_STORYLINE, beats: DEFAULT_STORYLINE.beats.slice(0, 2) })).toMatch(/at least 3/);
+    expect(getStorylineIssue({ ...DEFAULT_STORYLINE, beats: Array(11).fill(DEFAULT_STORYLINE.beats[0]) })).toMatch(/at most 10/);
+    expect(getStorylineIssue({ ...DEFAULT_STORYLINE, beats: [...DEFAULT_STORYLINE.beats, { id: 'x', label: " ", description: "" }] })).toMatch(/name/);
+  });
+
+  it('moves items and ignores moves past either end', () => {
+    expect(moveItem(['a', 'b', 'c'], 2, 0)).toEqual(['c', 'a', 'b']);
+    expect(moveItem(['a', 'b', 'c'], 0, -1)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('places each beat within the shared setting', () => {
+    expect(frameSceneDescription("A sunny bathroom", DEFAULT_STORYLINE.beats[1], 1, 3))
+      .toBe('A sunny bathroom. Carousel frame 2 of 3, "First use": Trying the product for the first time, focused and curious');
+    expect(frameSceneDescription("", { id: 'b', label: "Result", description: "" }, 2, 3)).toBe('Carousel frame 3 of 3, "Result"');
+  });
+});
+
+describe('pickContinuityFrames', () => {
+  const frames = createFrames({ setting: "", beats: [...DEFAULT_STORYLINE.beats, { id: 'b4', label: "Outro", description: "" }] });
+
+  it('sends the first and the latest earlier frame', () => {
+    const done = [finished(frames[0], 'MQ=='), finished(frames[1], 'Mg=='), finished(frames[2], 'Mw=='), frames[3]];
+    expect(pickContinuityFrames(done, 3).map(image => image.base64)).toEqual(['MQ==', 'Mw==']);
+    expect(pickContinuityFrames(done, 1).map(image => image.base64)).toEqual(['MQ==']);
+  });
+
+  it('uses a later frame when the opening frame is redone', () => {
+    const done = [frames[0], frames[1], finished(frames[2], 'Mw=='), finished(frames[3], 'NA==')];
+    expect(pickContinuityFrames(done, 0).map(image => image.base64)).toEqual(['Mw==']);
+  });
+});
+
+describe('generateFrames', () => {
+  it('generates in order, feeding finished frames forward and skipping failed ones', async () => {
+    const generate = vi.fn(async ({ sceneDescription }: ImageGenerationRequest) => {
+      if (sceneDescription.includes('frame 2')) throw new QuotaExceededError();
+      return { image: { base64: btoa(sceneDescription.slice(0, 16)), mimeType: 'image/png' }, model: 'm', prompt: sceneDescription };
+    });
+    const onUpdate = vi.fn();
+    const frames = createFrames(DEFAULT_STORYLINE);
+
+    const result = await generateFrames(frames, [0, 1, 2], { generate, request, setting: "", onUpdate });
+
+    expect(result.map(frame => frame.status)).toEqual(['succeeded', 'failed', 'succeeded']);
+    expect(result[1].error).toMatch(/Quota/);
+    const continuity = generate.mock.calls.map(([req]) => req.continuity?.map(image => image.base64));
+    expect(continuity).toEqual([[], [result[0].image!.split(',')[1]], [result[0].image!.split(',')[1]]]);
+    expect(onUpdate).toHaveBeenCalledWith(frames[0].id, { status: 'running', error: null });
+  });
+
+  it('stops at a cancellation and marks the rest cancelled', async () => {
+    const controller = new AbortController();
+    const generate = vi.fn(async () => {
+      controller.abort();
+      throw new CancelledError();
+    });
+
+    const result = await generateFrames(createFrames(DEFAULT_STORYLINE), [0, 1, 2], {
+      generate, request, setting: "", onUpdate: () => {}, signal: controller.signal,
+    });
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(result.map(frame => frame.status)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+  });
+});
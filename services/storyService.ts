@@ -0,0 +1,146 @@
+import type { GenerationOptions, ImageGenerationRequest, ImageGenerationResponse, InlineImage, StoryBeat, StoryFrame, Storyline } from "../types";
+import { CancelledError, toGenerationError } from "./generationErrors";
+import { dataUrlToInlineImage } from "./refinementService";
+
+const STORAGE_KEY = 'ugc-studio:storyline';
+
+/** Instagram carousels hold 2 to 10 slides; fewer than 3 is not much of a story. */
+export const MIN_BEATS = 3;
+export const MAX_BEATS = 10;
+
+/**
+ * Earlier frames sent with each new one: the opening frame anchors identity and the
+ * latest one carries the current styling. More mostly adds payload.
+ */
+export const MAX_CONTINUITY_FRAMES = 2;
+
+export const createBeat = (label: string = "", description: string = ""): StoryBeat => ({
+  id: `beat-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  label,
+  description,
+});
+
+export const DEFAULT_STORYLINE: Storyline = {
+  setting: "",
+  beats: [
+    { id: 'beat-unboxing', label: "Unboxing", description: "Opening the package and seeing the product for the first time, excited" },
+    { id: 'beat-first-use', label: "First use", description: "Trying the product for the first time, focused and curious" },
+    { id: 'beat-result', label: "Result", description: "Showing off the result with the product in view, happy and confident" },
+  ],
+};
+
+export const loadStoryline = (): Storyline => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_STORYLINE;
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed?.beats) ? { ...DEFAULT_STORYLINE, ...parsed } : DEFAULT_STORYLINE;
+  } catch (err) {
+    console.error("Failed to load storyline:", err);
+    return DEFAULT_STORYLINE;
+  }
+};
+
+export const saveStoryline = (storyline: Storyline): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(storyline));
+};
+
+/** Returns why the storyline cannot be generated yet, or null if it can. */
+export const getStorylineIssue = ({ beats }: Storyline): string | null => {
+  if (beats.length < MIN_BEATS) return `Add at least ${MIN_BEATS} beats.`;
+  if (beats.length > MAX_BEATS) return `A carousel holds at most ${MAX_BEATS} frames.`;
+  if (beats.some(beat => !beat.label.trim())) return "Every beat needs a name.";
+  return null;
+};
+
+/** Returns a copy of `items` with the item at `from` moved to `to`. */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length || from === to) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export const createFrames = ({ beats }: Storyline): StoryFrame[] =>
+  beats.map(beat => ({
+    id: `frame-${beat.id}-${Date.now().toString(36)}`,
+    beat,
+    status: 'queued',
+    image: null,
+    model: null,
+    prompt: null,
+    error: null,
+  }));
+
+/** Scene text for one frame: the shared setting plus where this beat falls in the story. */
+export const frameSceneDescription = (setting: string, beat: StoryBeat, index: number, total: number): string =>
+  [
+    setting.trim(),
+    `Carousel frame ${index + 1} of ${total}, "${beat.label.trim()}"${beat.description.trim() ? `: ${beat.description.trim()}` : ''}`,
+  ].filter(Boolean).join('. ');
+
+/**
+ * Picks the finished frames to send as consistency references for the frame at `index`:
+ * the first and the most recent earlier ones. A frame regenerated at the start of the
+ * story falls back to the nearest later frame instead.
+ */
+export const pickContinuityFrames = (frames: StoryFrame[], index: number): InlineImage[] => {
+  const earlier = frames.slice(0, index).filter(frame => frame.image);
+  const chosen = earlier.length > 0
+    ? [earlier[0], earlier[earlier.length - 1]]
+    : frames.slice(index + 1).filter(frame => frame.image).slice(0, 1);
+  return [...new Set(chosen)]
+    .slice(0, MAX_CONTINUITY_FRAMES)
+    .map(frame => dataUrlToInlineImage(frame.image!));
+};
+
+export interface StoryRunOptions {
+  generate: (request: ImageGenerationRequest, options?: GenerationOptions) => Promise<ImageGenerationResponse>;
+  /** People, products, platform and template shared by every frame. */
+  request: Omit<ImageGenerationRequest, 'sceneDescription' | 'continuity'>;
+  setting: string;
+  onUpdate: (frameId: string, patch: Partial<StoryFrame>) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Generates the frames at `indexes` one after another, so each can be sent the frames
+ * finished before it. A failed frame is skipped as a reference; cancelling stops the rest.
+ * Returns the frames as they ended up.
+ */
+export const generateFrames = async (
+  frames: StoryFrame[],
+  indexes: number[],
+  { generate, request, setting, onUpdate, signal }: StoryRunOptions
+): Promise<StoryFrame[]> => {
+  const current = [...frames];
+  const update = (index: number, patch: Partial<StoryFrame>) => {
+    current[index] = { ...current[index], ...patch };
+    onUpdate(current[index].id, patch);
+  };
+
+  for (const [position, index] of indexes.entries()) {
+    const frame = current[index];
+    if (signal?.aborted) {
+      for (const skipped of indexes.slice(position)) update(skipped, { status: 'cancelled' });
+      break;
+    }
+
+    update(index, { status: 'running', error: null });
+    try {
+      const { image, model, prompt } = await generate({
+        ...request,
+        sceneDescription: frameSceneDescription(setting, frame.beat, index, current.length),
+        continuity: pickContinuityFrames(current, index),
+      }, { signal });
+      update(index, { status: 'succeeded', image: `data:${image.mimeType};base64,${image.base64}`, model, prompt });
+    } catch (err) {
+      const error = toGenerationError(err);
+      update(index, error instanceof CancelledError
+        ? { status: 'cancelled' }
+        : { status: 'failed', error: error.message });
+    }
+  }
+  return current;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { UsageAttempt, UsageEntry, UsageSettings } from '../types';
+import { DEFAULT_USAGE_SETTINGS, createUsageEntry, estimateCost, getBudgetIssue, summarizeUsage, toUsageCsv } from './usageService';
+
+const prices = [{ model: 'img', inputPerMillionTokens: 0.5, outputPerMillionTokens: 30, perImage: 0.01 }];
+
+const attempt = (patch: Partial<UsageAttempt> = {}): UsageAttempt => ({
+  kind: 'image', model: 'img', inputTokens: 1000, outputTokens: 1000, images: 1, latencyMs: 800, outcome: 'success', ...patch,
+});
+
+const entry = (project: string, cost: number, timestamp: number, patch: Partial<UsageAttempt> = {}): UsageEntry =>
+  ({ ...createUsageEntry(attempt(patch), project, prices, timestamp), cost });
+
+describe('estimateCost', () => {
+  it('prices tokens per million plus a flat per-image price', () => {
+    expect(estimateCost(attempt(), prices)).toBeCloseTo(0.0005 + 0.03 + 0.01);
+    expect(estimateCost(attempt({ model: 'unknown' }), prices)).toBe(0);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('totals attempts, failures and cost per group', () => {
+    const entries = [entry("Acme", 1, 1), entry("Acme", 2, 2, { outcome: 'quota', images: 0 }), entry("", 4, 3)];
+    expect(summarizeUsage(entries, e => e.project || "Unassigned")).toEqual([
+      { key: "Acme", attempts: 2, failures: 1, images: 1, inputTokens: 2000, outputTokens: 2000, cost: 3 },
+      { key: "Unassigned", attempts: 1, failures: 0, images: 1, inputTokens: 1000, outputTokens: 1000, cost: 4 },
+    ]);
+  });
+});
+
+describe('getBudgetIssue', () => {
+  const entries = [entry("Acme", 3, 100), entry("Acme", 3, 200), entry("", 1, 200)];
+
+  it('blocks once the session spend reaches the session budget', () => {
+    const settings: UsageSettings = { ...DEFAULT_USAGE_SETTINGS, sessionBudget: 4 };
+    expect(getBudgetIssue(entries, settings, "Acme", 150)).toMatch(/Session budget of \$4\.00 reached \(\$4\.00 spent\)/);
+    expect(getBudgetIssue(entries, settings, "Acme", 201)).toBeNull();
+  });
+
+  it('counts all-time spend against the project budget', () => {
+    const settings: UsageSettings = { ...DEFAULT_USAGE_SETTINGS, projectBudgets: { Acme: 6, Unassigned: 5 } };
+    expect(getBudgetIssue(entries, settings, "Acme", 0)).toMatch(/for Acme reached/);
+    expect(getBudgetIssue(entries, settings, "", 0)).toBeNull();
+  });
+});
+
+describe('toUsageCsv', () => {
+  it('writes a header and quotes fields with commas or quotes', () => {
+    const csv = toUsageCsv([entry('Smith, "Jones" & Co', 0.0123, Date.UTC(2025, 2, 9, 12))]);
+    const [header, row] = csv.split('\r\n');
+    expect(header).toBe('timestamp,date,project,kind,model,outcome,input_tokens,output_tokens,images,latency_ms,cost_usd');
+    expect(row).toMatch(/^2025-03-09T12:00:00\.000Z,2025-03-09,"Smith, ""Jones"" & Co",image,img,success,1000,1000,1,800,0\.012300$/);
+  });
+
+  it('keeps project names that look like formulas from running in a spreadsheet', () => {
+    const rows = ['=HYPERLINK("x")', '+1', '-2', '@SUM(A1)'].map(project => toUsageCsv([entry(project, 0.01, 0)]).split('\r\n')[1].split(',')[2]);
+    expect(rows).toEqual([`"'=HYPERLINK(""x"")"`, "'+1", "'-2", "'@SUM(A1)"]);
+  });
+});
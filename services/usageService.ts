@@ -0,0 +1,155 @@
+import type { ModelPrice, UsageAttempt, UsageEntry, UsageSettings } from "../types";
+import { getAll, put } from "./db";
+import { GEMINI_IMAGE_MODEL, GEMINI_TEXT_MODEL } from "./geminiService";
+import { MOCK_MODEL } from "./mockProvider";
+
+const SETTINGS_KEY = 'ugc-studio:usage-settings';
+
+/** How entries made without an active brand kit are labelled. */
+export const UNASSIGNED_PROJECT = "Unassigned";
+
+/**
+ * List prices when this table was written. Image output is billed as tokens
+ * (about 1,290 per image), so the image model has no flat per-image price.
+ */
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: GEMINI_IMAGE_MODEL, inputPerMillionTokens: 0.3, outputPerMillionTokens: 30, perImage: 0 },
+  { model: GEMINI_TEXT_MODEL, inputPerMillionTokens: 0.3, outputPerMillionTokens: 2.5, perImage: 0 },
+  { model: MOCK_MODEL, inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0 },
+];
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_PRICES,
+  sessionBudget: null,
+  projectBudgets: {},
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_USAGE_SETTINGS;
+    const parsed = JSON.parse(stored);
+    const prices: ModelPrice[] = Array.isArray(parsed.prices) ? parsed.prices : [];
+    // Models added to the defaults later still get a price.
+    const missing = DEFAULT_PRICES.filter(price => !prices.some(p => p.model === price.model));
+    return { ...DEFAULT_USAGE_SETTINGS, ...parsed, prices: [...prices, ...missing] };
+  } catch (err) {
+    console.error("Failed to load usage settings:", err);
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** Estimated USD cost of an attempt; models missing from the table cost nothing. */
+export const estimateCost = (attempt: UsageAttempt, prices: ModelPrice[]): number => {
+  const price = prices.find(p => p.model === attempt.model);
+  if (!price) return 0;
+  return (attempt.inputTokens * price.inputPerMillionTokens + attempt.outputTokens * price.outputPerMillionTokens) / 1_000_000
+    + attempt.images * price.perImage;
+};
+
+export const createUsageEntry = (attempt: UsageAttempt, project: string, prices: ModelPrice[], now: number = Date.now()): UsageEntry => ({
+  ...attempt,
+  id: `usage-${now.toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  timestamp: now,
+  project,
+  cost: estimateCost(attempt, prices),
+});
+
+export const saveUsageEntry = (entry: UsageEntry): Promise<void> => put('usage', entry);
+
+/** Returns the whole ledger, oldest first. */
+export const listUsage = async (): Promise<UsageEntry[]> => {
+  const entries = await getAll<UsageEntry>('usage');
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const projectLabel = (project: string): string => project || UNASSIGNED_PROJECT;
+
+/** Local calendar day, e.g. "2025-03-09". */
+export const dayKey = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export interface UsageSummary {
+  key: string;
+  attempts: number;
+  failures: number;
+  images: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+/** Totals per group, sorted by group key. */
+export const summarizeUsage = (entries: UsageEntry[], groupBy: (entry: UsageEntry) => string): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>();
+  for (const entry of entries) {
+    const key = groupBy(entry);
+    const summary = groups.get(key) ?? { key, attempts: 0, failures: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    summary.attempts++;
+    if (entry.outcome !== 'success') summary.failures++;
+    summary.images += entry.images;
+    summary.inputTokens += entry.inputTokens;
+    summary.outputTokens += entry.outputTokens;
+    summary.cost += entry.cost;
+    groups.set(key, summary);
+  }
+  return [...groups.values()].sort((a, b) => a.key.localeCompare(b.key));
+};
+
+const totalCost = (entries: UsageEntry[]) => entries.reduce((sum, entry) => sum + entry.cost, 0);
+
+export const formatUsd = (amount: number): string =>
+  amount > 0 && amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+
+/**
+ * Returns why new generations are blocked, or null if they may start: the session's spend
+ * has reached its budget, or the project's all-time spend has reached the project's budget.
+ */
+export const getBudgetIssue = (entries: UsageEntry[], settings: UsageSettings, project: string, sessionStartedAt: number): string | null => {
+  const { sessionBudget, projectBudgets } = settings;
+  if (sessionBudget !== null) {
+    const spent = totalCost(entries.filter(entry => entry.timestamp >= sessionStartedAt));
+    if (spent >= sessionBudget) {
+      return `Session budget of ${formatUsd(sessionBudget)} reached (${formatUsd(spent)} spent). Raise it in Usage to keep generating.`;
+    }
+  }
+  const projectBudget = projectBudgets[projectLabel(project)];
+  if (projectBudget !== undefined) {
+    const spent = totalCost(entries.filter(entry => entry.project === project));
+    if (spent >= projectBudget) {
+      return `Budget of ${formatUsd(projectBudget)} for ${projectLabel(project)} reached (${formatUsd(spent)} spent). Raise it in Usage to keep generating.`;
+    }
+  }
+  return null;
+};
+
+/** Quotes a cell if needed. Text starting like a formula is prefixed with ' so spreadsheets show it instead of running it. */
+const csvField = (value: string | number): string => {
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per attempt, for finance. Costs are USD with six decimals so small attempts still add up. */
+export const toUsageCsv = (entries: UsageEntry[]): string => {
+  const header = ['timestamp', 'date', 'project', 'kind', 'model', 'outcome', 'input_tokens', 'output_tokens', 'images', 'latency_ms', 'cost_usd'];
+  const rows = entries.map(entry => [
+    new Date(entry.timestamp).toISOString(),
+    dayKey(entry.timestamp),
+    projectLabel(entry.project),
+    entry.kind,
+    entry.model,
+    entry.outcome,
+    entry.inputTokens,
+    entry.outputTokens,
+    entry.images,
+    entry.latencyMs,
+    entry.cost.toFixed(6),
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+};
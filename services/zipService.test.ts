@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, readUint32LE, utf8 } from './binary';
+import { createZip } from './zipService';
+
+const readUint16LE = (bytes: Uint8Array, offset: number) => bytes[offset] | bytes[offset + 1] << 8;
+
+describe('createZip', () => {
+  it('stores each entry with a central directory that points back to it', async () => {
+    const files = [
+      { name: '01-café.png', data: utf8('image bytes') },
+      { name: 'manifest.json', data: utf8('{"files":[]}') },
+    ];
+    const zip = new Uint8Array(await createZip(files).arrayBuffer());
+
+    const end = zip.length - 22;
+    expect(readUint32LE(zip, end)).toBe(0x06054b50);
+    expect(readUint16LE(zip, end + 10)).toBe(2);
+
+    let central = readUint32LE(zip, end + 16);
+    for (const file of files) {
+      expect(readUint32LE(zip, central)).toBe(0x02014b50);
+      const nameLength = readUint16LE(zip, central + 28);
+      const name = new TextDecoder().decode(zip.subarray(central + 46, central + 46 + nameLength));
+      expect(name).toBe(file.name);
+      expect(readUint32LE(zip, central + 16)).toBe(crc32(file.data));
+
+      const local = readUint32LE(zip, central + 42);
+      expect(readUint32LE(zip, local)).toBe(0x04034b50);
+      const dataStart = local + 30 + readUint16LE(zip, local + 26);
+      expect(Array.from(zip.subarray(dataStart, dataStart + file.data.length))).toEqual(Array.from(file.data));
+
+      central += 46 + nameLength;
+    }
+  });
+});
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(utf8('123456789'))).toBe(0xcbf43926);
+  });
+});
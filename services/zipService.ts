@@ -0,0 +1,75 @@
+import { concatBytes, crc32, uint16LE, uint32LE, utf8 } from "./binary";
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  modifiedAt?: number;
+}
+
+/** MS-DOS date and time, the only timestamps the base ZIP format stores. */
+const dosDateTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2);
+  const date = ((Math.max(1980, d.getFullYear()) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  return { time, date };
+};
+
+/** Marks names as UTF-8 so scene names with accents or emoji survive. */
+const FLAG_UTF8 = 0x0800;
+
+/**
+ * Builds an uncompressed ("stored") ZIP archive. The images inside are already compressed,
+ * so deflating them again would cost time for almost no gain.
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = utf8(entry.name);
+    const crc = crc32(entry.data);
+    const { time, date } = dosDateTime(entry.modifiedAt ?? Date.now());
+    const shared = concatBytes(
+      uint16LE(20), // version needed
+      uint16LE(FLAG_UTF8),
+      uint16LE(0), // stored
+      uint16LE(time),
+      uint16LE(date),
+      uint32LE(crc),
+      uint32LE(entry.data.length),
+      uint32LE(entry.data.length),
+      uint16LE(name.length),
+      uint16LE(0) // extra field length
+    );
+
+    const local = concatBytes(uint32LE(0x04034b50), shared, name, entry.data);
+    centralParts.push(concatBytes(
+      uint32LE(0x02014b50),
+      uint16LE(20), // version made by
+      shared,
+      uint16LE(0), // comment length
+      uint16LE(0), // disk number
+      uint16LE(0), // internal attributes
+      uint32LE(0), // external attributes
+      uint32LE(offset),
+      name
+    ));
+    localParts.push(local);
+    offset += local.length;
+  }
+
+  const central = concatBytes(...centralParts);
+  const end = concatBytes(
+    uint32LE(0x06054b50),
+    uint16LE(0),
+    uint16LE(0),
+    uint16LE(entries.length),
+    uint16LE(entries.length),
+    uint32LE(central.length),
+    uint32LE(offset),
+    uint16LE(0)
+  );
+
+  return new Blob([...localParts, central, end] as BlobPart[], { type: 'application/zip' });
+};
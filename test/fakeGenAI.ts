@@ -0,0 +1,34 @@
+import { vi } from 'vitest';
+
+/**
+ * Stand-in for `@google/genai`, used with `vi.mock('@google/genai', () => import('../test/fakeGenAI'))`.
+ * Tests script responses through `generateContent`.
+ */
+export const generateContent = vi.fn();
+
+/** Keys the fake client was constructed with, most recent last. */
+export const clientKeys: string[] = [];
+
+export class GoogleGenAI {
+  models = { generateContent };
+
+  constructor({ apiKey }: { apiKey: string }) {
+    clientKeys.push(apiKey);
+  }
+}
+
+export const imageResponse = (data = 'aW1hZ2U=', mimeType = 'image/png') => ({
+  candidates: [{ content: { parts: [{ inlineData: { data, mimeType } }] } }],
+  text: undefined,
+});
+
+export const textResponse = (text: string) => ({
+  candidates: [{ content: { parts: [{ text }] } }],
+  text,
+});
+
+export const emptyResponse = () => ({ candidates: [], text: undefined });
+
+/** Shaped like the SDK's ApiError: an HTTP status plus the JSON error body as the message. */
+export const apiError = (status: number, body: object) =>
+  Object.assign(new Error(JSON.stringify(body)), { name: 'ApiError', status });
@@ -0,0 +1,99 @@
+import '@testing-library/jest-dom/vitest';
+import 'fake-indexeddb/auto';
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
+
+/** Pixel size reported for every image loaded under test. Override per test when sizes matter. */
+export const testImageSize = { width: 800, height: 600 };
+
+/**
+ * jsdom has no canvas or image decoding. Images "load" on the next tick with `testImageSize`,
+ * and canvases record calls without drawing, returning a fixed JPEG data URL.
+ */
+const TEST_DATA_URL = 'data:image/jpeg;base64,dGVzdA==';
+
+Object.defineProperty(HTMLImageElement.prototype, 'src', {
+  configurable: true,
+  get() {
+    return this.getAttribute('src') ?? '';
+  },
+  set(value: string) {
+    this.setAttribute('src', value);
+    for (const key of ['width', 'naturalWidth'] as const) {
+      Object.defineProperty(this, key, { configurable: true, value: testImageSize.width });
+    }
+    for (const key of ['height', 'naturalHeight'] as const) {
+      Object.defineProperty(this, key, { configurable: true, value: testImageSize.height });
+    }
+    setTimeout(() => this.dispatchEvent(new Event('load')));
+  },
+});
+
+// Every 2D context method becomes a no-op; gradients still need an addColorStop and
+// pixel reads return a blank image of the requested size.
+const contextStub = new Proxy({} as Record<string | symbol, unknown>, {
+  get: (target, key) => key in target
+    ? target[key]
+    : key === 'createLinearGradient' || key === 'createRadialGradient'
+      ? () => ({ addColorStop: () => {} })
+      : key === 'measureText'
+        ? () => ({ width: 10 })
+        : key === 'getImageData'
+          ? (_x: number, _y: number, width: number, height: number) =>
+              ({ data: new Uint8ClampedArray(width * height * 4), width, height })
+          : () => {},
+  set: (target, key, value) => {
+    target[key] = value;
+    return true;
+  },
+});
+
+HTMLCanvasElement.prototype.getContext = (() => contextStub) as unknown as typeof HTMLCanvasElement.prototype.getContext;
+
+HTMLCanvasElement.prototype.toDataURL = () => TEST_DATA_URL;
+
+/**
+ * Smallest byte sequences with valid container structure for each format, so metadata
+ * embedding has real headers to work with. They do not decode to pixels.
+ */
+export const TEST_ENCODED: Record<string, number[]> = {
+  'image/png': [
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0, 0x1f, 0x15, 0xc4, 0x89,
+    0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
+  ],
+  'image/jpeg': [0xff, 0xd8, 0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0, 0xff, 0xd9],
+  'image/webp': [0x52, 0x49, 0x46, 0x46, 18, 0, 0, 0, 0x57, 0x45, 0x42, 0x50, 0x56, 0x50, 0x38, 0x20, 6, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+};
+
+HTMLCanvasElement.prototype.toBlob = function (callback: BlobCallback, type = 'image/png') {
+  const mimeType = type in TEST_ENCODED ? type : 'image/png';
+  setTimeout(() => callback(new Blob([new Uint8Array(TEST_ENCODED[mimeType])], { type: mimeType })));
+};
+
+URL.createObjectURL = () => 'blob:test-object-url';
+URL.revokeObjectURL = () => {};
+
+// jsdom's Blob predates Blob.arrayBuffer().
+if (!Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function (this: Blob) {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}
+
+// jsdom only provides ImageData with the native canvas package.
+if (typeof ImageData === 'undefined') {
+  globalThis.ImageData = class {
+    constructor(readonly data: Uint8ClampedArray, readonly width: number, readonly height: number) {}
+  } as unknown as typeof ImageData;
+}
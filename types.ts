@@ -1,6 +1,452 @@
 
+export interface CropSettings {
+  /** Crop rectangle in percent of the source image, so it survives re-renders at any size. */
+  crop: { x: number; y: number; width: number; height: number };
+  /** Locked aspect ratio (width / height), or null for a free-form crop. */
+  aspect: number | null;
+  scale: number;
+  rotate: number;
+}
+
 export interface ImageState {
   file: File | null;
   preview: string | null;
   croppedBase64: string | null;
+  /** The optimized, uncropped image (data URL) the crop is applied to. */
+  source: string | null;
+  crop: CropSettings | null;
+  /** Transparent PNG data URL of the product with its background removed. */
+  cutout: string | null;
+  /** Send the cutout instead of the cropped photo. */
+  useCutout: boolean;
+}
+
+export const EMPTY_IMAGE_STATE: ImageState = {
+  file: null,
+  preview: null,
+  croppedBase64: null,
+  source: null,
+  crop: null,
+  cutout: null,
+  useCutout: false,
+};
+
+export type SubjectKind = 'person' | 'product';
+
+export type QualityIssueId = 'no-face' | 'multiple-faces' | 'blurry' | 'low-resolution' | 'busy-background';
+
+export interface QualityIssue {
+  id: QualityIssueId;
+  severity: 'warning' | 'error';
+  tip: string;
+}
+
+/** Pre-flight check of an uploaded reference image, run before any API call. */
+export interface ImageQualityReport {
+  /** 0-100, higher is better. */
+  score: number;
+  issues: QualityIssue[];
+  /** Faces found, or null when the browser has no face detector. */
+  faceCount: number | null;
+}
+
+/** One uploader slot in the people or products list. */
+export interface SubjectSlot {
+  id: string;
+  /** Free-text role used to name this reference in the prompt, e.g. "Best friend" or "Night cream". */
+  role: string;
+  image: ImageState;
+}
+
+/** Aspect ratios accepted by the image model's `imageConfig.aspectRatio`. */
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '4:5' | '9:16' | '16:9';
+
+export interface PlatformPreset {
+  id: string;
+  label: string;
+  aspectRatio: AspectRatio;
+  /** Exact pixel size the platform expects, used when exporting. */
+  width: number;
+  height: number;
+  /** How the output format is described to the model in the prompt. */
+  promptFormat: string;
+  /** Longest post text the platform accepts, hashtags included. */
+  captionLimit: number;
+  /** Most hashtags worth adding; 0 where hashtags do not apply. */
+  hashtagLimit: number;
+}
+
+export interface InlineImage {
+  base64: string;
+  mimeType: string;
+}
+
+/** An input image together with the role it plays in the composition. */
+export interface ReferenceImage extends InlineImage {
+  role: string;
+  /** Catalog description of a product, added to the prompt alongside its role. */
+  description?: string;
+}
+
+export interface PromptModifiers {
+  lighting: string;
+  timeOfDay: string;
+  season: string;
+  cameraAngle: string;
+  lens: string;
+  mood: string;
+  colorPalette: string;
+}
+
+/** User-authored prompt settings layered on top of the selected scene. */
+export interface PromptSettings {
+  /** Free-text atmosphere appended to the scene description. */
+  atmosphere: string;
+  /** Empty strings mean "let the model decide". */
+  modifiers: PromptModifiers;
+  /** Things the image must not contain. */
+  avoid: string[];
+}
+
+/** Provider-agnostic description of a single UGC image generation. */
+export interface ImageGenerationRequest {
+  people: ReferenceImage[];
+  products: ReferenceImage[];
+  sceneDescription: string;
+  platform: PlatformPreset;
+  /**
+   * Prompt text with `{scene}`, `{subjects}`, `{platform}` and `{format}` placeholders.
+   * Defaults to the template built from the default prompt settings.
+   */
+  promptTemplate?: string;
+  /** Earlier frames of the same carousel, sent after the people and products so identity and styling carry over. */
+  continuity?: InlineImage[];
+}
+
+export interface ImageGenerationResponse {
+  image: InlineImage;
+  /** Identifier of the model (or mock) that produced the image. */
+  model: string;
+  /** The exact text prompt the image was generated from. */
+  prompt: string;
+}
+
+/** A follow-up edit of a previously generated image. */
+export interface ImageRefinementRequest {
+  /** The version being edited. */
+  image: InlineImage;
+  instruction: string;
+  /** Original inputs, re-sent so the model keeps identities and products faithful. */
+  people: ReferenceImage[];
+  products: ReferenceImage[];
+  platform: PlatformPreset;
+  /** The active brand kit's guidelines, so edits stay on brand like the original generation. */
+  brandGuidelines?: string;
+}
+
+/** Machine-readable reason a generation failed, so the UI can suggest a specific fix. */
+export type GenerationErrorCode =
+  | 'quota'
+  | 'auth'
+  | 'safety'
+  | 'no-image'
+  | 'network'
+  | 'timeout'
+  | 'payload-too-large'
+  | 'invalid-request'
+  | 'server'
+  | 'cancelled'
+  | 'budget'
+  | 'unknown';
+
+export type CaptionTone = 'casual' | 'enthusiastic' | 'informative' | 'witty' | 'luxurious';
+
+export type CaptionLength = 'short' | 'medium' | 'long';
+
+/** Asks for post copy describing a generated image. */
+export interface CopyRequest {
+  /** The generated image the copy is written for. */
+  image: InlineImage;
+  scene: string;
+  /** Product references, whose roles and descriptions name and detail the products. */
+  products: ReferenceImage[];
+  platform: PlatformPreset;
+  tone: CaptionTone;
+  length: CaptionLength;
+}
+
+export interface CopyResponse {
+  caption: string;
+  /** Each with its leading "#". */
+  hashtags: string[];
+  /** Accessibility description of the image for screen readers. */
+  altText: string;
+  model: string;
+}
+
+/** Caption, hashtags and alt text for one image, as last edited by the user. */
+export interface PostCopy extends Omit<CopyResponse, 'model'> {
+  tone: CaptionTone;
+  length: CaptionLength;
+}
+
+export interface GenerationOptions {
+  /** Aborting cancels the request and any pending retries. */
+  signal?: AbortSignal;
+  /** Called after every request sent to a model, retries included, for the usage ledger. */
+  onAttempt?: (attempt: UsageAttempt) => void;
+}
+
+export type UsageKind = 'image' | 'refine' | 'copy';
+
+/** One request sent to a model, as measured by the provider. */
+export interface UsageAttempt {
+  kind: UsageKind;
+  model: string;
+  /** Token counts reported by the model, or 0 when it reported none. */
+  inputTokens: number;
+  outputTokens: number;
+  /** Images returned; 0 for failed attempts and for copy. */
+  images: number;
+  latencyMs: number;
+  outcome: 'success' | GenerationErrorCode;
+}
+
+/** A usage ledger row: an attempt plus when, for which project and at what estimated cost. */
+export interface UsageEntry extends UsageAttempt {
+  id: string;
+  timestamp: number;
+  /** Active brand kit name when the attempt was made, or empty. */
+  project: string;
+  /** Estimated USD cost from the price table in effect at the time. */
+  cost: number;
+}
+
+/** USD prices for a model; any of them may be 0. */
+export interface ModelPrice {
+  model: string;
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  /** Flat charge per returned image, for providers that bill by image. */
+  perImage: number;
+}
+
+export interface UsageSettings {
+  prices: ModelPrice[];
+  /** USD cap on spend since the app was opened, or null for none. */
+  sessionBudget: number | null;
+  /** USD cap on all-time spend per project name. */
+  projectBudgets: Record<string, number>;
+}
+
+export interface ImageGenerationProvider {
+  id: string;
+  label: string;
+  generate: (request: ImageGenerationRequest, options?: GenerationOptions) => Promise<ImageGenerationResponse>;
+  refine: (request: ImageRefinementRequest, options?: GenerationOptions) => Promise<ImageGenerationResponse>;
+  writeCopy: (request: CopyRequest, options?: GenerationOptions) => Promise<CopyResponse>;
+}
+
+export type ExportFit = 'pad' | 'crop';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  text: string;
+  /** PNG data URL of the logo, drawn before the text. */
+  logo: string | null;
+  position: WatermarkPosition;
+  /** 0-1 */
+  opacity: number;
+}
+
+export interface ExportSettings {
+  format: ExportFormat;
+  /** 0-1, used by JPEG and WebP. */
+  quality: number;
+  /** Upscale factor applied before encoding. */
+  scale: number;
+  watermark: WatermarkSettings;
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  /** Shared by the jobs created together; a batch has at most one winner. */
+  batchId: string;
+  /** Scene label shown to the user. */
+  scene: string;
+  /** Scene text sent to the model. */
+  sceneDescription: string;
+  categoryId: string | null;
+  /** 1-based index of this variation within its scene. */
+  variation: number;
+  platformId: string;
+  promptTemplate: string;
+  /** Inputs captured when the job was created, so retries reproduce the same request. */
+  people: ReferenceImage[];
+  products: ReferenceImage[];
+  status: GenerationJobStatus;
+  /** Data URL of the generated image once the job has succeeded. */
+  image: string | null;
+  /** Model reported by the provider that produced `image`. */
+  model: string | null;
+  prompt: string | null;
+  error: string | null;
+  errorCode: GenerationErrorCode | null;
+  /** When a quota error said how long to wait, the time (ms since epoch) a retry can succeed. */
+  retryAt: number | null;
+  /** 1-5 stars given while reviewing, or null if unrated. */
+  rating: number | null;
+  /** Picked as the best of a comparison. */
+  isWinner: boolean;
+  /** Caption, hashtags and alt text, once written. */
+  copy: PostCopy | null;
+}
+
+/** A finished generation persisted to the local history library. */
+export interface GenerationRecord {
+  id: string;
+  createdAt: number;
+  /** Data URL of the generated output. */
+  image: string;
+  people: ReferenceImage[];
+  products: ReferenceImage[];
+  /** Small data URL previews of the inputs for the library grid, in the same order. */
+  peopleThumbnails: string[];
+  productThumbnails: string[];
+  scene: string;
+  categoryId: string | null;
+  platformId: string;
+  prompt: string;
+  model: string;
+  rating: number | null;
+  isWinner: boolean;
+  copy: PostCopy | null;
+}
+
+/** One moment in a carousel storyline, e.g. "Unboxing". */
+export interface StoryBeat {
+  id: string;
+  label: string;
+  /** What happens in this frame; empty to go by the label alone. */
+  description: string;
+}
+
+/** The ordered beats of a carousel and the setting they share. */
+export interface Storyline {
+  /** Location and styling common to every frame. */
+  setting: string;
+  beats: StoryBeat[];
+}
+
+/** One generated image of a carousel. Frames keep their beat, so they can be reordered after generation. */
+export interface StoryFrame {
+  id: string;
+  beat: StoryBeat;
+  status: GenerationJobStatus;
+  /** Data URL of the generated image once the frame has succeeded. */
+  image: string | null;
+  model: string | null;
+  prompt: string | null;
+  error: string | null;
+}
+
+export interface SceneOption {
+  id: string;
+  label: string;
+  /** Richer description sent to the model in place of the label; empty to use the label. */
+  prompt: string;
+}
+
+export interface SceneCategory {
+  id: string;
+  label: string;
+  icon: string;
+  subOptions: SceneOption[];
+}
+
+/** One node in a refinement version tree. */
+export interface ImageVersion {
+  id: string;
+  /** Version this one was refined from; null for the original generation. */
+  parentId: string | null;
+  /** Data URL of this version's image. */
+  image: string;
+  /** Follow-up instruction that produced this version; null for the original. */
+  instruction: string | null;
+  prompt: string;
+  model: string;
+  createdAt: number;
+}
+
+export interface RefinementSession {
+  /** The gallery job whose result the session started from. */
+  jobId: string;
+  versions: ImageVersion[];
+  activeVersionId: string;
+}
+
+/** A product imported from a catalog feed, stored locally by SKU. */
+export interface CatalogProduct {
+  sku: string;
+  title: string;
+  /** Plain text; HTML from the feed is stripped on import. */
+  description: string;
+  /** Product type or collection from the feed, used for filtering. */
+  category: string;
+  tags: string[];
+  /** Resized JPEG reference, or null when the image could not be loaded. */
+  image: InlineImage | null;
+  /** Image URL or local file name given in the feed. */
+  imageSource: string;
+  /** Why `image` is missing, when it is. */
+  imageError: string | null;
+  importedAt: number;
+}
+
+/** Model release on file for a persona, recorded for compliance. */
+export interface PersonaConsent {
+  /** A signed release or written consent is on file. */
+  granted: boolean;
+  /** Where images of the person may be used, e.g. "Organic social and paid ads, EU only". */
+  usageRights: string;
+  /** Last day the consent is valid (YYYY-MM-DD), or null if it does not expire. */
+  expiresOn: string | null;
+  /** Where the signed release is kept, e.g. a contract number or file link. */
+  releaseReference: string;
+}
+
+/** A recurring creator or model saved with their reference photos. */
+export interface Persona {
+  id: string;
+  name: string;
+  /** JPEG references as produced by the uploader; the first is the primary photo. */
+  photos: InlineImage[];
+  tags: string[];
+  /** Styling and wardrobe notes, passed to the prompt with the persona's role. */
+  notes: string;
+  consent: PersonaConsent;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A client's brand guidelines, applied to every generation while the kit is active. */
+export interface BrandKit {
+  id: string;
+  name: string;
+  /** Hex colors, e.g. "#1e40af". */
+  colors: string[];
+  toneKeywords: string[];
+  /** Contexts, objects or styles that must never appear. */
+  forbiddenElements: string[];
+  /** Wording that must be included verbatim in every prompt. */
+  requiredWording: string;
+  /** Scene ids the kit allows; empty allows the whole catalog. */
+  allowedSceneIds: string[];
+  defaultPlatformId: string;
 }
@@ -1,18 +1,32 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiProxyPlugin } from './server/apiProxy';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With the proxy on, the key stays on the server and the browser calls /api instead.
+    const useProxy = env.API_PROXY === 'true';
+    const browserKey = useProxy ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        useProxy && apiProxyPlugin({
+          apiKey: env.GEMINI_API_KEY,
+          rateLimit: Number(env.API_RATE_LIMIT) || 10,
+          rateLimitWindowMs: 60_000,
+          maxBodyBytes: (Number(env.API_MAX_BODY_MB) || 20) * 1024 * 1024,
+        }),
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(browserKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(browserKey),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.API_PROXY_URL': JSON.stringify(useProxy ? '/api' : undefined)
       },
       resolve: {
         alias: {